@@ -55,6 +55,21 @@ export default function TabLayout() {
             ),
           }}
         />
+        <Tabs.Screen
+          name="history"
+          options={{
+            title: "History",
+            headerShown: true,
+            headerTitle: "History",
+            tabBarIcon: ({ color }) => (
+              <IconSymbol
+                size={28}
+                name="clock.arrow.circlepath"
+                color={color}
+              />
+            ),
+          }}
+        />
         <Tabs.Screen
           name="settings"
           options={{
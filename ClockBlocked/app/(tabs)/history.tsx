@@ -0,0 +1,209 @@
+import {
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Text,
+  View,
+  TouchableOpacity,
+} from "react-native";
+import React, { useState, useCallback } from "react";
+import { useFocusEffect, useRouter } from "expo-router";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useStore } from "@/store/useStore";
+import {
+  AlarmSentOut,
+  ChallengeHistory,
+  UserStats,
+  getChallengeHistory,
+  getUserStats,
+} from "@/services/alarmService";
+import { ChallengeHistoryItem } from "@/components/ChallengeHistoryItem";
+import {
+  OutcomeHeatmap,
+  getHeatmapFirstDay,
+} from "@/components/OutcomeHeatmap";
+import { WakeInsights } from "@/components/WakeInsights";
+import { HISTORY_WEEKS } from "@/constants";
+import { fromDateKey, toDateKey } from "@/utils";
+
+export default function HistoryScreen() {
+  const [history, setHistory] = useState<ChallengeHistory | null>(null);
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { user } = useStore();
+
+  const today = toDateKey(new Date());
+
+  const fetchHistory = useCallback(async () => {
+    if (!user?.uid) return;
+
+    try {
+      // From the first day shown in the heatmap
+      const firstDay = getHeatmapFirstDay(today, HISTORY_WEEKS);
+      const [nextHistory, nextStats] = await Promise.all([
+        getChallengeHistory(user.uid, fromDateKey(firstDay)),
+        // Stats are optional; the history still shows without them
+        getUserStats(user.uid).catch(() => null),
+      ]);
+      setHistory(nextHistory);
+      setStats(nextStats);
+    } catch (error) {
+      console.error("Error fetching history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.uid, today]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchHistory();
+    }, [fetchHistory])
+  );
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.streaks}>
+        <View style={styles.streakCard}>
+          <Text style={styles.streakValue}>
+            {history?.streaks.current ?? 0}
+          </Text>
+          <Text style={styles.streakLabel}>Current streak</Text>
+        </View>
+        <View style={styles.streakCard}>
+          <Text style={styles.streakValue}>
+            {history?.streaks.longest ?? 0}
+          </Text>
+          <Text style={styles.streakLabel}>Longest streak</Text>
+        </View>
+      </View>
+
+      <OutcomeHeatmap
+        dailyOutcomes={history?.dailyOutcomes ?? {}}
+        weeks={HISTORY_WEEKS}
+        today={today}
+      />
+
+      {stats ? <WakeInsights stats={stats} /> : null}
+
+      <TouchableOpacity
+        style={styles.reportsLink}
+        onPress={() => router.push("/reports")}
+      >
+        <Text style={styles.reportsLinkText}>Weekly reports</Text>
+        <IconSymbol name="chevron.right" size={24} color="#8E8E93" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderHistoryItem = ({ item }: { item: AlarmSentOut }) => (
+    <ChallengeHistoryItem sentOut={item} />
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      );
+    }
+
+    if (!history || history.entries.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <IconSymbol name="clock.arrow.circlepath" size={64} color="#666" />
+          <Text style={styles.emptyText}>No wake-ups yet</Text>
+          <Text style={styles.emptySubtext}>
+            Your alarm challenges will show up here
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={history.entries}
+        renderItem={renderHistoryItem}
+        keyExtractor={(item) => item.id!}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>{renderContent()}</SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  listContent: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 12,
+    gap: 20,
+  },
+  streaks: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  streakCard: {
+    flex: 1,
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+  },
+  streakValue: {
+    fontSize: 32,
+    fontWeight: "300",
+    color: "#FFF",
+  },
+  streakLabel: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 4,
+  },
+  reportsLink: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+  },
+  reportsLinkText: {
+    fontSize: 16,
+    color: "#FFF",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: "#999",
+    textAlign: "center",
+  },
+});
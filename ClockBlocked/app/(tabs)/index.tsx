@@ -19,10 +19,7 @@ import {
 import { AlarmCard } from "@/components/AlarmCard";
 import { InfoModal } from "@/components/InfoModal";
 import { useAlarmNotifications } from "@/hooks/useAlarmNotifications";
-import {
-  scheduleAlarmNotifications,
-  cancelAlarmNotifications,
-} from "@/services/notificationService";
+import { syncAlarmSchedule } from "@/services/notificationService";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export default function AlarmsScreen() {
@@ -62,17 +59,8 @@ export default function AlarmsScreen() {
       // Update in Firestore
       await toggleAlarmEnabled(alarmId, !currentState);
 
-      // Update notifications
-      const toggledAlarm = updatedAlarms.find((a) => a.id === alarmId);
-      if (toggledAlarm) {
-        if (toggledAlarm.isEnabled) {
-          // Schedule notifications for this alarm
-          await scheduleAlarmNotifications(toggledAlarm);
-        } else {
-          // Cancel notifications for this alarm
-          await cancelAlarmNotifications(alarmId);
-        }
-      }
+      // Re-sync the notification queue (schedules or cancels this alarm's occurrences)
+      await syncAlarmSchedule(updatedAlarms);
     } catch (error) {
       // If toggle fails, refresh alarms from server
       const userAlarms = await getUserAlarms(user!.uid);
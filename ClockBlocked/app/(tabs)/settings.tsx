@@ -13,6 +13,7 @@ import { IconSymbol } from "@/components/ui/IconSymbol";
 import { useStore } from "@/store/useStore";
 import { useRouter } from "expo-router";
 import { deleteUserAlarms } from "@/services/alarmService";
+import { deleteUserDevices } from "@/services/deviceService";
 
 export default function SettingsScreen() {
   const { user, reset } = useStore();
@@ -40,7 +41,8 @@ export default function SettingsScreen() {
               // 1. Delete all user alarms and cancel notifications
               await deleteUserAlarms(currentUser.uid);
 
-              // 2. Delete user document from Firestore users collection
+              // 2. Delete registered devices and the user document
+              await deleteUserDevices(currentUser.uid);
               const db = getFirestore();
               await deleteDoc(doc(db, "users", currentUser.uid));
 
@@ -101,6 +103,28 @@ export default function SettingsScreen() {
               <IconSymbol name="chevron.right" size={20} color="#666" />
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.settingItem}
+              onPress={() => router.push("/partners")}
+            >
+              <View style={styles.settingLeft}>
+                <IconSymbol name="person.2" size={24} color="#007AFF" />
+                <Text style={styles.settingText}>Accountability Partners</Text>
+              </View>
+              <IconSymbol name="chevron.right" size={20} color="#666" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.settingItem}
+              onPress={() => router.push("/groups")}
+            >
+              <View style={styles.settingLeft}>
+                <IconSymbol name="person.3" size={24} color="#007AFF" />
+                <Text style={styles.settingText}>Group Challenges</Text>
+              </View>
+              <IconSymbol name="chevron.right" size={20} color="#666" />
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.settingItem}
               onPress={handlePaymentMethods}
@@ -4,11 +4,18 @@ import { StatusBar } from "expo-status-bar";
 import "react-native-reanimated";
 import { useEffect, useState } from "react";
 import { getAuth, onAuthStateChanged } from "@react-native-firebase/auth";
-import { configureGoogleSignIn } from "@/firebase/auth";
+import { configureGoogleSignIn, syncUserTimeZone } from "@/firebase/auth";
 import { useStore } from "@/store/useStore";
 import { AlarmVerificationModal } from "@/components/AlarmVerificationModal";
-import { getPendingAlarmChallenge } from "@/services/alarmService";
-import { getRandomMotivationalPhrase } from "@/constants";
+import {
+  getPendingAlarmChallenge,
+  issueChallenge,
+} from "@/services/alarmService";
+import { registerScheduleHealingTask } from "@/services/scheduleHealingTask";
+import {
+  addPushTokenRefreshListener,
+  registerDevice,
+} from "@/services/deviceService";
 
 export default function RootLayout() {
   const router = useRouter();
@@ -44,23 +51,48 @@ export default function RootLayout() {
       if (user?.uid) {
         const pendingChallenge = await getPendingAlarmChallenge(user.uid);
         if (pendingChallenge && pendingChallenge.id) {
-          // Restore the modal with a new random phrase (phrase not stored in DB)
-          const phrase = getRandomMotivationalPhrase();
-          setActiveAlarm(
-            pendingChallenge.alarmId,
-            phrase,
-            pendingChallenge.id,
-            pendingChallenge.sentAt
-          );
+          try {
+            // Restore the modal (server returns the challenge it already issued)
+            const issued = await issueChallenge(pendingChallenge.id);
+
+            // A snoozed alarm reopens the modal when it rings again
+            if (issued.snoozedUntil && issued.snoozedUntil > new Date()) {
+              return;
+            }
+
+            setActiveAlarm(
+              pendingChallenge.alarmId,
+              issued.challenge,
+              pendingChallenge.id,
+              issued.expiresAt
+            );
+          } catch (error) {
+            console.error("Error restoring pending challenge:", error);
+          }
         }
       }
     };
 
     if (authInitialized && isLoggedIn) {
       checkPendingChallenge();
+      if (user?.uid) {
+        syncUserTimeZone(user.uid);
+        registerScheduleHealingTask();
+        registerDevice(user.uid);
+      }
     }
   }, [authInitialized, isLoggedIn, user?.uid]);
 
+  // Keep the server's copy of this device's push token current
+  useEffect(() => {
+    if (!authInitialized || !isLoggedIn || !user?.uid) {
+      return;
+    }
+
+    const subscription = addPushTokenRefreshListener(user.uid);
+    return () => subscription.remove();
+  }, [authInitialized, isLoggedIn, user?.uid]);
+
   useEffect(() => {
     if (authInitialized) {
       if (isLoggedIn) {
@@ -85,6 +117,9 @@ export default function RootLayout() {
           name="edit-sleep-alarm"
           options={{ headerShown: false }}
         />
+        <Stack.Screen name="reports" options={{ headerShown: false }} />
+        <Stack.Screen name="partners" options={{ headerShown: false }} />
+        <Stack.Screen name="groups" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" options={{ headerShown: false }} />
       </Stack>
       <StatusBar style="light" />
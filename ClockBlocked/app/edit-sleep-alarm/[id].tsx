@@ -13,13 +13,26 @@ import { TimerPicker } from "react-native-timer-picker";
 import { LinearGradient } from "expo-linear-gradient";
 import { useStore } from "@/store/useStore";
 import { Button } from "@/components/Button";
+import { ChallengeTypePicker } from "@/components/ChallengeTypePicker";
+import { StakeInput } from "@/components/StakeInput";
+import { SnoozeSettingsPicker } from "@/components/SnoozeSettingsPicker";
+import { AlarmPauseControls } from "@/components/AlarmPauseControls";
+import { OneOffDatePicker } from "@/components/OneOffDatePicker";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
 import { DAYS } from "@/constants";
+import { setRecurrenceWeekdays, validateAlarmSchedule } from "@/utils";
 import {
+  Alarm,
+  AlarmSnoozeSettings,
+  AlarmStake,
+  DEFAULT_SNOOZE_SETTINGS,
   getAlarmById,
   updateAlarm,
   deleteAlarm,
 } from "@/services/alarmService";
 import { IconSymbol } from "@/components/ui/IconSymbol";
+import { ChallengeType, DEFAULT_CHALLENGE_TYPE } from "@/challenges";
+import { AlarmRecurrence } from "@clockblocked/shared";
 
 export default function EditSleepAlarmScreen() {
   const router = useRouter();
@@ -30,6 +43,16 @@ export default function EditSleepAlarmScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
+  const [date, setDate] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<AlarmRecurrence | null>(null);
+  const [challengeType, setChallengeType] = useState<ChallengeType>(
+    DEFAULT_CHALLENGE_TYPE
+  );
+  const [loadedAlarm, setLoadedAlarm] = useState<Alarm | null>(null);
+  const [stake, setStake] = useState<AlarmStake | null>(null);
+  const [snooze, setSnooze] = useState<AlarmSnoozeSettings>(
+    DEFAULT_SNOOZE_SETTINGS
+  );
   const [alarm, setAlarm] = useState({
     hours: 0,
     minutes: 0,
@@ -39,16 +62,39 @@ export default function EditSleepAlarmScreen() {
     loadAlarm();
   }, [id]);
 
+  // Skip/pause save on their own; only refresh them so form edits are kept
+  const refreshPauseState = async () => {
+    if (!id) return;
+    const alarmData = await getAlarmById(id);
+    setLoadedAlarm(alarmData);
+  };
+
   const loadAlarm = async () => {
     try {
       if (!id) return;
       const alarmData = await getAlarmById(id);
       if (alarmData) {
+        setLoadedAlarm(alarmData);
         setAlarm({
           hours: alarmData.hours,
           minutes: alarmData.minutes,
         });
         setSelectedDays(alarmData.selectedDays);
+        setDate(alarmData.date);
+        setRecurrence(alarmData.recurrence);
+        setChallengeType(alarmData.challengeType);
+        setStake(
+          alarmData.stakeAmount && alarmData.stakeCurrency
+            ? {
+                amount: alarmData.stakeAmount,
+                currency: alarmData.stakeCurrency,
+              }
+            : null
+        );
+        setSnooze({
+          delayMinutes: alarmData.snoozeDelayMinutes,
+          cost: alarmData.snoozeCost,
+        });
       }
     } catch (error) {
       console.error("Error loading alarm:", error);
@@ -59,16 +105,33 @@ export default function EditSleepAlarmScreen() {
   };
 
   const handleDayToggle = (dayIndex: number) => {
-    setSelectedDays((prev) =>
-      prev.includes(dayIndex)
-        ? prev.filter((d) => d !== dayIndex)
-        : [...prev, dayIndex]
-    );
+    const days = selectedDays.includes(dayIndex)
+      ? selectedDays.filter((d) => d !== dayIndex)
+      : [...selectedDays, dayIndex];
+    setDate(null);
+    setSelectedDays(days);
+    setRecurrence((prev) => setRecurrenceWeekdays(prev, days));
+  };
+
+  // A one-off date replaces the weekly repeat
+  const handleDateChange = (picked: string | null) => {
+    setDate(picked);
+    if (picked) {
+      setSelectedDays([]);
+      setRecurrence(null);
+    }
   };
 
   const handleUpdateAlarm = async () => {
-    if (selectedDays.length === 0) {
-      Alert.alert("Error", "Please select at least one day for the alarm");
+    const scheduleError = validateAlarmSchedule(
+      selectedDays,
+      date,
+      recurrence,
+      alarm.hours,
+      alarm.minutes
+    );
+    if (scheduleError) {
+      Alert.alert("Error", scheduleError);
       return;
     }
 
@@ -83,6 +146,11 @@ export default function EditSleepAlarmScreen() {
         hours: alarm.hours,
         minutes: alarm.minutes,
         selectedDays,
+        date,
+        recurrence,
+        challengeType,
+        stake,
+        snooze,
       });
 
       Alert.alert("Success", "Alarm updated successfully", [
@@ -100,6 +168,23 @@ export default function EditSleepAlarmScreen() {
   };
 
   const handleDeleteAlarm = () => {
+    // A group's alarm goes away with the membership
+    if (loadedAlarm?.groupId) {
+      const groupId = loadedAlarm.groupId;
+      Alert.alert(
+        "Group Alarm",
+        "This alarm belongs to a group challenge. Leave the group to delete it.",
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "View Group",
+            onPress: () => router.push(`/groups/${groupId}`),
+          },
+        ]
+      );
+      return;
+    }
+
     Alert.alert("Delete Alarm", "Are you sure you want to delete this alarm?", [
       { text: "Cancel", style: "cancel" },
       {
@@ -137,7 +222,7 @@ export default function EditSleepAlarmScreen() {
         </TouchableOpacity>
       ),
     });
-  }, [navigation, id]);
+  }, [navigation, id, loadedAlarm?.groupId]);
 
   if (loading) {
     return (
@@ -152,54 +237,111 @@ export default function EditSleepAlarmScreen() {
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Set Time</Text>
-          <View style={styles.pickerWrapper}>
-            {/* Selection Highlight Bar */}
-            <View style={styles.highlightBar} />
-            <TimerPicker
-              initialValue={{
-                hours: alarm.hours,
-                minutes: alarm.minutes,
-              }}
-              onDurationChange={(picked) => {
-                setAlarm({ hours: picked.hours, minutes: picked.minutes });
-              }}
-              hideSeconds
-              padWithNItems={2}
-              use12HourPicker
-              minuteLabel=""
-              styles={styles.alarm}
-              LinearGradient={LinearGradient}
+        {loadedAlarm?.groupId ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Group</Text>
+            <Text style={styles.groupHint}>
+              The group sets this alarm&apos;s time, days and stake.
+            </Text>
+            <Button
+              title="View Group"
+              onPress={() => router.push(`/groups/${loadedAlarm.groupId}`)}
             />
           </View>
-        </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Set Time</Text>
+              <View style={styles.pickerWrapper}>
+                {/* Selection Highlight Bar */}
+                <View style={styles.highlightBar} />
+                <TimerPicker
+                  initialValue={{
+                    hours: alarm.hours,
+                    minutes: alarm.minutes,
+                  }}
+                  onDurationChange={(picked) => {
+                    setAlarm({ hours: picked.hours, minutes: picked.minutes });
+                  }}
+                  hideSeconds
+                  padWithNItems={2}
+                  use12HourPicker
+                  minuteLabel=""
+                  styles={styles.alarm}
+                  LinearGradient={LinearGradient}
+                />
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Repeat</Text>
+              <View style={styles.daysContainer}>
+                {DAYS.map((day, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.dayButton,
+                      selectedDays.includes(index) && styles.dayButtonActive,
+                    ]}
+                    onPress={() => handleDayToggle(index)}
+                  >
+                    <Text
+                      style={[
+                        styles.dayText,
+                        selectedDays.includes(index) && styles.dayTextActive,
+                      ]}
+                    >
+                      {day.slice(0, 3)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {selectedDays.length > 0 || recurrence ? (
+                <RecurrencePicker
+                  selectedDays={selectedDays}
+                  value={recurrence}
+                  onChange={setRecurrence}
+                />
+              ) : null}
+              <OneOffDatePicker value={date} onChange={handleDateChange} />
+            </View>
+          </>
+        )}
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Repeat</Text>
-          <View style={styles.daysContainer}>
-            {DAYS.map((day, index) => (
-              <TouchableOpacity
-                key={index}
-                style={[
-                  styles.dayButton,
-                  selectedDays.includes(index) && styles.dayButtonActive,
-                ]}
-                onPress={() => handleDayToggle(index)}
-              >
-                <Text
-                  style={[
-                    styles.dayText,
-                    selectedDays.includes(index) && styles.dayTextActive,
-                  ]}
-                >
-                  {day.slice(0, 3)}
-                </Text>
-              </TouchableOpacity>
-            ))}
+          <Text style={styles.sectionTitle}>Challenge</Text>
+          <ChallengeTypePicker
+            value={challengeType}
+            onChange={setChallengeType}
+          />
+        </View>
+
+        {!loadedAlarm?.groupId ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Stake</Text>
+            <StakeInput value={stake} onChange={setStake} />
           </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Snooze</Text>
+          <SnoozeSettingsPicker
+            value={snooze}
+            onChange={setSnooze}
+            hasStake={!!stake}
+          />
         </View>
 
+        {loadedAlarm && !loadedAlarm.date ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pause</Text>
+            <AlarmPauseControls
+              alarm={loadedAlarm}
+              onChange={refreshPauseState}
+            />
+          </View>
+        ) : null}
+
         <Button
           title="Update Alarm"
           onPress={handleUpdateAlarm}
@@ -236,6 +378,11 @@ const styles = StyleSheet.create({
     color: "#FFF",
     marginBottom: 16,
   },
+  groupHint: {
+    fontSize: 14,
+    color: "#8E8E93",
+    marginBottom: 16,
+  },
   pickerWrapper: {
     backgroundColor: "#1C1C1E",
     borderRadius: 20,
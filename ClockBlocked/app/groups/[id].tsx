@@ -0,0 +1,360 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from "react-native";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import { Group, LeaderboardEntry } from "@clockblocked/shared";
+import { useStore } from "@/store/useStore";
+import { formatDays, formatDuration, formatStake, formatTime } from "@/utils";
+import {
+  GroupLeaderboard,
+  getGroup,
+  getGroupCredits,
+  getGroupInviteLink,
+  getGroupLeaderboard,
+  leaveGroup,
+  removeGroupMember,
+} from "@/services/groupService";
+
+/**
+ * A group challenge: its schedule, leaderboard and members
+ */
+export default function GroupScreen() {
+  const router = useRouter();
+  const { user } = useStore();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [leaderboard, setLeaderboard] = useState<GroupLeaderboard | null>(null);
+  // The user's shares of forfeited stakes, per currency
+  const [credits, setCredits] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchGroup = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [groupData, leaderboardData, creditsData] = await Promise.all([
+        getGroup(id),
+        getGroupLeaderboard(id).catch(() => undefined),
+        user?.uid
+          ? getGroupCredits(user.uid, id).catch(() => ({}))
+          : Promise.resolve({}),
+      ]);
+      setGroup(groupData ?? null);
+      setLeaderboard(leaderboardData ?? null);
+      setCredits(creditsData);
+    } catch (error) {
+      console.error("Error loading group:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, user?.uid]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchGroup();
+    }, [fetchGroup])
+  );
+
+  const shareInvite = async () => {
+    if (!group) return;
+
+    const link = getGroupInviteLink(group.inviteCode);
+    await Share.share({
+      message: `Join my ClockBlocked wake-up group "${group.name}"! Open ${link} or enter code ${group.inviteCode} under Settings → Group Challenges.`,
+    });
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      "Leave Group",
+      "The group's alarm will be deleted from your alarms.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Leave",
+          style: "destructive",
+          onPress: async () => {
+            if (!user?.uid) return;
+            try {
+              await leaveGroup(user.uid, id);
+              router.back();
+            } catch (error: any) {
+              Alert.alert("Error", error.message || "Failed to leave group.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemove = (memberId: string, name: string) => {
+    Alert.alert("Remove Member", `Remove ${name} from the group?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeGroupMember(id, memberId);
+            await fetchGroup();
+          } catch (error: any) {
+            Alert.alert("Error", error.message || "Failed to remove member.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderEntry = (entry: LeaderboardEntry) => (
+    <View key={entry.userId} style={styles.item}>
+      <Text style={styles.rank}>{entry.rank}</Text>
+      <View style={styles.itemText}>
+        <Text style={styles.itemTitle}>
+          {entry.name}
+          {entry.userId === user?.uid ? " (you)" : ""}
+        </Text>
+        <Text style={styles.itemSubtitle}>
+          {entry.total > 0
+            ? `${entry.successes} of ${entry.total} wake-ups`
+            : "No results yet"}
+          {entry.medianTimeToDismissMs !== null
+            ? ` · up in ${formatDuration(entry.medianTimeToDismissMs)}`
+            : ""}
+        </Text>
+      </View>
+      <Text style={styles.rate}>
+        {entry.successRate !== null
+          ? `${Math.round(entry.successRate * 100)}%`
+          : "–"}
+      </Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!group) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>
+            You&apos;re no longer in this group
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isOwner = group.ownerId === user?.uid;
+  const members = Object.entries(group.members).sort(
+    ([, a], [, b]) => a.joinedAt.getTime() - b.joinedAt.getTime()
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{group.name}</Text>
+          <Text style={styles.schedule}>
+            {formatTime(group.hours, group.minutes)} ·{" "}
+            {formatDays([...group.selectedDays])}
+          </Text>
+          {group.stakeAmount && group.stakeCurrency ? (
+            <Text style={styles.stake}>
+              {formatStake(group.stakeAmount, group.stakeCurrency)} at stake
+              {group.splitForfeits ? ", split among those who wake up" : ""}
+            </Text>
+          ) : null}
+          {Object.keys(credits).length > 0 ? (
+            <Text style={styles.stake}>
+              You&apos;ve won{" "}
+              {Object.entries(credits)
+                .map(([currency, amount]) => formatStake(amount, currency))
+                .join(" + ")}{" "}
+              from members who slept in, paid out monthly
+            </Text>
+          ) : null}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>LEADERBOARD</Text>
+          {leaderboard ? (
+            <>
+              {leaderboard.entries.map(renderEntry)}
+              <Text style={styles.sectionHint}>
+                Ranked by success rate, then by how fast members get up, over
+                the last {leaderboard.windowDays} days.
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.sectionHint}>
+              The leaderboard will appear once it&apos;s computed.
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>MEMBERS</Text>
+          {members.map(([memberId, member]) => (
+            <View key={memberId} style={styles.item}>
+              <View style={styles.itemText}>
+                <Text style={styles.itemTitle}>{member.name}</Text>
+                {memberId === group.ownerId ? (
+                  <Text style={styles.itemSubtitle}>Owner</Text>
+                ) : null}
+              </View>
+              {isOwner && memberId !== user?.uid ? (
+                <TouchableOpacity
+                  onPress={() => handleRemove(memberId, member.name)}
+                  style={styles.itemAction}
+                >
+                  <Text style={styles.dangerText}>Remove</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ))}
+          <TouchableOpacity style={styles.button} onPress={shareInvite}>
+            <Text style={styles.buttonText}>
+              Invite Friends ({group.inviteCode})
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+            <Text style={styles.dangerText}>Leave Group</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#999",
+    textAlign: "center",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    gap: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  schedule: {
+    fontSize: 16,
+    color: "#8E8E93",
+  },
+  stake: {
+    fontSize: 14,
+    color: "#34C759",
+  },
+  section: {
+    marginTop: 32,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 12,
+    letterSpacing: 0.5,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 4,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  rank: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#007AFF",
+    width: 28,
+    textAlign: "center",
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: "#FFF",
+    fontWeight: "500",
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+  rate: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  itemAction: {
+    paddingVertical: 4,
+  },
+  dangerText: {
+    fontSize: 15,
+    color: "#FF3B30",
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  leaveButton: {
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 40,
+  },
+});
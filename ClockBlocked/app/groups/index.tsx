@@ -0,0 +1,225 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import { Group } from "@clockblocked/shared";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useStore } from "@/store/useStore";
+import { formatDays, formatTime } from "@/utils";
+import { getUserGroups, joinGroup } from "@/services/groupService";
+
+export default function GroupsScreen() {
+  const router = useRouter();
+  const { user } = useStore();
+  // Set when opened from an invite link
+  const { code } = useLocalSearchParams<{ code?: string }>();
+
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [inviteCode, setInviteCode] = useState(code ?? "");
+
+  // A new invite link can arrive while the screen is already open
+  useEffect(() => {
+    if (code) setInviteCode(code);
+  }, [code]);
+
+  const fetchGroups = useCallback(async () => {
+    if (!user?.uid) return;
+
+    try {
+      setGroups(await getUserGroups(user.uid));
+    } catch (error) {
+      console.error("Error loading groups:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.uid]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchGroups();
+    }, [fetchGroups])
+  );
+
+  const handleJoin = async () => {
+    if (!user?.uid || !inviteCode.trim()) return;
+
+    setJoining(true);
+    try {
+      const { groupId, name } = await joinGroup(user.uid, inviteCode);
+      setInviteCode("");
+      Alert.alert(
+        "Joined",
+        `You're in ${name}. Its alarm has been added to your alarms.`,
+        [{ text: "OK", onPress: () => router.push(`/groups/${groupId}`) }]
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to join group.");
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>YOUR GROUPS</Text>
+          <Text style={styles.sectionHint}>
+            Wake up at the same time as friends and see who&apos;s best at it.
+          </Text>
+          {groups.map((group) => (
+            <TouchableOpacity
+              key={group.id}
+              style={styles.item}
+              onPress={() => router.push(`/groups/${group.id}`)}
+            >
+              <View style={styles.itemText}>
+                <Text style={styles.itemTitle}>{group.name}</Text>
+                <Text style={styles.itemSubtitle}>
+                  {formatTime(group.hours, group.minutes)} ·{" "}
+                  {formatDays([...group.selectedDays])} ·{" "}
+                  {group.memberIds.length}{" "}
+                  {group.memberIds.length === 1 ? "member" : "members"}
+                </Text>
+              </View>
+              <IconSymbol name="chevron.right" size={20} color="#666" />
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => router.push("/groups/new")}
+          >
+            <Text style={styles.buttonText}>Create a Group</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>JOIN A GROUP</Text>
+          <View style={styles.joinRow}>
+            <TextInput
+              style={styles.codeInput}
+              value={inviteCode}
+              onChangeText={setInviteCode}
+              placeholder="Invite code"
+              placeholderTextColor="#666"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={styles.joinButton}
+              onPress={handleJoin}
+              disabled={joining || !inviteCode.trim()}
+            >
+              <Text style={styles.buttonText}>Join</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  section: {
+    marginTop: 32,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 12,
+    letterSpacing: 0.5,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: "#8E8E93",
+    marginBottom: 12,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: "#FFF",
+    fontWeight: "500",
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  joinRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  codeInput: {
+    flex: 1,
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    fontSize: 18,
+    color: "#FFF",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+    letterSpacing: 2,
+  },
+  joinButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: "center",
+  },
+});
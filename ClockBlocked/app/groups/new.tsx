@@ -0,0 +1,278 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+  Text,
+  TextInput,
+  View,
+  Switch,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { TimerPicker } from "react-native-timer-picker";
+import { LinearGradient } from "expo-linear-gradient";
+import { Button } from "@/components/Button";
+import { StakeInput } from "@/components/StakeInput";
+import { DAYS } from "@/constants";
+import { useStore } from "@/store/useStore";
+import { AlarmStake } from "@/services/alarmService";
+import { createGroup } from "@/services/groupService";
+
+/**
+ * Create a group challenge. The group's time, days and stake become every
+ * member's alarm; members pick their own challenge type and snooze settings
+ * on it afterwards.
+ */
+export default function NewGroupScreen() {
+  const router = useRouter();
+  const { user } = useStore();
+
+  const [name, setName] = useState("");
+  const [selectedDays, setSelectedDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [stake, setStake] = useState<AlarmStake | null>(null);
+  const [splitForfeits, setSplitForfeits] = useState(false);
+  const [alarm, setAlarm] = useState({
+    hours: 7,
+    minutes: 0,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleDay = (idx: number) => {
+    setSelectedDays((days) =>
+      days.includes(idx) ? days.filter((d) => d !== idx) : [...days, idx]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!user?.uid) return;
+    if (!name.trim()) {
+      Alert.alert("Error", "Please give the group a name");
+      return;
+    }
+    if (selectedDays.length === 0) {
+      Alert.alert("Error", "Please select at least one day");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const groupId = await createGroup(user.uid, {
+        name: name.trim(),
+        hours: alarm.hours,
+        minutes: alarm.minutes,
+        selectedDays,
+        stake,
+        splitForfeits: !!stake && splitForfeits,
+      });
+      router.replace(`/groups/${groupId}`);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to create group.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Name</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Early Birds"
+            placeholderTextColor="#666"
+            maxLength={50}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Wake-up Time</Text>
+          <View style={styles.pickerWrapper}>
+            {/* Selection Highlight Bar */}
+            <View style={styles.highlightBar} />
+            <TimerPicker
+              initialValue={{
+                hours: alarm.hours,
+                minutes: alarm.minutes,
+              }}
+              onDurationChange={(picked) => {
+                setAlarm({ hours: picked.hours, minutes: picked.minutes });
+              }}
+              hideSeconds
+              padWithNItems={2}
+              use12HourPicker
+              minuteLabel=""
+              styles={timerPickerStyles}
+              LinearGradient={LinearGradient}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Repeat</Text>
+          <View style={styles.daysGrid}>
+            {DAYS.map((day, idx) => (
+              <TouchableOpacity
+                key={day}
+                onPress={() => toggleDay(idx)}
+                style={[
+                  styles.dayButton,
+                  selectedDays.includes(idx) && styles.dayButtonSelected,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.dayButtonText,
+                    selectedDays.includes(idx) && styles.dayButtonTextSelected,
+                  ]}
+                >
+                  {day}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Stake</Text>
+          <StakeInput value={stake} onChange={setStake} />
+          {stake ? (
+            <View style={styles.splitRow}>
+              <View style={styles.splitText}>
+                <Text style={styles.splitTitle}>Split forfeits</Text>
+                <Text style={styles.splitHint}>
+                  A member who fails pays the members who woke up that day
+                  instead of donating
+                </Text>
+              </View>
+              <Switch
+                value={splitForfeits}
+                onValueChange={setSplitForfeits}
+                trackColor={{ false: "#2A2A2A", true: "#007AFF" }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+          ) : null}
+        </View>
+
+        <Button
+          title="Create Group"
+          onPress={handleCreate}
+          disabled={isSaving}
+          loading={isSaving}
+          loadingText="Creating..."
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const timerPickerStyles = {
+  backgroundColor: "transparent", // Transparent so highlight bar shows through
+  text: {
+    color: "white",
+  },
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: "#FFF",
+    marginBottom: 20,
+  },
+  nameInput: {
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 17,
+    color: "#FFF",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  pickerWrapper: {
+    backgroundColor: "#1C1C1E",
+    borderRadius: 20,
+    padding: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    position: "relative",
+  },
+  highlightBar: {
+    position: "absolute",
+    top: "50%",
+    height: 50,
+    width: "100%",
+    backgroundColor: "#3A3A3C",
+    borderRadius: 10,
+    marginTop: -15, // Half of height to center
+  },
+  daysGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 5,
+    justifyContent: "center",
+  },
+  dayButton: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: "#1C1C1E",
+    justifyContent: "center",
+    alignItems: "center",
+    borderWidth: 2,
+    borderColor: "#1C1C1E",
+  },
+  dayButtonSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  dayButtonText: {
+    color: "#666",
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  dayButtonTextSelected: {
+    color: "#FFF",
+  },
+  splitRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+    gap: 12,
+  },
+  splitText: {
+    flex: 1,
+  },
+  splitTitle: {
+    fontSize: 16,
+    color: "#FFF",
+    fontWeight: "500",
+  },
+  splitHint: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+});
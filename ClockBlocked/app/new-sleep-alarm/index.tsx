@@ -11,15 +11,37 @@ import { useRouter } from "expo-router";
 import { TimerPicker } from "react-native-timer-picker";
 import { LinearGradient } from "expo-linear-gradient";
 import { Button } from "@/components/Button";
+import { ChallengeTypePicker } from "@/components/ChallengeTypePicker";
+import { StakeInput } from "@/components/StakeInput";
+import { SnoozeSettingsPicker } from "@/components/SnoozeSettingsPicker";
+import { OneOffDatePicker } from "@/components/OneOffDatePicker";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
 import { DAYS } from "@/constants";
+import { setRecurrenceWeekdays, validateAlarmSchedule } from "@/utils";
 import { useStore } from "@/store/useStore";
-import { createAlarm } from "@/services/alarmService";
+import {
+  AlarmSnoozeSettings,
+  AlarmStake,
+  createAlarm,
+  DEFAULT_SNOOZE_SETTINGS,
+} from "@/services/alarmService";
+import { ChallengeType, DEFAULT_CHALLENGE_TYPE } from "@/challenges";
+import { AlarmRecurrence } from "@clockblocked/shared";
 
 export default function NewSleepAlarmScreen() {
   const router = useRouter();
   const { user } = useStore();
 
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
+  const [date, setDate] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<AlarmRecurrence | null>(null);
+  const [challengeType, setChallengeType] = useState<ChallengeType>(
+    DEFAULT_CHALLENGE_TYPE
+  );
+  const [stake, setStake] = useState<AlarmStake | null>(null);
+  const [snooze, setSnooze] = useState<AlarmSnoozeSettings>(
+    DEFAULT_SNOOZE_SETTINGS
+  );
   const [alarm, setAlarm] = useState({
     hours: 8,
     minutes: 22,
@@ -27,20 +49,49 @@ export default function NewSleepAlarmScreen() {
   const [isSaving, setIsSaving] = useState(false);
 
   const toggleDay = (idx: number) => {
-    setSelectedDays((prev) =>
-      prev.includes(idx) ? prev.filter((d) => d !== idx) : [...prev, idx]
-    );
+    const days = selectedDays.includes(idx)
+      ? selectedDays.filter((d) => d !== idx)
+      : [...selectedDays, idx];
+    setDate(null);
+    setSelectedDays(days);
+    setRecurrence((prev) => setRecurrenceWeekdays(prev, days));
+  };
+
+  // A one-off date replaces the weekly repeat
+  const handleDateChange = (picked: string | null) => {
+    setDate(picked);
+    if (picked) {
+      setSelectedDays([]);
+      setRecurrence(null);
+    }
   };
 
   const handleSaveAlarm = async () => {
-    if (selectedDays.length === 0) {
-      Alert.alert("Error", "Please select at least one day for the alarm");
+    const scheduleError = validateAlarmSchedule(
+      selectedDays,
+      date,
+      recurrence,
+      alarm.hours,
+      alarm.minutes
+    );
+    if (scheduleError) {
+      Alert.alert("Error", scheduleError);
       return;
     }
 
     setIsSaving(true);
     try {
-      await createAlarm(user.uid, alarm.hours, alarm.minutes, selectedDays);
+      await createAlarm(
+        user.uid,
+        alarm.hours,
+        alarm.minutes,
+        selectedDays,
+        challengeType,
+        stake,
+        snooze,
+        date,
+        recurrence
+      );
       Alert.alert("Success", "Alarm created successfully!", [
         {
           text: "OK",
@@ -104,6 +155,36 @@ export default function NewSleepAlarmScreen() {
               </TouchableOpacity>
             ))}
           </View>
+          {selectedDays.length > 0 ? (
+            <RecurrencePicker
+              selectedDays={selectedDays}
+              value={recurrence}
+              onChange={setRecurrence}
+            />
+          ) : null}
+          <OneOffDatePicker value={date} onChange={handleDateChange} />
+        </View>
+
+        <View style={styles.challengeSection}>
+          <Text style={styles.sectionTitle}>Challenge</Text>
+          <ChallengeTypePicker
+            value={challengeType}
+            onChange={setChallengeType}
+          />
+        </View>
+
+        <View style={styles.challengeSection}>
+          <Text style={styles.sectionTitle}>Stake</Text>
+          <StakeInput value={stake} onChange={setStake} />
+        </View>
+
+        <View style={styles.challengeSection}>
+          <Text style={styles.sectionTitle}>Snooze</Text>
+          <SnoozeSettingsPicker
+            value={snooze}
+            onChange={setSnooze}
+            hasStake={!!stake}
+          />
         </View>
 
         <Button
@@ -170,6 +251,9 @@ const styles = StyleSheet.create({
     gap: 5,
     justifyContent: "center",
   },
+  challengeSection: {
+    marginBottom: 40,
+  },
   dayButton: {
     width: 50,
     height: 50,
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { getPartnerStreaks, PartnerStreaks } from "@/services/partnerService";
+
+/**
+ * Read-only view of the streak of a user the current user is a partner of
+ */
+export default function PartnerScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [partner, setPartner] = useState<PartnerStreaks | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStreaks = async () => {
+      try {
+        setPartner(await getPartnerStreaks(id));
+      } catch (error) {
+        console.error("Error loading partner streaks:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStreaks();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!partner) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>
+            You&apos;re no longer this user&apos;s partner
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>{partner.userName}</Text>
+
+        <View style={styles.streaks}>
+          <View style={styles.streakCard}>
+            <Text style={styles.streakValue}>{partner.streaks.current}</Text>
+            <Text style={styles.streakLabel}>Current streak</Text>
+          </View>
+          <View style={styles.streakCard}>
+            <Text style={styles.streakValue}>{partner.streaks.longest}</Text>
+            <Text style={styles.streakLabel}>Longest streak</Text>
+          </View>
+        </View>
+
+        <Text style={styles.hint}>
+          Successful wake-ups in a row, over the last {partner.windowDays} days.
+        </Text>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#999",
+    textAlign: "center",
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  streaks: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  streakCard: {
+    flex: 1,
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+  },
+  streakValue: {
+    fontSize: 32,
+    fontWeight: "300",
+    color: "#FFF",
+  },
+  streakLabel: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: "#8E8E93",
+  },
+});
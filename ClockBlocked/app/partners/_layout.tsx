@@ -0,0 +1,39 @@
+import { Stack, useRouter } from "expo-router";
+import React from "react";
+import { TouchableOpacity, StyleSheet } from "react-native";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+
+export default function PartnersLayout() {
+  const router = useRouter();
+
+  const renderBackButton = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <IconSymbol name="chevron.left" size={30} color="white" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <Stack>
+      <Stack.Screen
+        name="index"
+        options={{
+          headerTitle: "Accountability Partners",
+          headerLeft: renderBackButton,
+        }}
+      />
+      <Stack.Screen
+        name="[id]"
+        options={{
+          headerTitle: "Partner",
+          headerLeft: renderBackButton,
+        }}
+      />
+    </Stack>
+  );
+}
+
+const styles = StyleSheet.create({
+  backButton: {
+    paddingLeft: 2,
+  },
+});
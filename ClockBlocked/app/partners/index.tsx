@@ -0,0 +1,336 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from "react-native";
+import { useFocusEffect, useLocalSearchParams, useRouter } from "expo-router";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useStore } from "@/store/useStore";
+import {
+  Partnership,
+  UserPartnerships,
+  acceptPartnerInvite,
+  createPartnerInvite,
+  getPartnerInviteLink,
+  getUserPartnerships,
+  revokePartnership,
+} from "@/services/partnerService";
+
+export default function PartnersScreen() {
+  const router = useRouter();
+  const { user } = useStore();
+  // Set when opened from an invite link
+  const { code } = useLocalSearchParams<{ code?: string }>();
+
+  const [partnerships, setPartnerships] = useState<UserPartnerships>({
+    partners: [],
+    partnering: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [inviteCode, setInviteCode] = useState(code ?? "");
+
+  // A new invite link can arrive while the screen is already open
+  useEffect(() => {
+    if (code) setInviteCode(code);
+  }, [code]);
+
+  const fetchPartnerships = useCallback(async () => {
+    if (!user?.uid) return;
+
+    try {
+      setPartnerships(await getUserPartnerships(user.uid));
+    } catch (error) {
+      console.error("Error loading partnerships:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.uid]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchPartnerships();
+    }, [fetchPartnerships])
+  );
+
+  const shareInvite = async (codeToShare: string) => {
+    const link = getPartnerInviteLink(codeToShare);
+    await Share.share({
+      message: `Be my ClockBlocked accountability partner! Open ${link} or enter code ${codeToShare} under Settings → Accountability Partners.`,
+    });
+  };
+
+  const handleInvite = async () => {
+    setBusy(true);
+    try {
+      const invite = await createPartnerInvite();
+      await fetchPartnerships();
+      await shareInvite(invite.inviteCode);
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to create invite.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!inviteCode.trim()) return;
+
+    setBusy(true);
+    try {
+      const userName = await acceptPartnerInvite(inviteCode);
+      setInviteCode("");
+      await fetchPartnerships();
+      Alert.alert(
+        "Partner Added",
+        `You'll be notified whenever ${userName} fails to wake up.`
+      );
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to accept invite.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = (partnership: Partnership, title: string) => {
+    Alert.alert(title, "They won't be notified about failed alarms anymore.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: title,
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await revokePartnership(partnership.id);
+            await fetchPartnerships();
+          } catch (error: any) {
+            Alert.alert(
+              "Error",
+              error.message || "Failed to update partnership."
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderPartner = (partnership: Partnership) =>
+    partnership.status === "pending" ? (
+      <View key={partnership.id} style={styles.item}>
+        <View style={styles.itemText}>
+          <Text style={styles.itemTitle}>Invite {partnership.inviteCode}</Text>
+          <Text style={styles.itemSubtitle}>
+            Waiting for your partner to accept
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => shareInvite(partnership.inviteCode!)}
+          style={styles.itemAction}
+        >
+          <Text style={styles.actionText}>Share</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => handleRevoke(partnership, "Cancel Invite")}
+          style={styles.itemAction}
+        >
+          <Text style={styles.dangerText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    ) : (
+      <View key={partnership.id} style={styles.item}>
+        <View style={styles.itemText}>
+          <Text style={styles.itemTitle}>{partnership.partnerName}</Text>
+          <Text style={styles.itemSubtitle}>Notified when you fail</Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => handleRevoke(partnership, "Remove")}
+          style={styles.itemAction}
+        >
+          <Text style={styles.dangerText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    );
+
+  const renderPartnering = (partnership: Partnership) => (
+    <TouchableOpacity
+      key={partnership.id}
+      style={styles.item}
+      onPress={() => router.push(`/partners/${partnership.id}`)}
+    >
+      <View style={styles.itemText}>
+        <Text style={styles.itemTitle}>{partnership.userName}</Text>
+        <Text style={styles.itemSubtitle}>View streak</Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRevoke(partnership, "Leave")}
+        style={styles.itemAction}
+      >
+        <Text style={styles.dangerText}>Leave</Text>
+      </TouchableOpacity>
+      <IconSymbol name="chevron.right" size={20} color="#666" />
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>YOUR PARTNERS</Text>
+          <Text style={styles.sectionHint}>
+            Partners get a notification whenever you fail an alarm challenge,
+            and can see your streak.
+          </Text>
+          {partnerships.partners.map(renderPartner)}
+          <TouchableOpacity
+            style={styles.button}
+            onPress={handleInvite}
+            disabled={busy}
+          >
+            <Text style={styles.buttonText}>Invite a Partner</Text>
+          </TouchableOpacity>
+        </View>
+
+        {partnerships.partnering.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>YOU&apos;RE A PARTNER FOR</Text>
+            {partnerships.partnering.map(renderPartnering)}
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>ACCEPT AN INVITE</Text>
+          <View style={styles.acceptRow}>
+            <TextInput
+              style={styles.codeInput}
+              value={inviteCode}
+              onChangeText={setInviteCode}
+              placeholder="Invite code"
+              placeholderTextColor="#666"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={styles.acceptButton}
+              onPress={handleAccept}
+              disabled={busy || !inviteCode.trim()}
+            >
+              <Text style={styles.buttonText}>Accept</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  section: {
+    marginTop: 32,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 12,
+    letterSpacing: 0.5,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: "#8E8E93",
+    marginBottom: 12,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1C1C1E",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: "#FFF",
+    fontWeight: "500",
+  },
+  itemSubtitle: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+  itemAction: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 15,
+    color: "#007AFF",
+  },
+  dangerText: {
+    fontSize: 15,
+    color: "#FF3B30",
+  },
+  button: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    marginTop: 4,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  acceptRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  codeInput: {
+    flex: 1,
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    fontSize: 18,
+    color: "#FFF",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+    letterSpacing: 2,
+  },
+  acceptButton: {
+    backgroundColor: "#007AFF",
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: "center",
+  },
+});
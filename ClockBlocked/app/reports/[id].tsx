@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { renderWeeklyReport } from "@clockblocked/shared";
+import { getReport, WeeklyReport } from "@/services/reportService";
+
+export default function ReportScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [report, setReport] = useState<WeeklyReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setReport(await getReport(id));
+      } catch (error) {
+        console.error("Error loading report:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!report) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Report not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const rendered = renderWeeklyReport(report);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>{rendered.title}</Text>
+        <Text style={styles.summary}>{rendered.summary}</Text>
+
+        <View style={styles.card}>
+          {rendered.lines.map((line, index) => (
+            <View
+              key={line.label}
+              style={[styles.line, index > 0 && styles.lineBorder]}
+            >
+              <Text style={styles.lineLabel}>{line.label}</Text>
+              <Text style={styles.lineValue}>{line.value}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#999",
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  summary: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: "#8E8E93",
+  },
+  card: {
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  line: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+  },
+  lineBorder: {
+    borderTopWidth: 1,
+    borderTopColor: "#2A2A2A",
+  },
+  lineLabel: {
+    fontSize: 16,
+    color: "#FFF",
+  },
+  lineValue: {
+    fontSize: 16,
+    color: "#8E8E93",
+  },
+});
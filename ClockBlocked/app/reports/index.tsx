@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  TouchableOpacity,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { formatReportWeek, renderWeeklyReport } from "@clockblocked/shared";
+import { IconSymbol } from "@/components/ui/IconSymbol";
+import { useStore } from "@/store/useStore";
+import { getUserReports, WeeklyReport } from "@/services/reportService";
+
+type ReportListItem = WeeklyReport & { id: string };
+
+export default function ReportsScreen() {
+  const router = useRouter();
+  const { user } = useStore();
+  const [reports, setReports] = useState<ReportListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReports = async () => {
+      if (!user?.uid) return;
+
+      try {
+        setReports(await getUserReports(user.uid));
+      } catch (error) {
+        console.error("Error loading reports:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReports();
+  }, [user?.uid]);
+
+  const renderReportItem = ({ item }: { item: ReportListItem }) => (
+    <TouchableOpacity
+      style={styles.item}
+      onPress={() => router.push(`/reports/${item.id}`)}
+    >
+      <View style={styles.itemText}>
+        <Text style={styles.itemTitle}>{formatReportWeek(item)}</Text>
+        <Text style={styles.itemSummary} numberOfLines={2}>
+          {renderWeeklyReport(item).summary}
+        </Text>
+      </View>
+      <IconSymbol name="chevron.right" size={24} color="#8E8E93" />
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {reports.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>No reports yet</Text>
+          <Text style={styles.emptySubtext}>
+            A summary of your week arrives every Monday
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={reports}
+          renderItem={renderReportItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: "#999",
+    textAlign: "center",
+  },
+  listContent: {
+    padding: 20,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#2A2A2A",
+    gap: 12,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+  itemSummary: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+});
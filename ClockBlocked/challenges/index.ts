@@ -0,0 +1,39 @@
+/**
+ * Challenge Registry
+ *
+ * Every dismissal challenge type registers a plugin here.
+ * Alarms store a `challengeType`; the server issues a challenge of that type
+ * and AlarmVerificationModal renders it through the plugin.
+ */
+
+import { phraseChallenge } from "./phraseChallenge";
+import {
+  AnyChallengePlugin,
+  ChallengePlugin,
+  ChallengeType,
+  DEFAULT_CHALLENGE_TYPE,
+} from "./types";
+
+export * from "./types";
+
+const CHALLENGE_REGISTRY: { [T in ChallengeType]: ChallengePlugin<T> } = {
+  phrase: phraseChallenge,
+};
+
+/**
+ * All registered challenge plugins, in display order
+ */
+export const CHALLENGE_PLUGINS: AnyChallengePlugin[] =
+  Object.values(CHALLENGE_REGISTRY);
+
+/**
+ * Look up a challenge plugin, falling back to the default for unknown types
+ */
+export const getChallengePlugin = (
+  type?: ChallengeType | null
+): AnyChallengePlugin => {
+  return (
+    (type && CHALLENGE_REGISTRY[type]) ||
+    CHALLENGE_REGISTRY[DEFAULT_CHALLENGE_TYPE]
+  );
+};
@@ -0,0 +1,290 @@
+/**
+ * Phrase Challenge
+ *
+ * Speak or type a random motivational phrase.
+ *
+ * FEATURES:
+ * - Speech recognition (via @react-native-voice/voice) or text input
+ * - Fuzzy phrase matching (~80% word match) happens in submitChallenge
+ */
+
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import Voice, {
+  SpeechResultsEvent,
+  SpeechErrorEvent,
+} from "@react-native-voice/voice";
+import {
+  ChallengePlugin,
+  ChallengeRenderProps,
+  PhraseChallengeData,
+} from "./types";
+
+const PhraseChallengeView = ({
+  data,
+  attempts,
+  isSubmitting,
+  onSubmit,
+}: ChallengeRenderProps<PhraseChallengeData>) => {
+  const [mode, setMode] = useState<"speech" | "text">("speech");
+  const [textInput, setTextInput] = useState("");
+  const [isListening, setIsListening] = useState(false);
+  const [transcription, setTranscription] = useState("");
+  const [speechError, setSpeechError] = useState("");
+
+  // Reset inputs after every attempt
+  useEffect(() => {
+    setTextInput("");
+    setTranscription("");
+  }, [attempts]);
+
+  // Initialize Voice listeners
+  useEffect(() => {
+    if (mode === "speech") {
+      Voice.onSpeechResults = onSpeechResults;
+      Voice.onSpeechError = onSpeechError;
+      Voice.onSpeechEnd = onSpeechEnd;
+    }
+
+    return () => {
+      Voice.destroy().then(Voice.removeAllListeners);
+    };
+  }, [mode]);
+
+  const onSpeechResults = (e: SpeechResultsEvent) => {
+    if (e.value && e.value.length > 0) {
+      setTranscription(e.value[0]);
+    }
+  };
+
+  const onSpeechError = (e: SpeechErrorEvent) => {
+    console.error("Speech recognition error:", e.error);
+    setSpeechError(`Speech error: ${e.error?.message}. Please try again.`);
+    setIsListening(false);
+  };
+
+  const onSpeechEnd = () => {
+    setIsListening(false);
+  };
+
+  const startListening = async () => {
+    try {
+      setSpeechError("");
+      setTranscription("");
+      setIsListening(true);
+      await Voice.start("en-US");
+    } catch (err) {
+      console.error("Error starting speech recognition:", err);
+      setSpeechError("Could not start listening. Please try again.");
+      setIsListening(false);
+    }
+  };
+
+  const stopListening = async () => {
+    try {
+      await Voice.stop();
+      setIsListening(false);
+    } catch (err) {
+      console.error("Error stopping speech recognition:", err);
+    }
+  };
+
+  const handleSubmit = () => {
+    onSubmit(mode === "speech" ? transcription : textInput);
+  };
+
+  return (
+    <>
+      <Text style={styles.subtitle}>Say or type this phrase to continue:</Text>
+
+      <View style={styles.phraseContainer}>
+        <Text style={styles.phrase}>{data.phrase}</Text>
+      </View>
+
+      {speechError ? <Text style={styles.error}>{speechError}</Text> : null}
+
+      {mode === "speech" ? (
+        <View style={styles.speechContainer}>
+          {transcription ? (
+            <View style={styles.transcriptionBox}>
+              <Text style={styles.transcriptionLabel}>You said:</Text>
+              <Text style={styles.transcription}>{transcription}</Text>
+            </View>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.micButton, isListening && styles.micButtonActive]}
+            onPress={isListening ? stopListening : startListening}
+          >
+            {isListening ? (
+              <ActivityIndicator size="large" color="#FFF" />
+            ) : (
+              <Text style={styles.micButtonText}>{"🎤 Tap to Speak"}</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.switchButton}
+            onPress={() => setMode("text")}
+          >
+            <Text style={styles.switchButtonText}>
+              I can&apos;t speak right now
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.textContainer}>
+          <TextInput
+            style={styles.textInput}
+            value={textInput}
+            onChangeText={setTextInput}
+            placeholder="Type the phrase here..."
+            placeholderTextColor="#666"
+            autoFocus
+            multiline
+          />
+
+          <TouchableOpacity
+            style={styles.switchButton}
+            onPress={() => setMode("speech")}
+          >
+            <Text style={styles.switchButtonText}>Use voice instead</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[
+          styles.submitButton,
+          !textInput.trim() &&
+            !transcription.trim() &&
+            styles.submitButtonDisabled,
+        ]}
+        onPress={handleSubmit}
+        disabled={isSubmitting}
+      >
+        <Text style={styles.submitButtonText}>Submit</Text>
+      </TouchableOpacity>
+    </>
+  );
+};
+
+export const phraseChallenge: ChallengePlugin<"phrase"> = {
+  type: "phrase",
+  label: "Motivational Phrase",
+  render: PhraseChallengeView,
+  deserialize: (payload) => JSON.parse(payload),
+};
+
+const styles = StyleSheet.create({
+  subtitle: {
+    fontSize: 18,
+    color: "#999",
+    textAlign: "center",
+    marginBottom: 32,
+  },
+  phraseContainer: {
+    backgroundColor: "#1a1a1a",
+    padding: 24,
+    borderRadius: 16,
+    marginBottom: 24,
+    borderWidth: 2,
+    borderColor: "#007AFF",
+  },
+  phrase: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: "#FFF",
+    textAlign: "center",
+  },
+  error: {
+    fontSize: 16,
+    color: "#FF3B30",
+    textAlign: "center",
+    marginBottom: 16,
+    paddingHorizontal: 16,
+  },
+  speechContainer: {
+    alignItems: "center",
+  },
+  transcriptionBox: {
+    backgroundColor: "#1a1a1a",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+    width: "100%",
+  },
+  transcriptionLabel: {
+    fontSize: 14,
+    color: "#999",
+    marginBottom: 8,
+  },
+  transcription: {
+    fontSize: 18,
+    color: "#FFF",
+  },
+  micButton: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: "#007AFF",
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  micButtonActive: {
+    backgroundColor: "#FF3B30",
+  },
+  micButtonText: {
+    fontSize: 18,
+    color: "#FFF",
+    textAlign: "center",
+  },
+  textContainer: {
+    width: "100%",
+  },
+  textInput: {
+    backgroundColor: "#1a1a1a",
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 18,
+    color: "#FFF",
+    minHeight: 100,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: "#333",
+  },
+  switchButton: {
+    padding: 12,
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  switchButtonText: {
+    fontSize: 16,
+    color: "#007AFF",
+    textDecorationLine: "underline",
+  },
+  submitButton: {
+    backgroundColor: "#34C759",
+    padding: 18,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: "auto",
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#333",
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#FFF",
+  },
+});
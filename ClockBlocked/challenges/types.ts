@@ -0,0 +1,60 @@
+import React from "react";
+import { ChallengeType } from "@clockblocked/shared";
+
+// Challenge types are part of the alarm schema in the shared package
+export { DEFAULT_CHALLENGE_TYPE } from "@clockblocked/shared";
+export type { ChallengeType };
+
+/**
+ * A challenge as issued by the issueChallenge Cloud Function.
+ * `payload` is the public part only; the expected answer never leaves the server.
+ */
+export type SerializedChallenge = {
+  type: ChallengeType;
+  payload: string;
+};
+
+/**
+ * Public part of a phrase challenge: the phrase to say or type
+ */
+export type PhraseChallengeData = {
+  phrase: string;
+};
+
+/**
+ * What each challenge type's payload deserializes to
+ * Every ChallengeType needs an entry here before its plugin can register.
+ */
+export type ChallengeDataByType = {
+  phrase: PhraseChallengeData;
+};
+
+/**
+ * Props passed to a challenge plugin's render component by AlarmVerificationModal
+ */
+export type ChallengeRenderProps<TData> = {
+  data: TData;
+  attempts: number;
+  isSubmitting: boolean;
+  onSubmit: (answer: string) => void;
+};
+
+/**
+ * Client side of a dismissal challenge type.
+ * Generation and validation run in the issueChallenge / submitChallenge
+ * Cloud Functions; the plugin only owns what the challenge looks like.
+ * The modal owns attempts, timeout and challenge status updates.
+ */
+export type ChallengePlugin<T extends ChallengeType> = {
+  type: T;
+  label: string;
+  render: React.ComponentType<ChallengeRenderProps<ChallengeDataByType[T]>>;
+  deserialize: (payload: string) => ChallengeDataByType[T];
+};
+
+/**
+ * The plugin of any registered type, discriminated by `type`
+ */
+export type AnyChallengePlugin = {
+  [T in ChallengeType]: ChallengePlugin<T>;
+}[ChallengeType];
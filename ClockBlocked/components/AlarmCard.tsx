@@ -1,7 +1,8 @@
 import React from "react";
 import { View, Text, Switch, TouchableOpacity, StyleSheet } from "react-native";
 import { useRouter } from "expo-router";
-import { formatTime } from "@/utils";
+import { describeRecurrence, getAlarmTimeZone } from "@clockblocked/shared";
+import { formatShortDate, formatStake, formatTime, fromDateKey } from "@/utils";
 import { DAY_ABBREVIATIONS } from "@/constants";
 import { Alarm } from "@/services/alarmService";
 
@@ -13,6 +14,12 @@ type AlarmCardProps = {
 export const AlarmCard = ({ alarm, onToggle }: AlarmCardProps) => {
   const router = useRouter();
 
+  const now = new Date();
+  const resumeDate =
+    alarm.pausedUntil && alarm.pausedUntil > now ? alarm.pausedUntil : null;
+  const skipDate =
+    alarm.skipNextAt && alarm.skipNextAt > now ? alarm.skipNextAt : null;
+
   const handleCardPress = () => {
     router.push(`/edit-sleep-alarm/${alarm.id}`);
   };
@@ -28,27 +35,58 @@ export const AlarmCard = ({ alarm, onToggle }: AlarmCardProps) => {
           <Text style={styles.alarmTime}>
             {formatTime(alarm.hours, alarm.minutes)}
           </Text>
-          <View style={styles.daysContainer}>
-            {DAY_ABBREVIATIONS.map((day, index) => (
-              <View
-                key={index}
-                style={[
-                  styles.dayCircle,
-                  alarm.selectedDays.includes(index) && styles.dayCircleActive,
-                ]}
-              >
-                <Text
+          {alarm.date ? (
+            <Text style={styles.scheduleText}>
+              Once on {formatShortDate(fromDateKey(alarm.date))}
+            </Text>
+          ) : alarm.recurrence && alarm.selectedDays.length === 0 ? (
+            <Text style={styles.scheduleText}>
+              {describeRecurrence(alarm.recurrence)}
+            </Text>
+          ) : (
+            <View style={styles.daysContainer}>
+              {DAY_ABBREVIATIONS.map((day, index) => (
+                <View
+                  key={index}
                   style={[
-                    styles.dayCircleText,
+                    styles.dayCircle,
                     alarm.selectedDays.includes(index) &&
-                      styles.dayCircleTextActive,
+                      styles.dayCircleActive,
                   ]}
                 >
-                  {day}
-                </Text>
-              </View>
-            ))}
-          </View>
+                  <Text
+                    style={[
+                      styles.dayCircleText,
+                      alarm.selectedDays.includes(index) &&
+                        styles.dayCircleTextActive,
+                    ]}
+                  >
+                    {day}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+          {alarm.recurrence && alarm.selectedDays.length > 0 ? (
+            <Text style={styles.status}>
+              {describeRecurrence(alarm.recurrence)}
+            </Text>
+          ) : null}
+          {alarm.isEnabled && resumeDate ? (
+            <Text style={styles.status}>
+              Paused · resumes{" "}
+              {formatShortDate(resumeDate, getAlarmTimeZone(alarm))}
+            </Text>
+          ) : alarm.isEnabled && skipDate ? (
+            <Text style={styles.status}>
+              Skipping {formatShortDate(skipDate)}
+            </Text>
+          ) : null}
+          {alarm.stakeAmount && alarm.stakeCurrency ? (
+            <Text style={styles.stake}>
+              {formatStake(alarm.stakeAmount, alarm.stakeCurrency)} at stake
+            </Text>
+          ) : null}
         </View>
 
         <View style={styles.switchContainer}>
@@ -82,6 +120,22 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 20,
   },
+  scheduleText: {
+    fontSize: 14,
+    color: "#FFFFFF",
+    marginTop: 8,
+  },
+  status: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 8,
+  },
+  stake: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#FF9500",
+    marginTop: 8,
+  },
   alarmTime: {
     fontSize: 40,
     fontWeight: "300",
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Platform,
+} from "react-native";
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { getAlarmTimeZone } from "@clockblocked/shared";
+import {
+  Alarm,
+  setAlarmPause,
+  setSkipNextOccurrence,
+} from "@/services/alarmService";
+import { formatShortDate } from "@/utils";
+
+type AlarmPauseControlsProps = {
+  alarm: Alarm;
+  onChange: () => void;
+};
+
+/**
+ * "Skip next" and "Pause until <date>" controls for a recurring alarm
+ * Changes are saved immediately, independent of the edit form
+ */
+export const AlarmPauseControls = ({
+  alarm,
+  onChange,
+}: AlarmPauseControlsProps) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const now = new Date();
+  const isSkipping = !!alarm.skipNextAt && alarm.skipNextAt > now;
+  const resumeDate =
+    alarm.pausedUntil && alarm.pausedUntil > now ? alarm.pausedUntil : null;
+  const isPaused = !!resumeDate;
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(0, 0, 0, 0);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error("Error updating alarm pause:", error);
+      Alert.alert("Error", "Failed to update alarm. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDatePicked = (event: DateTimePickerEvent, date?: Date) => {
+    setShowPicker(Platform.OS === "ios" && event.type !== "set");
+    if (event.type === "set" && date) {
+      run(() => setAlarmPause(alarm, date));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={() => run(() => setSkipNextOccurrence(alarm, !isSkipping))}
+          disabled={isSaving || isPaused}
+          style={[
+            styles.option,
+            isSkipping && styles.optionSelected,
+            isPaused && styles.optionDisabled,
+          ]}
+        >
+          <Text
+            style={[styles.optionText, isSkipping && styles.optionTextSelected]}
+          >
+            {isSkipping ? "Skipping next" : "Skip next"}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() =>
+            isPaused
+              ? run(() => setAlarmPause(alarm, null))
+              : setShowPicker(true)
+          }
+          disabled={isSaving}
+          style={[styles.option, isPaused && styles.optionSelected]}
+        >
+          <Text
+            style={[styles.optionText, isPaused && styles.optionTextSelected]}
+          >
+            {isPaused ? "Resume now" : "Pause until..."}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {resumeDate ? (
+        <Text style={styles.status}>
+          Paused until {formatShortDate(resumeDate, getAlarmTimeZone(alarm))}
+        </Text>
+      ) : null}
+
+      {showPicker ? (
+        <DateTimePicker
+          value={tomorrow}
+          mode="date"
+          minimumDate={tomorrow}
+          onChange={handleDatePicked}
+        />
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#FF9500",
+    borderColor: "#FF9500",
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+  status: {
+    fontSize: 14,
+    color: "#FF9500",
+  },
+});
@@ -4,121 +4,119 @@
  * Non-dismissible modal for alarm verification challenges.
  *
  * FEATURES:
- * - Speech recognition (via @react-native-voice/voice) or text input
- * - 15-minute countdown timer
+ * - Renders the active challenge through its plugin (see challenges/)
+ * - 15-minute countdown timer (moved by snoozes)
+ * - Snooze button (each snooze shortens the window or raises the stake)
  * - Unlimited attempts (tracked for logging)
- * - Fuzzy phrase matching (~80% word match)
  * - Keyboard-aware UI (KeyboardAvoidingView + ScrollView)
  *
  * STATE MANAGEMENT:
  * - Auto-resets all state when modal opens (prevents stale data)
  * - Tracks sentOutId for updating challenge status in Firestore
+ * - Attempts, timeout and status updates are shared by every challenge type
  *
  * SUCCESS FLOW:
- * - Updates challenge status to "success" with attempt count
- * - Cancels all remaining notifications for this alarm
+ * - submitChallenge Cloud Function validates the answer and sets "success"
+ * - Cancels the remaining burst notifications for this occurrence
+ *
+ * SNOOZE FLOW:
+ * - snoozeChallenge Cloud Function records the snooze and its cost
+ * - Current burst is silenced and a new one scheduled; modal closes until it rings
  *
  * FAILURE FLOW:
  * - Only triggered by 15-minute timeout (not by incorrect attempts)
- * - Updates challenge status to "failed" with attempt count
+ * - Updates challenge status to "failed"
  */
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   Modal,
   View,
   Text,
   StyleSheet,
-  TouchableOpacity,
-  TextInput,
-  ActivityIndicator,
   Alert,
   KeyboardAvoidingView,
-  Platform,
   ScrollView,
+  TouchableOpacity,
 } from "react-native";
 import { useStore } from "@/store/useStore";
 import {
-  markAlarmChallengeSuccess,
+  submitChallengeAnswer,
   markAlarmChallengeFailed,
+  snoozeAlarmChallenge,
+  SnoozeResult,
 } from "@/services/alarmService";
-import { cancelAlarmNotifications } from "@/services/notificationService";
-import Voice, {
-  SpeechResultsEvent,
-  SpeechErrorEvent,
-} from "@react-native-voice/voice";
+import { cancelRingingAlarmNotifications } from "@/services/notificationService";
+import { getChallengePlugin } from "@/challenges";
+import { CHALLENGE_TIMEOUT_MINUTES } from "@/constants";
+import { formatStake } from "@/utils";
+
+const TIMEOUT_MS = CHALLENGE_TIMEOUT_MINUTES * 60 * 1000;
 
-const TIMEOUT_MINUTES = 15;
-const TIMEOUT_MS = TIMEOUT_MINUTES * 60 * 1000;
+/**
+ * Describe what a snooze cost the user
+ */
+const describeSnoozeCost = (result: SnoozeResult): string => {
+  if (result.cost === "add_stake" && result.stakeCurrency) {
+    return `Your stake went up by ${formatStake(
+      result.stakeSurcharge,
+      result.stakeCurrency
+    )}.`;
+  }
+  return `You'll have ${result.windowCutMinutes} fewer minutes to complete the challenge.`;
+};
 
 export const AlarmVerificationModal: React.FC = () => {
   const {
     activeAlarmId,
-    activeAlarmPhrase,
-    alarmStartTime,
+    activeChallenge,
+    challengeExpiresAt,
     sentOutId,
     clearActiveAlarm,
   } = useStore();
 
-  const [mode, setMode] = useState<"speech" | "text">("speech");
-  const [textInput, setTextInput] = useState("");
-  const [isListening, setIsListening] = useState(false);
-  const [transcription, setTranscription] = useState("");
   const [timeRemaining, setTimeRemaining] = useState(TIMEOUT_MS);
   const [attempts, setAttempts] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSnoozing, setIsSnoozing] = useState(false);
   const [error, setError] = useState("");
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const isVisible = !!activeAlarmId && !!activeAlarmPhrase;
+  const isVisible = !!activeAlarmId && !!activeChallenge;
+
+  const plugin = useMemo(
+    () => getChallengePlugin(activeChallenge?.type),
+    [activeChallenge?.type]
+  );
+  const challengeData = useMemo(
+    () =>
+      activeChallenge ? plugin.deserialize(activeChallenge.payload) : null,
+    [plugin, activeChallenge]
+  );
 
   // Reset state when modal opens
   useEffect(() => {
     if (isVisible) {
-      setMode("speech");
-      setTextInput("");
-      setIsListening(false);
-      setTranscription("");
       setTimeRemaining(TIMEOUT_MS);
       setAttempts(0);
+      setIsSubmitting(false);
+      setIsSnoozing(false);
       setError("");
     }
   }, [isVisible]);
 
-  // Initialize Voice listeners
-  useEffect(() => {
-    if (isVisible && mode === "speech") {
-      Voice.onSpeechResults = onSpeechResults;
-      Voice.onSpeechError = onSpeechError;
-      Voice.onSpeechEnd = onSpeechEnd;
-    }
-
-    return () => {
-      Voice.destroy().then(Voice.removeAllListeners);
-    };
-  }, [isVisible, mode]);
-
-  const onSpeechResults = (e: SpeechResultsEvent) => {
-    if (e.value && e.value.length > 0) {
-      setTranscription(e.value[0]);
-    }
-  };
-
-  const onSpeechError = (e: SpeechErrorEvent) => {
-    console.error("Speech recognition error:", e.error);
-    setError(`Speech error: ${e.error?.message}. Please try again.`);
-    setIsListening(false);
-  };
-
-  const onSpeechEnd = () => {
-    setIsListening(false);
-  };
-
   const handleTimeout = useCallback(async () => {
     if (!sentOutId || !activeAlarmId) return;
 
     try {
-      await markAlarmChallengeFailed(sentOutId, attempts, activeAlarmId);
+      await markAlarmChallengeFailed(sentOutId, activeAlarmId);
       Alert.alert(
         "Time's Up!",
         "You failed to complete the alarm verification in time. This has been logged.",
@@ -128,11 +126,11 @@ export const AlarmVerificationModal: React.FC = () => {
       console.error("Error marking challenge as failed:", error);
       clearActiveAlarm();
     }
-  }, [sentOutId, activeAlarmId, attempts, clearActiveAlarm]);
+  }, [sentOutId, activeAlarmId, clearActiveAlarm]);
 
   // Start countdown timer
   useEffect(() => {
-    if (!isVisible || !alarmStartTime) return;
+    if (!isVisible || !challengeExpiresAt) return;
 
     // Clear any existing interval first
     if (intervalRef.current) {
@@ -141,8 +139,7 @@ export const AlarmVerificationModal: React.FC = () => {
 
     // Update countdown every second
     intervalRef.current = setInterval(() => {
-      const elapsed = Date.now() - alarmStartTime.getTime();
-      const remaining = Math.max(0, TIMEOUT_MS - elapsed);
+      const remaining = Math.max(0, challengeExpiresAt.getTime() - Date.now());
       setTimeRemaining(remaining);
 
       if (remaining === 0) {
@@ -156,90 +153,60 @@ export const AlarmVerificationModal: React.FC = () => {
         intervalRef.current = null;
       }
     };
-  }, [isVisible, alarmStartTime, handleTimeout]);
+  }, [isVisible, challengeExpiresAt, handleTimeout]);
 
-  const startListening = async () => {
-    try {
-      setError("");
-      setTranscription("");
-      setIsListening(true);
-      await Voice.start("en-US");
-    } catch (err) {
-      console.error("Error starting speech recognition:", err);
-      setError("Could not start listening. Please try again.");
-      setIsListening(false);
-    }
-  };
+  const handleSubmit = async (answer: string) => {
+    if (!sentOutId || !activeAlarmId) return;
 
-  const stopListening = async () => {
+    setIsSubmitting(true);
+    setError("");
     try {
-      await Voice.stop();
-      setIsListening(false);
-    } catch (err) {
-      console.error("Error stopping speech recognition:", err);
+      const result = await submitChallengeAnswer(
+        sentOutId,
+        activeAlarmId,
+        answer
+      );
+      setAttempts(result.attemptsMade);
+
+      if (result.success) {
+        // Cancel the rest of this occurrence's burst (future occurrences stay queued)
+        await cancelRingingAlarmNotifications(activeAlarmId);
+        Alert.alert("Success!", "Alarm verified. Have a great day!", [
+          { text: "OK", onPress: clearActiveAlarm },
+        ]);
+      } else {
+        setError("Incorrect answer. Please try again.");
+      }
+    } catch (error) {
+      console.error("Error submitting challenge answer:", error);
+      setError("Could not verify your answer. Please try again.");
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  const validatePhrase = (input: string): boolean => {
-    if (!activeAlarmPhrase) return false;
-
-    const normalized = (str: string) =>
-      str
-        .toLowerCase()
-        .trim()
-        .replace(/[^\w\s]/g, "");
-
-    const target = normalized(activeAlarmPhrase);
-    const userInput = normalized(input);
-
-    // Exact match
-    if (target === userInput) return true;
-
-    // Fuzzy match: calculate similarity (simple word matching)
-    const targetWords = target.split(/\s+/);
-    const inputWords = userInput.split(/\s+/);
-
-    const matchedWords = targetWords.filter((word) =>
-      inputWords.includes(word)
-    ).length;
-
-    const similarity = matchedWords / targetWords.length;
-
-    // Accept if 80% of words match
-    return similarity >= 0.8;
-  };
-
-  const handleSubmit = async () => {
-    const input = mode === "speech" ? transcription : textInput;
-
-    const isValid = validatePhrase(input);
-
-    if (true) {
-      // Mark challenge as success
-      if (sentOutId && activeAlarmId) {
-        try {
-          await markAlarmChallengeSuccess(
-            sentOutId,
-            attempts + 1,
-            activeAlarmId
-          );
-          // Cancel remaining notifications for this alarm
-          await cancelAlarmNotifications(activeAlarmId);
-        } catch (error) {
-          console.error("Error marking challenge as success:", error);
-        }
-      }
-      Alert.alert("Success!", "Alarm verified. Have a great day!", [
-        { text: "OK", onPress: clearActiveAlarm },
-      ]);
-    } else {
-      const newAttempts = attempts + 1;
-      setAttempts(newAttempts);
-      setError("Incorrect phrase. Please try again.");
+  const handleSnooze = async () => {
+    if (!sentOutId || !activeAlarmId) return;
 
-      // Reset inputs
-      setTextInput("");
-      setTranscription("");
+    setIsSnoozing(true);
+    setError("");
+    try {
+      const result = await snoozeAlarmChallenge(sentOutId, activeAlarmId);
+      const minutes = Math.round(
+        (result.snoozedUntil.getTime() - Date.now()) / 60000
+      );
+      clearActiveAlarm();
+      Alert.alert(
+        "Snoozed",
+        `The alarm will ring again in ${minutes} minutes. ${describeSnoozeCost(
+          result
+        )}`
+      );
+    } catch (error) {
+      console.error("Error snoozing alarm:", error);
+      setError("You can't snooze this alarm anymore. Complete the challenge.");
+    } finally {
+      setIsSnoozing(false);
     }
   };
 
@@ -250,7 +217,9 @@ export const AlarmVerificationModal: React.FC = () => {
     return `${minutes}:${seconds.toString().padStart(2, "0")}`;
   };
 
-  if (!isVisible) return null;
+  if (!isVisible || !challengeData) return null;
+
+  const ChallengeView = plugin.render;
 
   return (
     <Modal visible={isVisible} animationType="slide" transparent={false}>
@@ -268,82 +237,24 @@ export const AlarmVerificationModal: React.FC = () => {
 
           <View style={styles.content}>
             <Text style={styles.title}>Wake Up Challenge</Text>
-            <Text style={styles.subtitle}>
-              Say or type this phrase to continue:
-            </Text>
-
-            <View style={styles.phraseContainer}>
-              <Text style={styles.phrase}>{activeAlarmPhrase}</Text>
-            </View>
 
             {error ? <Text style={styles.error}>{error}</Text> : null}
 
-            {mode === "speech" ? (
-              <View style={styles.speechContainer}>
-                {transcription ? (
-                  <View style={styles.transcriptionBox}>
-                    <Text style={styles.transcriptionLabel}>You said:</Text>
-                    <Text style={styles.transcription}>{transcription}</Text>
-                  </View>
-                ) : null}
-
-                <TouchableOpacity
-                  style={[
-                    styles.micButton,
-                    isListening && styles.micButtonActive,
-                  ]}
-                  onPress={isListening ? stopListening : startListening}
-                >
-                  {isListening ? (
-                    <ActivityIndicator size="large" color="#FFF" />
-                  ) : (
-                    <Text style={styles.micButtonText}>
-                      {"🎤 Tap to Speak"}
-                    </Text>
-                  )}
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={styles.switchButton}
-                  onPress={() => setMode("text")}
-                >
-                  <Text style={styles.switchButtonText}>
-                    I can't speak right now
-                  </Text>
-                </TouchableOpacity>
-              </View>
-            ) : (
-              <View style={styles.textContainer}>
-                <TextInput
-                  style={styles.textInput}
-                  value={textInput}
-                  onChangeText={setTextInput}
-                  placeholder="Type the phrase here..."
-                  placeholderTextColor="#666"
-                  autoFocus
-                  multiline
-                />
-
-                <TouchableOpacity
-                  style={styles.switchButton}
-                  onPress={() => setMode("speech")}
-                >
-                  <Text style={styles.switchButtonText}>Use voice instead</Text>
-                </TouchableOpacity>
-              </View>
-            )}
+            <ChallengeView
+              data={challengeData}
+              attempts={attempts}
+              isSubmitting={isSubmitting}
+              onSubmit={handleSubmit}
+            />
 
             <TouchableOpacity
-              style={[
-                styles.submitButton,
-                !textInput.trim() &&
-                  !transcription.trim() &&
-                  styles.submitButtonDisabled,
-              ]}
-              onPress={handleSubmit}
-              // disabled={!textInput.trim() && !transcription.trim()}
+              style={styles.snoozeButton}
+              onPress={handleSnooze}
+              disabled={isSnoozing || isSubmitting}
             >
-              <Text style={styles.submitButtonText}>Submit</Text>
+              <Text style={styles.snoozeButtonText}>
+                {isSnoozing ? "Snoozing..." : "Snooze (costs more each time)"}
+              </Text>
             </TouchableOpacity>
           </View>
         </ScrollView>
@@ -391,25 +302,15 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 12,
   },
-  subtitle: {
-    fontSize: 18,
-    color: "#999",
-    textAlign: "center",
-    marginBottom: 32,
-  },
-  phraseContainer: {
-    backgroundColor: "#1a1a1a",
-    padding: 24,
-    borderRadius: 16,
-    marginBottom: 24,
-    borderWidth: 2,
-    borderColor: "#007AFF",
+  snoozeButton: {
+    padding: 16,
+    alignItems: "center",
+    marginTop: 12,
   },
-  phrase: {
-    fontSize: 24,
+  snoozeButtonText: {
+    fontSize: 16,
+    color: "#FF9500",
     fontWeight: "600",
-    color: "#FFF",
-    textAlign: "center",
   },
   error: {
     fontSize: 16,
@@ -418,80 +319,4 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     paddingHorizontal: 16,
   },
-  speechContainer: {
-    alignItems: "center",
-  },
-  transcriptionBox: {
-    backgroundColor: "#1a1a1a",
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 24,
-    width: "100%",
-  },
-  transcriptionLabel: {
-    fontSize: 14,
-    color: "#999",
-    marginBottom: 8,
-  },
-  transcription: {
-    fontSize: 18,
-    color: "#FFF",
-  },
-  micButton: {
-    width: 120,
-    height: 120,
-    borderRadius: 60,
-    backgroundColor: "#007AFF",
-    justifyContent: "center",
-    alignItems: "center",
-    marginBottom: 24,
-  },
-  micButtonActive: {
-    backgroundColor: "#FF3B30",
-  },
-  micButtonText: {
-    fontSize: 18,
-    color: "#FFF",
-    textAlign: "center",
-  },
-  textContainer: {
-    width: "100%",
-  },
-  textInput: {
-    backgroundColor: "#1a1a1a",
-    borderRadius: 12,
-    padding: 16,
-    fontSize: 18,
-    color: "#FFF",
-    minHeight: 100,
-    marginBottom: 24,
-    borderWidth: 1,
-    borderColor: "#333",
-  },
-  switchButton: {
-    padding: 12,
-    alignItems: "center",
-    marginBottom: 24,
-  },
-  switchButtonText: {
-    fontSize: 16,
-    color: "#007AFF",
-    textDecorationLine: "underline",
-  },
-  submitButton: {
-    backgroundColor: "#34C759",
-    padding: 18,
-    borderRadius: 12,
-    alignItems: "center",
-    marginTop: "auto",
-  },
-  submitButtonDisabled: {
-    backgroundColor: "#333",
-    opacity: 0.5,
-  },
-  submitButtonText: {
-    fontSize: 18,
-    fontWeight: "600",
-    color: "#FFF",
-  },
 });
@@ -0,0 +1,95 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { getOccurrenceTime, getTimeToDismiss } from "@clockblocked/shared";
+import { formatDuration, formatShortDate, formatTime } from "@/utils";
+import { AlarmSentOut } from "@/services/alarmService";
+
+type ChallengeHistoryItemProps = {
+  sentOut: AlarmSentOut;
+};
+
+/**
+ * Label and color for a challenge's outcome
+ */
+const getOutcome = (sentOut: AlarmSentOut) => {
+  if (sentOut.challengeStatus === "success") {
+    return { label: "Woke up", color: "#34C759" };
+  }
+  if (sentOut.challengeStatus === "pending") {
+    return { label: "In progress", color: "#8E8E93" };
+  }
+  return sentOut.failureReason === "missed"
+    ? { label: "Missed", color: "#FF3B30" }
+    : { label: "Timed out", color: "#FF3B30" };
+};
+
+export const ChallengeHistoryItem = ({
+  sentOut,
+}: ChallengeHistoryItemProps) => {
+  const occurrence = getOccurrenceTime(sentOut);
+  const outcome = getOutcome(sentOut);
+  const timeToDismiss = getTimeToDismiss(sentOut);
+  const attempts = sentOut.attemptsMade ?? 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.when}>
+        <Text style={styles.time}>
+          {formatTime(occurrence.getHours(), occurrence.getMinutes())}
+        </Text>
+        <Text style={styles.date}>{formatShortDate(occurrence)}</Text>
+      </View>
+
+      <View style={styles.details}>
+        <Text style={[styles.outcome, { color: outcome.color }]}>
+          {outcome.label}
+        </Text>
+        <Text style={styles.detail}>
+          {timeToDismiss !== null
+            ? `Dismissed in ${formatDuration(timeToDismiss)}`
+            : null}
+          {timeToDismiss !== null && attempts > 0 ? " · " : null}
+          {attempts > 0
+            ? `${attempts} ${attempts === 1 ? "attempt" : "attempts"}`
+            : null}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#2A2A2A",
+  },
+  when: {
+    flex: 1,
+  },
+  time: {
+    fontSize: 20,
+    fontWeight: "300",
+    color: "#FFFFFF",
+  },
+  date: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+  details: {
+    alignItems: "flex-end",
+  },
+  outcome: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  detail: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 2,
+  },
+});
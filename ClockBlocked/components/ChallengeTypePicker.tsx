@@ -0,0 +1,65 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { CHALLENGE_PLUGINS, ChallengeType } from "@/challenges";
+
+type ChallengeTypePickerProps = {
+  value: ChallengeType;
+  onChange: (type: ChallengeType) => void;
+};
+
+export const ChallengeTypePicker = ({
+  value,
+  onChange,
+}: ChallengeTypePickerProps) => {
+  return (
+    <View style={styles.container}>
+      {CHALLENGE_PLUGINS.map((plugin) => (
+        <TouchableOpacity
+          key={plugin.type}
+          onPress={() => onChange(plugin.type)}
+          style={[
+            styles.option,
+            value === plugin.type && styles.optionSelected,
+          ]}
+        >
+          <Text
+            style={[
+              styles.optionText,
+              value === plugin.type && styles.optionTextSelected,
+            ]}
+          >
+            {plugin.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+});
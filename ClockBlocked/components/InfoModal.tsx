@@ -45,8 +45,8 @@ export const InfoModal: React.FC<InfoModalProps> = ({ visible, onClose }) => {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>💸</Text>
               <Text style={styles.infoText}>
-                Payment punishment mode will be available soon. For now, no
-                charges.
+                Alarms with a stake charge you that amount every time you fail
+                to check in.
               </Text>
             </View>
           </View>
@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+} from "react-native";
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { formatShortDate, fromDateKey, toDateKey } from "@/utils";
+
+type OneOffDatePickerProps = {
+  value: string | null; // "YYYY-MM-DD"
+  onChange: (date: string | null) => void;
+};
+
+/**
+ * Picks the calendar date of a one-off alarm (instead of weekly repeat days)
+ */
+export const OneOffDatePicker = ({
+  value,
+  onChange,
+}: OneOffDatePickerProps) => {
+  const [showPicker, setShowPicker] = useState(false);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const handleDatePicked = (event: DateTimePickerEvent, date?: Date) => {
+    setShowPicker(Platform.OS === "ios" && event.type !== "set");
+    if (event.type === "set" && date) {
+      onChange(toDateKey(date));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={() => setShowPicker(true)}
+          style={[styles.option, value && styles.optionSelected]}
+        >
+          <Text style={[styles.optionText, value && styles.optionTextSelected]}>
+            {value
+              ? `Once on ${formatShortDate(fromDateKey(value))}`
+              : "Once on a date..."}
+          </Text>
+        </TouchableOpacity>
+
+        {value ? (
+          <TouchableOpacity
+            onPress={() => onChange(null)}
+            style={styles.option}
+          >
+            <Text style={styles.optionText}>Clear</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {showPicker ? (
+        <DateTimePicker
+          value={value ? fromDateKey(value) : today}
+          mode="date"
+          minimumDate={today}
+          onChange={handleDatePicked}
+        />
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+});
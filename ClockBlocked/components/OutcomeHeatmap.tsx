@@ -0,0 +1,97 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { addDays, DailyOutcome, getWeekday } from "@clockblocked/shared";
+import { DAY_ABBREVIATIONS } from "@/constants";
+
+type OutcomeHeatmapProps = {
+  dailyOutcomes: Record<string, DailyOutcome>;
+  weeks: number;
+  today: string; // Local date key; the last column is its week
+};
+
+/**
+ * Color of a day: green when every challenge succeeded, red when every one
+ * failed, orange when mixed
+ */
+const getCellColor = (outcome: DailyOutcome | undefined): string => {
+  if (!outcome) return "#1C1C1E";
+  if (outcome.failures === 0) return "#34C759";
+  if (outcome.successes === 0) return "#FF3B30";
+  return "#FF9500";
+};
+
+/**
+ * First day shown: the Sunday `weeks - 1` weeks before today's week
+ */
+export const getHeatmapFirstDay = (today: string, weeks: number): string =>
+  addDays(today, -getWeekday(today) - 7 * (weeks - 1));
+
+/**
+ * Calendar heatmap of challenge outcomes: one column per week (Sunday at the
+ * top), oldest week first
+ */
+export const OutcomeHeatmap = ({
+  dailyOutcomes,
+  weeks,
+  today,
+}: OutcomeHeatmapProps) => {
+  const firstDay = getHeatmapFirstDay(today, weeks);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labels}>
+        {DAY_ABBREVIATIONS.map((day, index) => (
+          <Text key={index} style={styles.label}>
+            {day}
+          </Text>
+        ))}
+      </View>
+      {Array.from({ length: weeks }, (_, week) => (
+        <View key={week} style={styles.week}>
+          {Array.from({ length: 7 }, (_, weekday) => {
+            const day = addDays(firstDay, week * 7 + weekday);
+            return (
+              <View
+                key={day}
+                style={[
+                  styles.cell,
+                  day > today
+                    ? styles.futureCell
+                    : { backgroundColor: getCellColor(dailyOutcomes[day]) },
+                ]}
+              />
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  labels: {
+    gap: 4,
+    marginRight: 4,
+  },
+  label: {
+    height: 16,
+    fontSize: 10,
+    lineHeight: 16,
+    color: "#8E8E93",
+  },
+  week: {
+    gap: 4,
+  },
+  cell: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+  },
+  futureCell: {
+    backgroundColor: "transparent",
+  },
+});
@@ -0,0 +1,120 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import {
+  AlarmRecurrence,
+  createWeeklyRecurrence,
+  describeRecurrence,
+  getWeeklyInterval,
+} from "@clockblocked/shared";
+import { WEEK_INTERVAL_OPTIONS } from "@/constants";
+import { formatShortDate, fromDateKey, toDateKey } from "@/utils";
+
+type RecurrencePickerProps = {
+  selectedDays: number[];
+  value: AlarmRecurrence | null; // null = every week
+  onChange: (recurrence: AlarmRecurrence | null) => void;
+};
+
+/**
+ * Picks how many weeks apart the selected repeat days ring
+ * Rules it can't edit (e.g. monthly ones) are shown as-is until replaced
+ */
+export const RecurrencePicker = ({
+  selectedDays,
+  value,
+  onChange,
+}: RecurrencePickerProps) => {
+  const interval = value ? getWeeklyInterval(value) : 1;
+
+  const handleSelect = (weeks: number) => {
+    if (weeks === 1) {
+      onChange(null);
+      return;
+    }
+    // Keep counting from the same week so existing dates don't shift
+    const startDate =
+      value && interval ? value.startDate : toDateKey(new Date());
+    onChange(
+      createWeeklyRecurrence(
+        selectedDays,
+        weeks,
+        startDate,
+        value?.exceptionDates
+      )
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {WEEK_INTERVAL_OPTIONS.map((weeks) => {
+          const isSelected = weeks === interval;
+          return (
+            <TouchableOpacity
+              key={weeks}
+              onPress={() => handleSelect(weeks)}
+              style={[styles.option, isSelected && styles.optionSelected]}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  isSelected && styles.optionTextSelected,
+                ]}
+              >
+                {weeks === 1 ? "Every week" : `Every ${weeks} weeks`}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value && interval && interval > 1 ? (
+        <Text style={styles.hint}>
+          Counting from the week of{" "}
+          {formatShortDate(fromDateKey(value.startDate))}
+        </Text>
+      ) : null}
+      {value && !interval ? (
+        <Text style={styles.hint}>{describeRecurrence(value)}</Text>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#8E8E93",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,113 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { SNOOZE_DELAY_OPTIONS } from "@/constants";
+import { AlarmSnoozeSettings, SnoozeCost } from "@/services/alarmService";
+
+type SnoozeSettingsPickerProps = {
+  value: AlarmSnoozeSettings;
+  onChange: (settings: AlarmSnoozeSettings) => void;
+  hasStake: boolean;
+};
+
+const SNOOZE_COSTS: { cost: SnoozeCost; label: string }[] = [
+  { cost: "shorten_window", label: "Less time" },
+  { cost: "add_stake", label: "Higher stake" },
+];
+
+/**
+ * Snooze delay + escalating cost picker for an alarm
+ * "Higher stake" needs a stake; without one it is unavailable.
+ */
+export const SnoozeSettingsPicker = ({
+  value,
+  onChange,
+  hasStake,
+}: SnoozeSettingsPickerProps) => {
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {SNOOZE_DELAY_OPTIONS.map((minutes) => (
+          <TouchableOpacity
+            key={minutes}
+            onPress={() => onChange({ ...value, delayMinutes: minutes })}
+            style={[
+              styles.option,
+              value.delayMinutes === minutes && styles.optionSelected,
+            ]}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                value.delayMinutes === minutes && styles.optionTextSelected,
+              ]}
+            >
+              {minutes} min
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        {SNOOZE_COSTS.map(({ cost, label }) => {
+          const disabled = cost === "add_stake" && !hasStake;
+          const selected = value.cost === cost && !disabled;
+          return (
+            <TouchableOpacity
+              key={cost}
+              onPress={() => onChange({ ...value, cost })}
+              disabled={disabled}
+              style={[
+                styles.option,
+                selected && styles.optionSelected,
+                disabled && styles.optionDisabled,
+              ]}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  selected && styles.optionTextSelected,
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionDisabled: {
+    opacity: 0.4,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+});
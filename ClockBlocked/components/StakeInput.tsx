@@ -0,0 +1,119 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { STAKE_CURRENCIES } from "@/constants";
+import { AlarmStake } from "@/services/alarmService";
+
+type StakeInputProps = {
+  value: AlarmStake | null;
+  onChange: (stake: AlarmStake | null) => void;
+};
+
+/**
+ * Amount + currency input for an alarm's stake
+ * Amounts are entered in major units ("5.00") and reported in minor units (500).
+ * An empty or zero amount means no stake.
+ */
+export const StakeInput = ({ value, onChange }: StakeInputProps) => {
+  const [currency, setCurrency] = useState(
+    value?.currency || STAKE_CURRENCIES[0]
+  );
+  const [amountText, setAmountText] = useState(
+    value ? (value.amount / 100).toFixed(2) : ""
+  );
+
+  const emitChange = (text: string, nextCurrency: string) => {
+    const amount = Math.round(parseFloat(text) * 100);
+    onChange(amount > 0 ? { amount, currency: nextCurrency } : null);
+  };
+
+  const handleAmountChange = (text: string) => {
+    const sanitized = text.replace(/[^0-9.]/g, "");
+    setAmountText(sanitized);
+    emitChange(sanitized, currency);
+  };
+
+  const handleCurrencyChange = (nextCurrency: string) => {
+    setCurrency(nextCurrency);
+    emitChange(amountText, nextCurrency);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.amountInput}
+        value={amountText}
+        onChangeText={handleAmountChange}
+        placeholder="0.00"
+        placeholderTextColor="#666"
+        keyboardType="decimal-pad"
+      />
+      <View style={styles.currencies}>
+        {STAKE_CURRENCIES.map((code) => (
+          <TouchableOpacity
+            key={code}
+            onPress={() => handleCurrencyChange(code)}
+            style={[styles.option, currency === code && styles.optionSelected]}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                currency === code && styles.optionTextSelected,
+              ]}
+            >
+              {code}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  amountInput: {
+    flex: 1,
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    fontSize: 18,
+    color: "#FFF",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  currencies: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: "#1C1C1E",
+    borderWidth: 1,
+    borderColor: "#3A3A3C",
+  },
+  optionSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#8E8E93",
+  },
+  optionTextSelected: {
+    color: "#FFF",
+  },
+});
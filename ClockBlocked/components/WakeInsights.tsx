@@ -0,0 +1,173 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import {
+  OutcomeCounts,
+  PeriodStats,
+  getFailureRate,
+} from "@clockblocked/shared";
+import { DAYS } from "@/constants";
+import { formatDuration, formatTime } from "@/utils";
+import { UserStats } from "@/services/alarmService";
+
+type WakeInsightsProps = {
+  stats: UserStats;
+};
+
+type Insight = {
+  label: string;
+  value: string;
+  detail?: string;
+};
+
+/**
+ * Key of the bucket with the highest failure rate, or null if nothing failed
+ */
+const getWorstBucket = (
+  buckets: [string, OutcomeCounts][]
+): [string, number] | null => {
+  let worst: [string, number] | null = null;
+  for (const [key, counts] of buckets) {
+    const rate = getFailureRate(counts);
+    if (counts.failures > 0 && rate !== null && (!worst || rate > worst[1])) {
+      worst = [key, rate];
+    }
+  }
+  return worst;
+};
+
+const formatPercent = (rate: number): string => `${Math.round(rate * 100)}%`;
+
+const getSuccessRate = (period: PeriodStats): number | null =>
+  period.total > 0 ? period.successes / period.total : null;
+
+/**
+ * Compare this week's success rate and wake-up time with last week's
+ */
+const getTrend = ({ current, previous }: UserStats["weekOverWeek"]): string => {
+  const currentRate = getSuccessRate(current);
+  const previousRate = getSuccessRate(previous);
+  if (currentRate === null) return "No challenges this week yet";
+  if (previousRate === null) return "No challenges last week";
+
+  const parts = [];
+  const rateChange = Math.round((currentRate - previousRate) * 100);
+  parts.push(
+    rateChange === 0
+      ? "Same success rate"
+      : `${rateChange > 0 ? "+" : ""}${rateChange} pts success`
+  );
+
+  if (
+    current.medianTimeToDismissMs !== null &&
+    previous.medianTimeToDismissMs !== null
+  ) {
+    const change =
+      current.medianTimeToDismissMs - previous.medianTimeToDismissMs;
+    if (Math.abs(change) >= 1000) {
+      parts.push(
+        `${formatDuration(Math.abs(change))} ${change < 0 ? "faster" : "slower"}`
+      );
+    }
+  }
+  return parts.join(" · ");
+};
+
+const getInsights = (stats: UserStats): Insight[] => {
+  const insights: Insight[] = [
+    {
+      label: "Median wake-up",
+      value:
+        stats.medianTimeToDismissMs !== null
+          ? formatDuration(stats.medianTimeToDismissMs)
+          : "—",
+    },
+    {
+      label: "Attempts per wake-up",
+      value:
+        stats.attemptsPerSuccess !== null
+          ? stats.attemptsPerSuccess.toFixed(1)
+          : "—",
+    },
+  ];
+
+  const worstDay = getWorstBucket(
+    stats.byWeekday.map((counts, weekday) => [String(weekday), counts])
+  );
+  if (worstDay) {
+    insights.push({
+      label: "Toughest day",
+      value: DAYS[Number(worstDay[0])],
+      detail: `${formatPercent(worstDay[1])} failed`,
+    });
+  }
+
+  const worstTime = getWorstBucket(Object.entries(stats.byAlarmTime));
+  if (worstTime) {
+    const [hours, minutes] = worstTime[0].split(":").map(Number);
+    insights.push({
+      label: "Toughest alarm",
+      value: formatTime(hours, minutes),
+      detail: `${formatPercent(worstTime[1])} failed`,
+    });
+  }
+
+  return insights;
+};
+
+/**
+ * Wake-up stats for the History tab: how fast the user wakes up, where they
+ * struggle and how this week compares to last
+ */
+export const WakeInsights = ({ stats }: WakeInsightsProps) => (
+  <View style={styles.container}>
+    <View style={styles.grid}>
+      {getInsights(stats).map((insight) => (
+        <View key={insight.label} style={styles.card}>
+          <Text style={styles.value}>{insight.value}</Text>
+          <Text style={styles.label}>{insight.label}</Text>
+          {insight.detail ? (
+            <Text style={styles.detail}>{insight.detail}</Text>
+          ) : null}
+        </View>
+      ))}
+    </View>
+    <Text style={styles.trend}>This week: {getTrend(stats.weekOverWeek)}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  card: {
+    flexGrow: 1,
+    flexBasis: "45%",
+    backgroundColor: "#1C1C1E",
+    borderRadius: 12,
+    padding: 16,
+  },
+  value: {
+    fontSize: 24,
+    fontWeight: "300",
+    color: "#FFF",
+  },
+  label: {
+    fontSize: 13,
+    color: "#8E8E93",
+    marginTop: 4,
+  },
+  detail: {
+    fontSize: 13,
+    color: "#FF3B30",
+    marginTop: 2,
+  },
+  trend: {
+    fontSize: 13,
+    color: "#8E8E93",
+  },
+});
@@ -23,6 +23,9 @@ const MAPPING = {
   "chevron.right": "chevron-right",
   "calendar": "calendar-today",
   "trash.fill": "delete",
+  "clock.arrow.circlepath": "history",
+  "person.2": "people",
+  "person.3": "groups",
 } as IconMapping;
 
 /**
@@ -9,6 +9,8 @@ export const STORY_TEXTS = [
   "Set your wake-up time. You have 15 minutes to prove you're up. Fail to check in, and you pay the price—literally. Your money goes straight to a cause you despise.",
 ];
 
+// Option labels are stored verbatim as users.answers and mapped to
+// beneficiaries in server/functions/src/beneficiaries.ts; keep them in sync
 export const QUESTIONS = [
   {
     text: "What is your stance on abortion?",
@@ -27,43 +29,22 @@ export const QUESTIONS = [
   },
 ];
 
-export const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Currencies a stake can be set in (all use 2 minor-unit digits)
+export const STAKE_CURRENCIES = ["USD", "EUR", "GBP"];
 
-export const DAY_ABBREVIATIONS = ["S", "M", "T", "W", "T", "F", "S"];
+// "Every N weeks" choices offered for repeating alarms
+export const WEEK_INTERVAL_OPTIONS = [1, 2, 3, 4];
 
-export const MOTIVATIONAL_PHRASES = [
-  "I am unstoppable",
-  "I am capable of achieving anything",
-  "I am focused and determined",
-  "I am ready to conquer today",
-  "I am strong and resilient",
-  "I am in control of my destiny",
-  "I am worthy of success",
-  "I am grateful for this new day",
-  "I am energized and motivated",
-  "I am confident in my abilities",
-  "I am committed to my goals",
-  "I am making progress every day",
-  "I am choosing positivity today",
-  "I am powerful beyond measure",
-  "I am creating my own opportunities",
-  "I am disciplined and focused",
-  "I am rising above challenges",
-  "I am becoming my best self",
-  "I am taking charge of my life",
-  "I am worthy of greatness",
-  "I am embracing this moment",
-  "I am building my future now",
-  "I am stronger than my excuses",
-  "I am committed to excellence",
-  "I am ready to make it happen",
-];
+// Snooze delays offered per alarm (minutes); the first is the default
+// (DEFAULT_SNOOZE_DELAY_MINUTES in the shared package)
+export const SNOOZE_DELAY_OPTIONS = [5, 9, 15];
+
+// Weeks of challenges shown in the History tab (heatmap columns)
+export const HISTORY_WEEKS = 12;
 
-/**
- * Get a random motivational phrase for alarm verification
- */
-export const getRandomMotivationalPhrase = (): string => {
-  return MOTIVATIONAL_PHRASES[
-    Math.floor(Math.random() * MOTIVATIONAL_PHRASES.length)
-  ];
-};
+// How long the user has to complete a challenge before it fails
+export const CHALLENGE_TIMEOUT_MINUTES = 15;
+
+export const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const DAY_ABBREVIATIONS = ["S", "M", "T", "W", "T", "F", "S"];
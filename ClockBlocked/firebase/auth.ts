@@ -11,8 +11,10 @@ import {
   doc,
   setDoc,
   getDoc,
+  updateDoc,
   serverTimestamp,
 } from "@react-native-firebase/firestore";
+import { getDeviceTimeZone } from "../utils";
 
 export type User = {
   uid: string;
@@ -70,6 +72,7 @@ export const signInWithGoogle = async (
         email: user.email,
         createdAt: serverTimestamp(),
         answers: answers || {},
+        timeZone: getDeviceTimeZone(),
       });
     }
 
@@ -102,6 +105,7 @@ export const signInAnonymouslyUser = async (
         isAnonymous: true,
         createdAt: serverTimestamp(),
         answers: answers || {},
+        timeZone: getDeviceTimeZone(),
       });
     }
 
@@ -111,3 +115,15 @@ export const signInAnonymouslyUser = async (
     throw new Error(error.message || "Failed to sign in anonymously");
   }
 };
+
+/**
+ * Keep the user's time zone in sync with the device (e.g. after travelling)
+ */
+export const syncUserTimeZone = async (uid: string): Promise<void> => {
+  try {
+    const db = getFirestore();
+    await updateDoc(doc(db, "users", uid), { timeZone: getDeviceTimeZone() });
+  } catch (error) {
+    console.error("Error syncing user time zone:", error);
+  }
+};
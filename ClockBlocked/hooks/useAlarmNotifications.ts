@@ -4,43 +4,70 @@
  * Manages notification lifecycle and alarm verification modal triggering.
  *
  * NOTIFICATION HANDLING:
- * - First notification → Creates pending challenge in DB, opens modal with random phrase
+ * - First notification → Creates pending challenge in DB, opens modal with a server-issued challenge
  * - Subsequent notifications → Reuses existing pending challenge, modal stays open (no reopen)
  * - Notification tap → Same behavior as above
+ * - Snooze action → Snoozes the pending challenge without opening the modal
+ * - Weekly report tap → Opens the report (report pushes never ring)
+ * - Partner failure tap → Opens that partner's streak
+ *
+ * SCHEDULING:
+ * - Tops up the rolling notification queue on launch and every time the app returns to the foreground
  *
  * MODAL STATE PROTECTION:
- * - Checks if modal already active before opening (prevents phrase changes mid-challenge)
- * - Phrase generated locally on first trigger only=
+ * - Checks if modal already active before opening (prevents challenge changes mid-challenge)
+ * - Challenge issued by the server on first trigger only
  * - All repeat notifications reference same pending challenge ID
  */
 
 import { useEffect, useRef, useCallback } from "react";
+import { AppState } from "react-native";
+import { useRouter } from "expo-router";
 import * as Notifications from "expo-notifications";
 import { Audio } from "expo-av";
 import { useStore } from "../store/useStore";
 import {
   Alarm,
-  getUserAlarms,
+  issueChallenge,
   logAlarmSentOut,
+  refreshAlarmSchedule,
+  snoozeAlarmChallenge,
 } from "../services/alarmService";
 import {
-  rescheduleAllAlarms,
-  scheduleAlarmNotifications,
+  syncAlarmSchedule,
   cancelAlarmNotifications,
   requestNotificationPermissions,
+  registerAlarmNotificationCategory,
+  SNOOZE_ACTION_ID,
 } from "../services/notificationService";
-import { getRandomMotivationalPhrase } from "../constants";
 
 /**
  * Type definition for the alarm notification hook return value
  */
 export type AlarmNotificationState = {
   stopAlarmSound: () => Promise<void>;
-  scheduleAlarm: (alarm: Alarm) => Promise<string[]>;
   cancelAlarm: (alarmId: string) => Promise<void>;
-  rescheduleAll: (alarms: Alarm[]) => Promise<void>;
+  syncSchedule: (alarms: Alarm[]) => Promise<string[]>;
+};
+
+/**
+ * Which occurrence a notification (local or server push) rings for
+ */
+type NotificationOccurrence = {
+  occurrenceKey?: string;
+  scheduledFor?: Date;
 };
 
+const getNotificationOccurrence = (
+  data: Record<string, unknown> | undefined
+): NotificationOccurrence => ({
+  occurrenceKey: data?.occurrenceKey as string | undefined,
+  scheduledFor:
+    typeof data?.scheduledFor === "string"
+      ? new Date(data.scheduledFor)
+      : undefined,
+});
+
 /**
  * Configure how notifications are handled when received
  * Sets the behavior for incoming notifications including sound, alerts, and display
@@ -60,6 +87,7 @@ Notifications.setNotificationHandler({
  * @returns {AlarmNotificationState} Object containing alarm notification functions
  */
 export const useAlarmNotifications = (): AlarmNotificationState => {
+  const router = useRouter();
   const { user, setActiveAlarm, activeAlarmId } = useStore();
 
   // Refs for managing notification listeners and sound object
@@ -124,13 +152,6 @@ export const useAlarmNotifications = (): AlarmNotificationState => {
     }
   }, [activeAlarmId, stopAlarmSound]);
 
-  /**
-   * Schedule notifications for a single alarm
-   */
-  const scheduleAlarm = useCallback(async (alarm: Alarm): Promise<string[]> => {
-    return await scheduleAlarmNotifications(alarm);
-  }, []);
-
   /**
    * Cancel notifications for a single alarm
    */
@@ -139,11 +160,14 @@ export const useAlarmNotifications = (): AlarmNotificationState => {
   }, []);
 
   /**
-   * Reschedule all alarms
+   * Top up the notification queue for all alarms
    */
-  const rescheduleAll = useCallback(async (alarms: Alarm[]): Promise<void> => {
-    await rescheduleAllAlarms(alarms);
-  }, []);
+  const syncSchedule = useCallback(
+    async (alarms: Alarm[]): Promise<string[]> => {
+      return await syncAlarmSchedule(alarms);
+    },
+    []
+  );
 
   /**
    * Initialize the notification system and set up event listeners
@@ -165,32 +189,53 @@ export const useAlarmNotifications = (): AlarmNotificationState => {
 
     // Request notification permissions
     requestNotificationPermissions();
+    registerAlarmNotificationCategory();
 
-    // When user is logged in, fetch and schedule all their alarms
-    const initializeAlarms = async () => {
-      if (user?.uid) {
-        try {
-          const alarms = await getUserAlarms(user.uid);
-          await rescheduleAllAlarms(alarms);
-        } catch (error) {
-          console.error("Error initializing alarms:", error);
+    // When user is logged in, top up the notification queue for all their alarms
+    if (user?.uid) {
+      refreshAlarmSchedule(user.uid);
+    }
+
+    // Top up again whenever the app comes back to the foreground
+    const appStateSubscription = AppState.addEventListener(
+      "change",
+      (state) => {
+        if (state === "active" && user?.uid) {
+          refreshAlarmSchedule(user.uid);
         }
       }
-    };
-
-    initializeAlarms();
+    );
 
     // Helper function to handle notification logic
-    const handleNotificationAction = async (alarmId: string) => {
+    const handleNotificationAction = async (
+      alarmId: string,
+      occurrence: NotificationOccurrence
+    ) => {
       if (alarmId && user?.uid) {
         try {
-          // Log alarm as pending (or get existing pending challenge ID)
-          const sentOutId = await logAlarmSentOut(user.uid, alarmId);
+          // Log alarm as pending (or get the occurrence's existing challenge ID)
+          const sentOutId = await logAlarmSentOut(
+            user.uid,
+            alarmId,
+            occurrence.occurrenceKey,
+            occurrence.scheduledFor
+          );
 
-          // Only set modal if not already active (prevents reopening with new phrase)
+          // Only set modal if not already active (prevents reopening with new challenge)
           if (!useStore.getState().activeAlarmId) {
-            const phrase = getRandomMotivationalPhrase();
-            setActiveAlarm(alarmId, phrase, sentOutId);
+            const issued = await issueChallenge(sentOutId);
+
+            // Leftover notification from before a snooze; wait for the snoozed burst
+            if (issued.snoozedUntil && issued.snoozedUntil > new Date()) {
+              return;
+            }
+
+            setActiveAlarm(
+              alarmId,
+              issued.challenge,
+              sentOutId,
+              issued.expiresAt
+            );
 
             // ALWAYS start playing alarm sound when modal opens
             // This ensures looping audio whether from foreground or background tap
@@ -202,36 +247,91 @@ export const useAlarmNotifications = (): AlarmNotificationState => {
       }
     };
 
+    // Snooze straight from the notification's action button
+    const handleSnoozeAction = async (
+      alarmId: string,
+      occurrence: NotificationOccurrence
+    ) => {
+      if (alarmId && user?.uid) {
+        try {
+          const sentOutId = await logAlarmSentOut(
+            user.uid,
+            alarmId,
+            occurrence.occurrenceKey,
+            occurrence.scheduledFor
+          );
+          await snoozeAlarmChallenge(sentOutId, alarmId);
+
+          if (useStore.getState().activeAlarmId === alarmId) {
+            useStore.getState().clearActiveAlarm();
+          }
+          await stopAlarmSound();
+        } catch (error) {
+          console.error("Error handling snooze action:", error);
+          // Snooze refused (e.g. limit reached): fall back to the challenge
+          handleNotificationAction(alarmId, occurrence);
+        }
+      }
+    };
+
+    const handleNotificationResponse = (
+      response: Notifications.NotificationResponse
+    ) => {
+      const data = response.notification.request.content.data;
+      // Test pushes from testNotification aren't occurrences; tapping one
+      // just opens the app
+      if (data?.type === "test") {
+        return;
+      }
+      if (data?.type === "report") {
+        router.push(`/reports/${data.reportId}`);
+        return;
+      }
+      if (data?.type === "partner_failure") {
+        router.push(`/partners/${data.partnershipId}`);
+        return;
+      }
+
+      const alarmId = data?.alarmId as string;
+      const occurrence = getNotificationOccurrence(data);
+      if (response.actionIdentifier === SNOOZE_ACTION_ID) {
+        handleSnoozeAction(alarmId, occurrence);
+      } else {
+        handleNotificationAction(alarmId, occurrence);
+      }
+    };
+
     // Check if app was launched by a notification
     Notifications.getLastNotificationResponseAsync().then((response) => {
       if (response) {
-        const alarmId = response.notification.request.content.data
-          ?.alarmId as string;
-        handleNotificationAction(alarmId);
+        handleNotificationResponse(response);
       }
     });
 
     // Listen for incoming notifications and trigger modal
     notificationListener.current =
       Notifications.addNotificationReceivedListener(async (notification) => {
-        const alarmId = notification.request.content.data?.alarmId as string;
-        handleNotificationAction(alarmId);
+        const data = notification.request.content.data;
+        if (data?.type === "test") {
+          return;
+        }
+        handleNotificationAction(
+          data?.alarmId as string,
+          getNotificationOccurrence(data)
+        );
       });
 
     // Listen for notification interactions (taps)
     responseListener.current =
       Notifications.addNotificationResponseReceivedListener(
-        async (response) => {
-          const alarmId = response.notification.request.content.data
-            ?.alarmId as string;
-          handleNotificationAction(alarmId);
-        }
+        handleNotificationResponse
       );
 
     // Cleanup: remove listeners and unload sound on component unmount
     return () => {
       notificationListener.current?.remove();
       responseListener.current?.remove();
+      appStateSubscription.remove();
 
       if (soundObject.current) {
         soundObject.current.unloadAsync();
@@ -241,8 +341,7 @@ export const useAlarmNotifications = (): AlarmNotificationState => {
 
   return {
     stopAlarmSound,
-    scheduleAlarm,
     cancelAlarm,
-    rescheduleAll,
+    syncSchedule,
   };
 };
@@ -0,0 +1,10 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const path = require("path");
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// @clockblocked/shared is linked from ../shared; Metro only bundles files it watches
+config.watchFolders = [path.resolve(__dirname, "../shared")];
+
+module.exports = config;
@@ -4,17 +4,27 @@
  * Manages alarm CRUD operations and alarm verification challenge tracking.
  *
  * ALARM CHALLENGE FLOW:
- * 1. When first notification fires → Log to alarms_sent_out with status "pending"
- * 2. Subsequent notifications for same alarm → Reuse existing pending entry (no new DB writes)
- * 3. User completes challenge → Update status to "success" + cancel remaining notifications
- * 4. 15-minute timer expires → Update status to "failed"
- * 5. App restart → Check for pending challenges and restore modal if found
+ * 1. When first notification fires → Log to alarms_sent_out with status "pending",
+ *    under the occurrence's deterministic id (the server push may have created it already)
+ * 2. Subsequent notifications for same occurrence → Reuse existing entry (no new DB writes)
+ * 3. Modal opens → issueChallenge Cloud Function generates the challenge
+ * 4. User submits an answer → submitChallenge Cloud Function validates it and,
+ *    if correct, sets status to "success" + app cancels remaining notifications
+ * 5. 15-minute timer expires → Update status to "failed" (on the device, or by the
+ *    sweepPendingChallenges Cloud Function if the app is gone; whichever runs first wins)
+ * 5b. User snoozes → snoozeChallenge Cloud Function records the snooze and moves
+ *     the deadline; the app re-rings the alarm after the alarm's snooze delay
+ * 6. App restart → Check for pending challenges and restore modal if found
+ * 7. Background healing task → Log occurrences that never rang as "failed" (reason "missed")
  *
  * KEY BEHAVIORS:
- * - Phrase is generated locally (not stored in DB)
- * - Only ONE pending entry per alarm (prevents duplicate logging)
- * - Modal stays open across multiple notifications (doesn't reopen with new phrase)
+ * - Expected answer is stored server-side only (challenge_answers collection)
+ * - Only the Cloud Function can set "success" (enforced by firestore.rules)
+ * - Only ONE entry per alarm occurrence, `<alarmId>_<YYYY-MM-DD>` (prevents duplicate logging)
+ * - Modal stays open across multiple notifications (doesn't reopen with new challenge)
  * - Failed status only set on timeout, not on incorrect attempts
+ * - One-off (dated) alarms are disabled by the server once their challenge resolves
+ * - Every "failed" entry on an alarm with a stake is charged server-side (penalties ledger)
  */
 
 import {
@@ -29,44 +39,136 @@ import {
   updateDoc,
   getDoc,
   onSnapshot,
+  Timestamp,
   serverTimestamp,
+  runTransaction,
 } from "@react-native-firebase/firestore";
+import { getFunctions, httpsCallable } from "@react-native-firebase/functions";
 import {
-  scheduleAlarmNotifications,
+  Alarm,
+  AlarmRecurrence,
+  AlarmSentOut,
+  DailyOutcome,
+  SnoozeCost,
+  Streaks,
+  WakeStats,
+  DEFAULT_SNOOZE_COST,
+  DEFAULT_SNOOZE_DELAY_MINUTES,
+  alarmFromFirestore,
+  alarmSentOutFromFirestore,
+  getAlarmTimeZone,
+  getDailyOutcomes,
+  getNextAlarmDate,
+  getOccurrenceKey,
+  getOccurrenceTime,
+  getStreaks,
+  validateAlarm,
+  zonedTimeToUtc,
+} from "@clockblocked/shared";
+import {
+  syncAlarmSchedule,
   cancelAlarmNotifications,
+  scheduleSnoozeNotifications,
 } from "./notificationService";
+import {
+  ChallengeType,
+  DEFAULT_CHALLENGE_TYPE,
+  SerializedChallenge,
+} from "../challenges/types";
+import { getDeviceTimeZone } from "../utils";
+
+// Alarm schemas live in the shared package (also used by Cloud Functions)
+export type { Alarm, AlarmSentOut, SnoozeCost };
+
+/**
+ * Money charged when an alarm's challenge fails
+ * `amount` is in minor units (e.g. cents), `currency` an ISO 4217 code
+ */
+export type AlarmStake = {
+  amount: number;
+  currency: string;
+};
+
+export type AlarmSnoozeSettings = {
+  delayMinutes: number;
+  cost: SnoozeCost;
+};
+
+export const DEFAULT_SNOOZE_SETTINGS: AlarmSnoozeSettings = {
+  delayMinutes: DEFAULT_SNOOZE_DELAY_MINUTES,
+  cost: DEFAULT_SNOOZE_COST,
+};
+
+/**
+ * A challenge issued for a pending alarms_sent_out entry, with its deadline
+ */
+export type IssuedChallenge = {
+  challenge: SerializedChallenge;
+  expiresAt: Date;
+  snoozedUntil: Date | null;
+};
+
+/**
+ * Outcome of a snooze, as returned by the snoozeChallenge Cloud Function
+ */
+export type SnoozeResult = {
+  snoozeCount: number;
+  snoozedUntil: Date;
+  expiresAt: Date;
+  cost: SnoozeCost;
+  windowCutMinutes: number;
+  stakeSurcharge: number;
+  stakeCurrency: string | null;
+};
 
-export type Alarm = {
-  id: string;
-  userId: string;
-  hours: number;
-  minutes: number;
-  selectedDays: number[];
-  isEnabled: boolean;
-  createdAt: Date;
+/**
+ * A user's recent challenges with their streaks and per-day outcomes
+ */
+export type ChallengeHistory = {
+  entries: AlarmSentOut[]; // Most recent occurrence first
+  streaks: Streaks; // Within the fetched period
+  dailyOutcomes: Record<string, DailyOutcome>; // Keyed by local date key
 };
 
-export type AlarmSentOut = {
-  id?: string;
-  userId: string;
-  alarmId: string;
-  sentAt: Date;
-  challengeStatus: "pending" | "success" | "failed";
-  completedAt?: Date;
-  attemptsMade?: number;
+/**
+ * A user's wake-up stats as cached by the server
+ */
+export type UserStats = WakeStats & {
+  windowDays: number; // How many days of challenges they cover
+  computedAt: Date | null;
 };
 
 const ALARMS_COLLECTION = "alarms";
 const ALARMS_SENT_OUT_COLLECTION = "alarms_sent_out";
+const STATS_COLLECTION = "stats";
+
+/**
+ * Throw if alarm data doesn't match the shared schema
+ */
+const assertValidAlarm = (data: object, partial = false): void => {
+  const problems = validateAlarm(data, { partial });
+  if (problems.length > 0) {
+    throw new Error(`Invalid alarm: ${problems.join("; ")}`);
+  }
+};
 
 /**
  * Create a new alarm in Firestore
+ * Captures the device's time zone so the server fires it at local time
+ * A stake, if given, is charged each time the alarm's challenge fails
+ * Pass a `date` (and no selectedDays) for a one-off alarm, or a `recurrence`
+ * for anything selectedDays can't express (e.g. every other week)
  */
 export const createAlarm = async (
   userId: string,
   hours: number,
   minutes: number,
-  selectedDays: number[]
+  selectedDays: number[],
+  challengeType: ChallengeType = DEFAULT_CHALLENGE_TYPE,
+  stake: AlarmStake | null = null,
+  snooze: AlarmSnoozeSettings = DEFAULT_SNOOZE_SETTINGS,
+  date: string | null = null,
+  recurrence: AlarmRecurrence | null = null
 ): Promise<string> => {
   try {
     const db = getFirestore();
@@ -74,24 +176,26 @@ export const createAlarm = async (
       userId,
       hours,
       minutes,
-      selectedDays,
+      selectedDays: date ? [] : selectedDays,
+      date,
+      recurrence: date ? null : recurrence,
       isEnabled: true,
+      challengeType,
+      timeZone: getDeviceTimeZone(),
+      stakeAmount: stake?.amount ?? null,
+      stakeCurrency: stake?.currency ?? null,
+      snoozeDelayMinutes: snooze.delayMinutes,
+      snoozeCost: snooze.cost,
+      skipNextAt: null,
+      pausedUntil: null,
       createdAt: serverTimestamp(),
     };
+    assertValidAlarm(alarmData);
 
     const docRef = await addDoc(collection(db, ALARMS_COLLECTION), alarmData);
 
-    // Schedule notifications for the new alarm
-    const newAlarm: Alarm = {
-      id: docRef.id,
-      userId,
-      hours,
-      minutes,
-      selectedDays,
-      isEnabled: true,
-      createdAt: new Date(),
-    };
-    await scheduleAlarmNotifications(newAlarm);
+    // Queue notifications for the new alarm
+    await refreshAlarmSchedule(userId);
 
     return docRef.id;
   } catch (error) {
@@ -113,18 +217,7 @@ export const getUserAlarms = async (userId: string): Promise<Alarm[]> => {
     const snapshot = await getDocs(q);
 
     const alarms: Alarm[] = snapshot.docs
-      .map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId,
-          hours: data.hours,
-          minutes: data.minutes,
-          selectedDays: data.selectedDays || [],
-          isEnabled: data.isEnabled ?? true,
-          createdAt: data.createdAt?.toDate() || new Date(),
-        };
-      })
+      .map((doc) => alarmFromFirestore(doc.id, doc.data()))
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
     return alarms;
@@ -134,6 +227,18 @@ export const getUserAlarms = async (userId: string): Promise<Alarm[]> => {
   }
 };
 
+/**
+ * Top up the local notification queue for all of a user's alarms
+ */
+export const refreshAlarmSchedule = async (userId: string): Promise<void> => {
+  try {
+    const alarms = await getUserAlarms(userId);
+    await syncAlarmSchedule(alarms);
+  } catch (error) {
+    console.error("Error refreshing alarm schedule:", error);
+  }
+};
+
 /**
  * Delete all alarms for a specific user
  * Used during account deletion
@@ -181,6 +286,66 @@ export const toggleAlarmEnabled = async (
   }
 };
 
+/**
+ * Skip only the next occurrence of an alarm, or undo the skip
+ * The skipped occurrence is computed on the device and honoured by the server
+ */
+export const setSkipNextOccurrence = async (
+  alarm: Alarm,
+  skip: boolean
+): Promise<void> => {
+  try {
+    const skipNextAt = skip
+      ? getNextAlarmDate({ ...alarm, skipNextAt: null })
+      : null;
+
+    const db = getFirestore();
+    await updateDoc(doc(db, ALARMS_COLLECTION, alarm.id), {
+      skipNextAt: skipNextAt ? Timestamp.fromDate(skipNextAt) : null,
+    });
+
+    await refreshAlarmSchedule(alarm.userId);
+  } catch (error) {
+    console.error("Error skipping next occurrence:", error);
+    throw error;
+  }
+};
+
+/**
+ * Pause an alarm until the start of the given day (vacation mode), or resume it
+ * Unlike disabling, the alarm turns itself back on
+ * The day starts at midnight in the alarm's zone, like its occurrences
+ * @param resumeDate - Day the alarm rings again (as picked on the device's
+ * calendar), or null to resume now
+ */
+export const setAlarmPause = async (
+  alarm: Alarm,
+  resumeDate: Date | null
+): Promise<void> => {
+  try {
+    const pausedUntil = resumeDate
+      ? zonedTimeToUtc(
+          resumeDate.getFullYear(),
+          resumeDate.getMonth() + 1,
+          resumeDate.getDate(),
+          0,
+          0,
+          getAlarmTimeZone(alarm)
+        )
+      : null;
+
+    const db = getFirestore();
+    await updateDoc(doc(db, ALARMS_COLLECTION, alarm.id), {
+      pausedUntil: pausedUntil ? Timestamp.fromDate(pausedUntil) : null,
+    });
+
+    await refreshAlarmSchedule(alarm.userId);
+  } catch (error) {
+    console.error("Error pausing alarm:", error);
+    throw error;
+  }
+};
+
 /**
  * Get a single alarm by ID
  */
@@ -199,15 +364,7 @@ export const getAlarmById = async (alarmId: string): Promise<Alarm | null> => {
       return null;
     }
 
-    return {
-      id: docSnap.id,
-      userId: data.userId,
-      hours: data.hours,
-      minutes: data.minutes,
-      selectedDays: data.selectedDays || [],
-      isEnabled: data.isEnabled ?? true,
-      createdAt: data.createdAt?.toDate() || new Date(),
-    };
+    return alarmFromFirestore(docSnap.id, data);
   } catch (error) {
     console.error("Error fetching alarm:", error);
     throw error;
@@ -216,6 +373,8 @@ export const getAlarmById = async (alarmId: string): Promise<Alarm | null> => {
 
 /**
  * Update an existing alarm
+ * Re-captures the device's time zone, as the user is setting a local time
+ * Saving a one-off alarm re-arms it (it may have disabled itself after ringing)
  */
 export const updateAlarm = async (
   alarmId: string,
@@ -223,24 +382,37 @@ export const updateAlarm = async (
     hours: number;
     minutes: number;
     selectedDays: number[];
+    date: string | null;
+    recurrence: AlarmRecurrence | null;
+    challengeType: ChallengeType;
+    stake: AlarmStake | null;
+    snooze: AlarmSnoozeSettings;
   }
 ): Promise<void> => {
   try {
-    const db = getFirestore();
-    await updateDoc(doc(db, ALARMS_COLLECTION, alarmId), {
+    const alarmData = {
       hours: updates.hours,
       minutes: updates.minutes,
-      selectedDays: updates.selectedDays,
-    });
+      selectedDays: updates.date ? [] : updates.selectedDays,
+      date: updates.date,
+      recurrence: updates.date ? null : updates.recurrence,
+      ...(updates.date ? { isEnabled: true } : {}),
+      challengeType: updates.challengeType,
+      timeZone: getDeviceTimeZone(),
+      stakeAmount: updates.stake?.amount ?? null,
+      stakeCurrency: updates.stake?.currency ?? null,
+      snoozeDelayMinutes: updates.snooze.delayMinutes,
+      snoozeCost: updates.snooze.cost,
+    };
+    assertValidAlarm(alarmData, true);
 
-    // Reschedule notifications for the updated alarm
-    // First cancel old notifications
-    await cancelAlarmNotifications(alarmId);
+    const db = getFirestore();
+    await updateDoc(doc(db, ALARMS_COLLECTION, alarmId), alarmData);
 
-    // Fetch the updated alarm to get all fields
+    // Re-sync the queue: old occurrences are cancelled, new ones scheduled
     const updatedAlarm = await getAlarmById(alarmId);
-    if (updatedAlarm && updatedAlarm.isEnabled) {
-      await scheduleAlarmNotifications(updatedAlarm);
+    if (updatedAlarm) {
+      await refreshAlarmSchedule(updatedAlarm.userId);
     }
   } catch (error) {
     console.error("Error updating alarm:", error);
@@ -269,18 +441,7 @@ export const subscribeToUserAlarms = (
     q,
     (snapshot) => {
       const alarms: Alarm[] = snapshot.docs
-        .map((doc) => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            userId: data.userId,
-            hours: data.hours,
-            minutes: data.minutes,
-            selectedDays: data.selectedDays || [],
-            isEnabled: data.isEnabled ?? true,
-            createdAt: data.createdAt?.toDate() || new Date(),
-          };
-        })
+        .map((doc) => alarmFromFirestore(doc.id, doc.data()))
         .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()); // Sort in memory instead
       callback(alarms);
     },
@@ -320,15 +481,60 @@ export const getExistingPendingChallenge = async (
   }
 };
 
+/**
+ * Create an alarms_sent_out entry under its deterministic id unless the
+ * occurrence already has one (e.g. created by the server push)
+ * @returns true if the entry was created
+ */
+const createSentOutIfMissing = async (
+  sentOutId: string,
+  data: Record<string, unknown>
+): Promise<boolean> => {
+  const db = getFirestore();
+  const sentOutRef = doc(db, ALARMS_SENT_OUT_COLLECTION, sentOutId);
+  return runTransaction(db, async (transaction) => {
+    const sentOutSnap = await transaction.get(sentOutRef);
+    if (sentOutSnap.exists()) {
+      return false;
+    }
+
+    transaction.set(sentOutRef, data);
+    return true;
+  });
+};
+
 /**
  * Log when an alarm notification is sent out (status: pending)
- * Only creates a new entry if one doesn't already exist for this alarm
+ * Only creates a new entry if one doesn't already exist for this occurrence
+ * @param occurrenceKey - From the notification data; the entry is stored
+ * under it. Older notifications without one fall back to any pending entry
+ * for the alarm, since the rules only allow entries under occurrence keys
+ * @param scheduledFor - When the occurrence was scheduled to ring
  */
 export const logAlarmSentOut = async (
   userId: string,
-  alarmId: string
+  alarmId: string,
+  occurrenceKey?: string,
+  scheduledFor?: Date
 ): Promise<string> => {
   try {
+    if (occurrenceKey) {
+      const created = await createSentOutIfMissing(occurrenceKey, {
+        userId,
+        alarmId,
+        occurrenceKey,
+        ...(scheduledFor && { scheduledFor: Timestamp.fromDate(scheduledFor) }),
+        sentAt: serverTimestamp(),
+        challengeStatus: "pending",
+      });
+      console.log(
+        created
+          ? `Logged alarm sent out: ${occurrenceKey} for alarm ${alarmId}`
+          : `Alarm sent out already logged: ${occurrenceKey} for alarm ${alarmId}`
+      );
+      return occurrenceKey;
+    }
+
     // Check if there's already a pending challenge for this alarm
     const existingId = await getExistingPendingChallenge(userId, alarmId);
     if (existingId) {
@@ -338,16 +544,8 @@ export const logAlarmSentOut = async (
       return existingId;
     }
 
-    // Create new pending challenge
-    const db = getFirestore();
-    const docRef = await addDoc(collection(db, ALARMS_SENT_OUT_COLLECTION), {
-      userId,
-      alarmId,
-      sentAt: serverTimestamp(),
-      challengeStatus: "pending",
-    });
-    console.log(`Logged alarm sent out: ${docRef.id} for alarm ${alarmId}`);
-    return docRef.id;
+    // Entries can only be created under an occurrence key
+    throw new Error(`No occurrence to log for alarm ${alarmId}`);
   } catch (error) {
     console.error("Error logging alarm sent out:", error);
     throw error;
@@ -355,32 +553,210 @@ export const logAlarmSentOut = async (
 };
 
 /**
- * Update alarm sent out status to success
- * Called when user successfully completes the verification challenge
- * Reschedules the next occurrence of the alarm
+ * Log an alarm occurrence that was never sent out (e.g. the notification queue
+ * ran dry while the phone was off) as a failed challenge
+ * Does nothing if the occurrence already has an entry
+ * @param occurrence - When the alarm should have rung; stored as sentAt
  */
-export const markAlarmChallengeSuccess = async (
-  sentOutId: string,
-  attemptsMade: number,
-  alarmId: string
-): Promise<void> => {
+export const logMissedAlarm = async (
+  userId: string,
+  alarm: Alarm,
+  occurrence: Date
+): Promise<string> => {
   try {
-    const db = getFirestore();
-    await updateDoc(doc(db, ALARMS_SENT_OUT_COLLECTION, sentOutId), {
-      challengeStatus: "success",
+    const sentOutId = getOccurrenceKey(alarm, occurrence);
+    const created = await createSentOutIfMissing(sentOutId, {
+      userId,
+      alarmId: alarm.id,
+      occurrenceKey: sentOutId,
+      scheduledFor: Timestamp.fromDate(occurrence),
+      sentAt: Timestamp.fromDate(occurrence),
+      challengeStatus: "failed",
       completedAt: serverTimestamp(),
-      attemptsMade,
+      failureReason: "missed",
+      attemptsMade: 0,
     });
-    console.log(`Marked alarm challenge ${sentOutId} as success`);
+    if (created) {
+      console.log(`Logged missed alarm: ${sentOutId} for alarm ${alarm.id}`);
+    }
+    return sentOutId;
+  } catch (error) {
+    console.error("Error logging missed alarm:", error);
+    throw error;
+  }
+};
 
-    // Reschedule next occurrence
-    const alarm = await getAlarmById(alarmId);
-    if (alarm && alarm.isEnabled) {
-      console.log(`Rescheduling next occurrence for alarm ${alarmId}`);
-      await scheduleAlarmNotifications(alarm);
+/**
+ * Get all alarms_sent_out entries for a user sent at or after a given time
+ */
+export const getAlarmSentOutsSince = async (
+  userId: string,
+  since: Date
+): Promise<AlarmSentOut[]> => {
+  try {
+    const db = getFirestore();
+    const q = query(
+      collection(db, ALARMS_SENT_OUT_COLLECTION),
+      where("userId", "==", userId),
+      where("sentAt", ">=", Timestamp.fromDate(since))
+    );
+    const snapshot = await getDocs(q);
+
+    const sentOuts: AlarmSentOut[] = [];
+    for (const sentOutDoc of snapshot.docs) {
+      sentOuts.push(
+        alarmSentOutFromFirestore(sentOutDoc.id, sentOutDoc.data())
+      );
     }
+    return sentOuts;
   } catch (error) {
-    console.error("Error marking alarm challenge as success:", error);
+    console.error("Error fetching alarms sent out:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a user's challenges since a given time, summarised for the History tab
+ * Days are the device's local days
+ */
+export const getChallengeHistory = async (
+  userId: string,
+  since: Date
+): Promise<ChallengeHistory> => {
+  try {
+    const sentOuts = await getAlarmSentOutsSince(userId, since);
+    const entries = [...sentOuts].sort(
+      (a, b) => getOccurrenceTime(b).getTime() - getOccurrenceTime(a).getTime()
+    );
+
+    return {
+      entries,
+      streaks: getStreaks(sentOuts),
+      dailyOutcomes: getDailyOutcomes(sentOuts, getDeviceTimeZone()),
+    };
+  } catch (error) {
+    console.error("Error fetching challenge history:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a user's cached wake-up stats
+ * Returns null until their first challenge has been counted
+ */
+export const getUserStats = async (
+  userId: string
+): Promise<UserStats | null> => {
+  try {
+    const db = getFirestore();
+    const docSnap = await getDoc(doc(db, STATS_COLLECTION, userId));
+
+    const data = docSnap.exists() ? docSnap.data() : undefined;
+    if (!data) {
+      return null;
+    }
+
+    return {
+      ...(data as WakeStats),
+      windowDays: data.windowDays,
+      computedAt: data.computedAt?.toDate() ?? null,
+    };
+  } catch (error) {
+    console.error("Error fetching stats:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the challenge for a pending alarm challenge from the server
+ * Returns the same challenge if one was already issued for this entry
+ */
+export const issueChallenge = async (
+  sentOutId: string
+): Promise<IssuedChallenge> => {
+  try {
+    const issue = httpsCallable<
+      { sentOutId: string },
+      SerializedChallenge & { expiresAt: number; snoozedUntil: number | null }
+    >(getFunctions(), "issueChallenge");
+    const { data } = await issue({ sentOutId });
+    return {
+      challenge: { type: data.type, payload: data.payload },
+      expiresAt: new Date(data.expiresAt),
+      snoozedUntil: data.snoozedUntil ? new Date(data.snoozedUntil) : null,
+    };
+  } catch (error) {
+    console.error("Error issuing challenge:", error);
+    throw error;
+  }
+};
+
+/**
+ * Submit an answer for server-side validation
+ * On success the server sets status to "success"; the app tops up
+ * the notification queue
+ */
+export const submitChallengeAnswer = async (
+  sentOutId: string,
+  alarmId: string,
+  answer: string
+): Promise<{ success: boolean; attemptsMade: number }> => {
+  try {
+    const submit = httpsCallable<
+      { sentOutId: string; answer: string },
+      { success: boolean; attemptsMade: number }
+    >(getFunctions(), "submitChallenge");
+    const { data } = await submit({ sentOutId, answer });
+
+    if (data.success) {
+      console.log(`Alarm challenge ${sentOutId} verified`);
+
+      // Top up the notification queue
+      const alarm = await getAlarmById(alarmId);
+      if (alarm) {
+        await refreshAlarmSchedule(alarm.userId);
+      }
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error submitting challenge answer:", error);
+    throw error;
+  }
+};
+
+/**
+ * Snooze a pending alarm challenge
+ * The server records the snooze and applies its cost; the app silences the
+ * current burst and rings again when the snooze ends
+ */
+export const snoozeAlarmChallenge = async (
+  sentOutId: string,
+  alarmId: string
+): Promise<SnoozeResult> => {
+  try {
+    const snooze = httpsCallable<
+      { sentOutId: string },
+      Omit<SnoozeResult, "snoozedUntil" | "expiresAt"> & {
+        snoozedUntil: number;
+        expiresAt: number;
+      }
+    >(getFunctions(), "snoozeChallenge");
+    const { data } = await snooze({ sentOutId });
+
+    const result: SnoozeResult = {
+      ...data,
+      snoozedUntil: new Date(data.snoozedUntil),
+      expiresAt: new Date(data.expiresAt),
+    };
+    await scheduleSnoozeNotifications(alarmId, sentOutId, result.snoozedUntil);
+
+    console.log(
+      `Snoozed alarm challenge ${sentOutId} until ${result.snoozedUntil}`
+    );
+    return result;
+  } catch (error) {
+    console.error("Error snoozing alarm challenge:", error);
     throw error;
   }
 };
@@ -388,27 +764,40 @@ export const markAlarmChallengeSuccess = async (
 /**
  * Update alarm sent out status to failed
  * Called when the 15-minute timer expires without successful completion
- * Reschedules the next occurrence of the alarm
+ * Attempts are counted server-side by submitChallenge
+ * No-op if the challenge is no longer pending (e.g. already failed by the server sweeper)
+ * Tops up the notification queue
  */
 export const markAlarmChallengeFailed = async (
   sentOutId: string,
-  attemptsMade: number,
   alarmId: string
 ): Promise<void> => {
   try {
     const db = getFirestore();
-    await updateDoc(doc(db, ALARMS_SENT_OUT_COLLECTION, sentOutId), {
-      challengeStatus: "failed",
-      completedAt: serverTimestamp(),
-      attemptsMade,
+    const sentOutRef = doc(db, ALARMS_SENT_OUT_COLLECTION, sentOutId);
+    const marked = await runTransaction(db, async (transaction) => {
+      const sentOutSnap = await transaction.get(sentOutRef);
+      if (sentOutSnap.data()?.challengeStatus !== "pending") {
+        return false;
+      }
+
+      transaction.update(sentOutRef, {
+        challengeStatus: "failed",
+        completedAt: serverTimestamp(),
+        failureReason: "timeout_client",
+      });
+      return true;
     });
-    console.log(`Marked alarm challenge ${sentOutId} as failed`);
+    console.log(
+      marked
+        ? `Marked alarm challenge ${sentOutId} as failed`
+        : `Alarm challenge ${sentOutId} was already resolved`
+    );
 
-    // Reschedule next occurrence
+    // Top up the notification queue
     const alarm = await getAlarmById(alarmId);
-    if (alarm && alarm.isEnabled) {
-      console.log(`Rescheduling next occurrence for alarm ${alarmId}`);
-      await scheduleAlarmNotifications(alarm);
+    if (alarm) {
+      await refreshAlarmSchedule(alarm.userId);
     }
   } catch (error) {
     console.error("Error marking alarm challenge as failed:", error);
@@ -0,0 +1,128 @@
+/**
+ * Device Service
+ *
+ * Registers this device's Expo push token so Cloud Functions can push alarms
+ * to it (checkNotifications), one `users/{uid}/devices/{deviceId}` document
+ * per device.
+ *
+ * REGISTRATION:
+ * - On every launch once signed in, after notification permission is granted
+ * - Again whenever the OS rotates the push token (addPushTokenListener)
+ * - Each registration refreshes lastSeenAt, the app version and the token
+ *
+ * Simulators/emulators can't receive pushes and are never registered.
+ */
+
+import { Platform } from "react-native";
+import * as Application from "expo-application";
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import * as Notifications from "expo-notifications";
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  serverTimestamp,
+  writeBatch,
+} from "@react-native-firebase/firestore";
+import { requestNotificationPermissions } from "./notificationService";
+
+const USERS_COLLECTION = "users";
+const DEVICES_COLLECTION = "devices";
+
+/**
+ * Stable id for this install: the Android ID or the iOS vendor id
+ */
+const getDeviceId = async (): Promise<string | null> => {
+  if (Platform.OS === "android") {
+    return Application.getAndroidId();
+  }
+  if (Platform.OS === "ios") {
+    return Application.getIosIdForVendorAsync();
+  }
+  return null;
+};
+
+/**
+ * Store this device's Expo push token on the user
+ * @param devicePushToken - Native token from addPushTokenListener, if the
+ * registration was triggered by a rotation
+ * @returns The registered Expo push token, or null if the device can't
+ * receive pushes (simulator, permission denied)
+ */
+export const registerDevice = async (
+  userId: string,
+  devicePushToken?: Notifications.DevicePushToken
+): Promise<string | null> => {
+  try {
+    if (!Device.isDevice) {
+      return null;
+    }
+
+    const granted = await requestNotificationPermissions();
+    if (!granted) {
+      return null;
+    }
+
+    const deviceId = await getDeviceId();
+    if (!deviceId) {
+      return null;
+    }
+
+    const { data: expoPushToken } = await Notifications.getExpoPushTokenAsync({
+      projectId: Constants.expoConfig?.extra?.eas?.projectId,
+      devicePushToken,
+    });
+
+    const db = getFirestore();
+    await setDoc(
+      doc(db, USERS_COLLECTION, userId, DEVICES_COLLECTION, deviceId),
+      {
+        userId,
+        expoPushToken,
+        platform: Platform.OS,
+        appVersion: Application.nativeApplicationVersion,
+        buildVersion: Application.nativeBuildVersion,
+        modelName: Device.modelName,
+        lastSeenAt: serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    return expoPushToken;
+  } catch (error) {
+    console.error("Error registering device:", error);
+    return null;
+  }
+};
+
+/**
+ * Re-register the device whenever the OS rotates its push token
+ * @returns Subscription to remove on sign-out/unmount
+ */
+export const addPushTokenRefreshListener = (userId: string) =>
+  Notifications.addPushTokenListener((devicePushToken) => {
+    registerDevice(userId, devicePushToken);
+  });
+
+/**
+ * Delete all of a user's registered devices (account deletion)
+ */
+export const deleteUserDevices = async (userId: string): Promise<void> => {
+  try {
+    const db = getFirestore();
+    const devicesSnapshot = await getDocs(
+      collection(db, USERS_COLLECTION, userId, DEVICES_COLLECTION)
+    );
+    const batch = writeBatch(db);
+    for (const device of devicesSnapshot.docs) {
+      batch.delete(device.ref);
+    }
+    await batch.commit();
+  } catch (error) {
+    console.error("Error deleting user devices:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,265 @@
+/**
+ * Group Service
+ *
+ * Group wake-up challenges: members share one alarm time and compete on a
+ * leaderboard ranked by success rate, then by how fast they wake up.
+ *
+ * MEMBERSHIP:
+ * - Creating or joining a group creates the member's alarm for it
+ *   (`alarms.groupId`); leaving or being removed deletes it
+ * - The group's owner can remove members; if the owner leaves, the
+ *   longest-standing member takes over
+ * - With split forfeits on, a failed member's charged stake is shared among
+ *   the members who woke up that day instead of being donated
+ *   (`group_credits`), and paid out to them monthly
+ *
+ * `groups` and `group_leaderboards` are written by Cloud Functions only; the
+ * app reads the groups it's in and calls the functions below for changes.
+ */
+
+import * as Linking from "expo-linking";
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from "@react-native-firebase/firestore";
+import { getFunctions, httpsCallable } from "@react-native-firebase/functions";
+import { Group, GroupMember, LeaderboardEntry } from "@clockblocked/shared";
+import { AlarmStake, refreshAlarmSchedule } from "./alarmService";
+
+export type GroupLeaderboard = {
+  entries: LeaderboardEntry[];
+  windowDays: number; // How many days of challenges the ranking covers
+  computedAt: Date | null;
+};
+
+export type NewGroup = {
+  name: string;
+  hours: number;
+  minutes: number;
+  selectedDays: number[];
+  stake: AlarmStake | null; // Per member alarm
+  splitForfeits: boolean;
+};
+
+const GROUPS_COLLECTION = "groups";
+const GROUP_LEADERBOARDS_COLLECTION = "group_leaderboards";
+const GROUP_CREDITS_COLLECTION = "group_credits";
+
+const groupFromFirestore = (id: string, data: Record<string, any>): Group => {
+  const members: Record<string, GroupMember> = {};
+  for (const [userId, member] of Object.entries<Record<string, any>>(
+    data.members || {}
+  )) {
+    members[userId] = {
+      name: member.name,
+      alarmId: member.alarmId,
+      joinedAt: member.joinedAt?.toDate(),
+    };
+  }
+
+  return {
+    id,
+    name: data.name,
+    ownerId: data.ownerId,
+    hours: data.hours,
+    minutes: data.minutes,
+    selectedDays: data.selectedDays || [],
+    stakeAmount: data.stakeAmount ?? null,
+    stakeCurrency: data.stakeCurrency ?? null,
+    splitForfeits: data.splitForfeits === true,
+    inviteCode: data.inviteCode,
+    memberIds: data.memberIds || [],
+    members,
+    createdAt: data.createdAt?.toDate(),
+  };
+};
+
+/**
+ * Link that opens the Groups screen with a group's invite code filled in
+ */
+export const getGroupInviteLink = (inviteCode: string): string =>
+  Linking.createURL("/groups", { queryParams: { code: inviteCode } });
+
+/**
+ * Get the groups a user is a member of
+ */
+export const getUserGroups = async (userId: string): Promise<Group[]> => {
+  try {
+    const db = getFirestore();
+    const snapshot = await getDocs(
+      query(
+        collection(db, GROUPS_COLLECTION),
+        where("memberIds", "array-contains", userId)
+      )
+    );
+
+    const groups: Group[] = [];
+    for (const groupDoc of snapshot.docs) {
+      groups.push(groupFromFirestore(groupDoc.id, groupDoc.data()));
+    }
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error fetching groups:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a group the user is a member of
+ * @returns undefined if it doesn't exist or the user has left it
+ */
+export const getGroup = async (groupId: string): Promise<Group | undefined> => {
+  try {
+    const db = getFirestore();
+    const groupDoc = await getDoc(doc(db, GROUPS_COLLECTION, groupId));
+    return groupDoc.exists()
+      ? groupFromFirestore(groupDoc.id, groupDoc.data()!)
+      : undefined;
+  } catch (error) {
+    console.error("Error fetching group:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a group's leaderboard, as last computed by updateGroupLeaderboard
+ */
+export const getGroupLeaderboard = async (
+  groupId: string
+): Promise<GroupLeaderboard | undefined> => {
+  try {
+    const db = getFirestore();
+    const leaderboardDoc = await getDoc(
+      doc(db, GROUP_LEADERBOARDS_COLLECTION, groupId)
+    );
+    const data = leaderboardDoc.exists() ? leaderboardDoc.data() : undefined;
+    if (!data) return undefined;
+
+    return {
+      entries: data.entries || [],
+      windowDays: data.windowDays,
+      computedAt: data.computedAt?.toDate() ?? null,
+    };
+  } catch (error) {
+    console.error("Error fetching group leaderboard:", error);
+    throw error;
+  }
+};
+
+/**
+ * Total the user's shares of forfeited stakes in a group, per currency.
+ * Credits cancelled by a refund aren't counted.
+ */
+export const getGroupCredits = async (
+  userId: string,
+  groupId: string
+): Promise<Record<string, number>> => {
+  try {
+    const db = getFirestore();
+    const snapshot = await getDocs(
+      query(
+        collection(db, GROUP_CREDITS_COLLECTION),
+        where("userId", "==", userId),
+        where("groupId", "==", groupId)
+      )
+    );
+
+    const totals: Record<string, number> = {};
+    for (const creditDoc of snapshot.docs) {
+      const credit = creditDoc.data();
+      if (credit.status === "cancelled") continue;
+      totals[credit.currency] = (totals[credit.currency] || 0) + credit.amount;
+    }
+    return totals;
+  } catch (error) {
+    console.error("Error fetching group credits:", error);
+    throw error;
+  }
+};
+
+/**
+ * Create a group with the current user as owner, and their alarm for it
+ * @returns The new group's id
+ */
+export const createGroup = async (
+  userId: string,
+  group: NewGroup
+): Promise<string> => {
+  try {
+    const create = httpsCallable<NewGroup, { groupId: string }>(
+      getFunctions(),
+      "createGroup"
+    );
+    const { data } = await create(group);
+    await refreshAlarmSchedule(userId);
+    return data.groupId;
+  } catch (error) {
+    console.error("Error creating group:", error);
+    throw error;
+  }
+};
+
+/**
+ * Join a group by its invite code, adding its alarm
+ */
+export const joinGroup = async (
+  userId: string,
+  code: string
+): Promise<{ groupId: string; name: string }> => {
+  try {
+    const join = httpsCallable<
+      { code: string },
+      { groupId: string; name: string }
+    >(getFunctions(), "joinGroup");
+    const { data } = await join({ code });
+    await refreshAlarmSchedule(userId);
+    return data;
+  } catch (error) {
+    console.error("Error joining group:", error);
+    throw error;
+  }
+};
+
+/**
+ * Leave a group, deleting its alarm
+ */
+export const leaveGroup = async (
+  userId: string,
+  groupId: string
+): Promise<void> => {
+  try {
+    const leave = httpsCallable<{ groupId: string }, void>(
+      getFunctions(),
+      "leaveGroup"
+    );
+    await leave({ groupId });
+    await refreshAlarmSchedule(userId);
+  } catch (error) {
+    console.error("Error leaving group:", error);
+    throw error;
+  }
+};
+
+/**
+ * Remove another member from a group the current user owns
+ */
+export const removeGroupMember = async (
+  groupId: string,
+  memberId: string
+): Promise<void> => {
+  try {
+    const remove = httpsCallable<{ groupId: string; memberId: string }, void>(
+      getFunctions(),
+      "removeGroupMember"
+    );
+    await remove({ groupId, memberId });
+  } catch (error) {
+    console.error("Error removing group member:", error);
+    throw error;
+  }
+};
@@ -1,108 +1,276 @@
 import * as Notifications from "expo-notifications";
+import { getAlarmDatesBetween, getOccurrenceKey } from "@clockblocked/shared";
 import { Alarm } from "./alarmService";
 
 // Number of repeat notifications per alarm (in case user doesn't wake up)
-const NOTIFICATION_REPEATS = 10;
+const NOTIFICATION_REPEATS = 7;
 // Interval between repeat notifications (in seconds)
 const REPEAT_INTERVAL_SECONDS = 17.5;
+// How many days of occurrences to keep queued ahead of time
+const LOOKAHEAD_DAYS = 7;
+// iOS keeps at most 64 pending local notifications; leave some headroom.
+// Snoozed bursts count too, and room for one is always kept, so a week of
+// daily occurrences plus a snooze fits: (7 + 1) * 7 = 56.
+const MAX_PENDING_NOTIFICATIONS = 60;
+
+// Notification category carrying the Snooze action button
+const ALARM_CATEGORY_ID = "alarm";
+export const SNOOZE_ACTION_ID = "snooze";
+
+type QueuedNotification = {
+  identifier: string;
+  alarmId: string;
+  occurrenceKey: string; // Also the occurrence's alarms_sent_out id
+  scheduledFor?: Date; // Unknown for snoozed bursts
+  occurrence: Date;
+  repeatIndex: number;
+  date: Date;
+};
+
+/**
+ * Generate a deterministic notification identifier for one notification of an occurrence
+ * This allows us to diff the queue and cancel specific notifications later
+ */
+const getNotificationId = (
+  alarmId: string,
+  occurrence: Date,
+  index: number
+): string => {
+  return `alarm-${alarmId}-${occurrence.getTime()}-${index}`;
+};
 
 /**
- * Generate a deterministic notification identifier for an alarm
- * This allows us to cancel specific notifications later
+ * Calculate upcoming occurrences of an alarm
+ * @param alarm - The alarm to calculate occurrences for
+ * @param days - How many days ahead to look (today included)
+ * @returns Date objects for each occurrence after now, soonest first
  */
-const getNotificationId = (alarmId: string, index: number): string => {
-  return `alarm-${alarmId}-${index}`;
+export const getUpcomingAlarmDates = (alarm: Alarm, days: number): Date[] => {
+  const now = new Date();
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  end.setDate(end.getDate() + days - 1);
+
+  return getAlarmDatesBetween(alarm, now, end);
 };
 
 /**
- * Calculate the next occurrence of an alarm based on its time and selected days
- * @param alarm - The alarm to calculate the next occurrence for
- * @returns Date object for the next alarm time, or null if no valid time
+ * Build the notifications that should be queued right now across all alarms
+ * Each occurrence gets a burst of NOTIFICATION_REPEATS notifications. Whole
+ * bursts are queued, soonest first, while they fit in `capacity`.
  */
-const getNextAlarmDate = (alarm: Alarm): Date | null => {
+const buildNotificationQueue = (
+  alarms: Alarm[],
+  capacity: number
+): QueuedNotification[] => {
   const now = new Date();
-  const alarmDate = new Date();
-  alarmDate.setHours(alarm.hours, alarm.minutes, 0, 0);
-
-  // Find the next day that matches selectedDays
-  // selectedDays: 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-  for (let daysAhead = 0; daysAhead < 7; daysAhead++) {
-    const checkDate = new Date(alarmDate);
-    checkDate.setDate(checkDate.getDate() + daysAhead);
-    const dayOfWeek = checkDate.getDay();
-
-    if (alarm.selectedDays.includes(dayOfWeek)) {
-      // If it's today but the time has passed, skip to next occurrence
-      if (daysAhead === 0 && checkDate <= now) {
-        continue;
+  const bursts: QueuedNotification[][] = [];
+
+  for (const alarm of alarms.filter((a) => a.isEnabled)) {
+    for (const occurrence of getUpcomingAlarmDates(alarm, LOOKAHEAD_DAYS)) {
+      const burst: QueuedNotification[] = [];
+      for (let i = 0; i < NOTIFICATION_REPEATS; i++) {
+        const date = new Date(occurrence);
+        date.setSeconds(date.getSeconds() + i * REPEAT_INTERVAL_SECONDS);
+
+        if (date <= now) {
+          continue;
+        }
+
+        burst.push({
+          identifier: getNotificationId(alarm.id, occurrence, i),
+          alarmId: alarm.id,
+          occurrenceKey: getOccurrenceKey(alarm, occurrence),
+          scheduledFor: occurrence,
+          occurrence,
+          repeatIndex: i,
+          date,
+        });
+      }
+      if (burst.length > 0) {
+        bursts.push(burst);
       }
-      return checkDate;
     }
   }
+
+  const queue: QueuedNotification[] = [];
+  for (const burst of bursts.sort(
+    (a, b) => a[0].date.getTime() - b[0].date.getTime()
+  )) {
+    if (queue.length + burst.length > capacity) {
+      break;
+    }
+    queue.push(...burst);
+  }
+  return queue.sort((a, b) => a.date.getTime() - b.date.getTime());
 };
 
 /**
- * Schedule notifications for a single alarm
- * Schedules multiple notifications (NOTIFICATION_REPEATS) spaced apart
- * @param alarm - The alarm to schedule notifications for
- * @returns Array of scheduled notification identifiers
+ * Get all scheduled alarm notifications
  */
-export const scheduleAlarmNotifications = async (
-  alarm: Alarm
-): Promise<string[]> => {
-  if (!alarm.isEnabled) {
-    return [];
-  }
+const getScheduledAlarmNotifications = async () => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  return scheduled.filter((request) => request.content.data?.type === "alarm");
+};
 
-  const baseDate = getNextAlarmDate(alarm);
-  if (!baseDate) {
-    console.warn(`Could not calculate next date for alarm ${alarm.id}`);
-    return [];
-  }
+/**
+ * Whether a scheduled notification belongs to an occurrence that has already started ringing
+ */
+const isOccurrenceUnderway = (
+  request: Notifications.NotificationRequest
+): boolean => {
+  const occurrenceTime = request.content.data?.occurrenceTime as
+    string | undefined;
+  return !!occurrenceTime && new Date(occurrenceTime) <= new Date();
+};
 
-  const scheduledIds: string[] = [];
+/**
+ * Whether a scheduled notification is part of a snoozed burst
+ * Snoozed bursts aren't part of the rolling queue
+ */
+const isSnoozeNotification = (
+  request: Notifications.NotificationRequest
+): boolean => {
+  return request.content.data?.isSnooze === true;
+};
 
-  for (let i = 0; i < NOTIFICATION_REPEATS; i++) {
-    const notificationDate = new Date(baseDate);
-    notificationDate.setSeconds(
-      notificationDate.getSeconds() + i * REPEAT_INTERVAL_SECONDS
-    );
+/**
+ * When a scheduled notification fires, worked out from its occurrence and
+ * place in the burst
+ */
+const getNotificationDate = (
+  request: Notifications.NotificationRequest
+): Date => {
+  const date = new Date(request.content.data?.occurrenceTime as string);
+  const repeatIndex = (request.content.data?.repeatIndex as number) || 0;
+  date.setSeconds(date.getSeconds() + repeatIndex * REPEAT_INTERVAL_SECONDS);
+  return date;
+};
+
+/**
+ * Schedule a single queued notification
+ */
+const scheduleQueuedNotification = async (
+  notification: QueuedNotification,
+  isSnooze = false
+): Promise<void> => {
+  const {
+    identifier,
+    alarmId,
+    occurrenceKey,
+    scheduledFor,
+    occurrence,
+    repeatIndex,
+    date,
+  } = notification;
+
+  await Notifications.scheduleNotificationAsync({
+    identifier,
+    content: {
+      title: "ClockBlocked Alarm",
+      body:
+        repeatIndex === 0
+          ? "Wake Up And Conquer Constantinople!"
+          : `Still sleeping? Wake up! (${
+              repeatIndex + 1
+            }/${NOTIFICATION_REPEATS})`,
+      sound: "alarm.wav",
+      categoryIdentifier: ALARM_CATEGORY_ID,
+      data: {
+        type: "alarm",
+        alarmId,
+        occurrenceKey,
+        scheduledFor: scheduledFor?.toISOString(),
+        repeatIndex,
+        occurrenceTime: occurrence.toISOString(),
+        isSnooze,
+      },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date,
+    },
+  });
+};
+
+/**
+ * Top up the local notification queue for all alarms
+ * Keeps the next LOOKAHEAD_DAYS of occurrences queued (capped at
+ * MAX_PENDING_NOTIFICATIONS, soonest first, less the room pending snoozed
+ * bursts take or one burst's worth kept for them). Only missing notifications are
+ * scheduled and only stale ones are cancelled, so this is cheap to call on
+ * every launch, foreground and alarm change.
+ * Bursts of occurrences that are already ringing, and snoozed bursts, are left alone.
+ * @param alarms - Array of all user alarms
+ * @returns Identifiers of newly scheduled notifications
+ */
+export const syncAlarmSchedule = async (alarms: Alarm[]): Promise<string[]> => {
+  const enabledAlarmIds = new Set(
+    alarms.filter((a) => a.isEnabled).map((a) => a.id)
+  );
+
+  const scheduled = await getScheduledAlarmNotifications();
+  const snoozeCount = scheduled.filter(
+    (request) =>
+      isSnoozeNotification(request) &&
+      enabledAlarmIds.has(request.content.data?.alarmId as string)
+  ).length;
+  const queue = buildNotificationQueue(
+    alarms,
+    MAX_PENDING_NOTIFICATIONS - Math.max(snoozeCount, NOTIFICATION_REPEATS)
+  );
+  const queuedIds = new Set(queue.map((n) => n.identifier));
+  const scheduledIds = new Set(scheduled.map((r) => r.identifier));
 
-    // Don't schedule if the date is in the past
-    if (notificationDate <= new Date()) {
+  // Cancel notifications that fell out of the queue
+  for (const request of scheduled) {
+    if (queuedIds.has(request.identifier)) {
+      continue;
+    }
+    const alarmId = request.content.data?.alarmId as string;
+    if (
+      enabledAlarmIds.has(alarmId) &&
+      (isOccurrenceUnderway(request) || isSnoozeNotification(request))
+    ) {
       continue;
     }
-
-    const identifier = getNotificationId(alarm.id, i);
 
     try {
-      await Notifications.scheduleNotificationAsync({
-        identifier,
-        content: {
-          title: "ClockBlocked Alarm",
-          body:
-            i === 0
-              ? "Wake Up And Conquer Constantinople!"
-              : `Still sleeping? Wake up! (${i + 1}/${NOTIFICATION_REPEATS})`,
-          sound: "alarm.wav",
-          data: { type: "alarm", alarmId: alarm.id, repeatIndex: i },
-        },
-        trigger: {
-          type: Notifications.SchedulableTriggerInputTypes.DATE,
-          date: notificationDate,
-        },
-      });
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      console.log(`Cancelled stale notification ${request.identifier}`);
+    } catch (error) {
+      console.log(
+        `Could not cancel notification ${request.identifier}:`,
+        error
+      );
+    }
+  }
 
-      scheduledIds.push(identifier);
+  // Schedule what's missing
+  const newIds: string[] = [];
+  for (const notification of queue) {
+    if (scheduledIds.has(notification.identifier)) {
+      continue;
+    }
+
+    try {
+      await scheduleQueuedNotification(notification);
+      newIds.push(notification.identifier);
       console.log(
-        `Scheduled notification ${identifier} for ${notificationDate}`
+        `Scheduled notification ${notification.identifier} for ${notification.date}`
       );
     } catch (error) {
-      console.error(`Error scheduling notification ${identifier}:`, error);
+      console.error(
+        `Error scheduling notification ${notification.identifier}:`,
+        error
+      );
     }
   }
 
-  return scheduledIds;
+  console.log(
+    `Notification queue synced: ${queue.length} queued, ${newIds.length} newly scheduled`
+  );
+  return newIds;
 };
 
 /**
@@ -112,40 +280,142 @@ export const scheduleAlarmNotifications = async (
 export const cancelAlarmNotifications = async (
   alarmId: string
 ): Promise<void> => {
-  for (let i = 0; i < NOTIFICATION_REPEATS; i++) {
-    const identifier = getNotificationId(alarmId, i);
+  const scheduled = await getScheduledAlarmNotifications();
+
+  for (const request of scheduled) {
+    if (request.content.data?.alarmId !== alarmId) {
+      continue;
+    }
     try {
-      await Notifications.cancelScheduledNotificationAsync(identifier);
-      console.log(`Cancelled notification ${identifier}`);
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      console.log(`Cancelled notification ${request.identifier}`);
     } catch (error) {
       // Notification might not exist, that's okay
-      console.log(`Could not cancel notification ${identifier}:`, error);
+      console.log(
+        `Could not cancel notification ${request.identifier}:`,
+        error
+      );
     }
   }
 };
 
 /**
- * Cancel all scheduled notifications and reschedule all enabled alarms
- * Call this when the app loads or when alarms change significantly
- * @param alarms - Array of all user alarms
+ * Cancel the rest of the burst for an alarm occurrence that is already ringing,
+ * including a snoozed burst that hasn't started yet
+ * Future occurrences stay queued
+ * @param alarmId - The ID of the alarm whose challenge was resolved
  */
-export const rescheduleAllAlarms = async (alarms: Alarm[]): Promise<void> => {
-  console.log("Rescheduling all alarms...");
+export const cancelRingingAlarmNotifications = async (
+  alarmId: string
+): Promise<void> => {
+  const scheduled = await getScheduledAlarmNotifications();
 
-  // Cancel all existing scheduled notifications
-  await Notifications.cancelAllScheduledNotificationsAsync();
-  console.log("Cancelled all existing notifications");
+  for (const request of scheduled) {
+    if (
+      request.content.data?.alarmId !== alarmId ||
+      !(isOccurrenceUnderway(request) || isSnoozeNotification(request))
+    ) {
+      continue;
+    }
+    try {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      console.log(`Cancelled notification ${request.identifier}`);
+    } catch (error) {
+      console.log(
+        `Could not cancel notification ${request.identifier}:`,
+        error
+      );
+    }
+  }
+};
 
-  // Schedule notifications for all enabled alarms
-  const enabledAlarms = alarms.filter((alarm) => alarm.isEnabled);
+/**
+ * Cancel the latest queued notifications until `count` more fit under
+ * MAX_PENDING_NOTIFICATIONS. Snoozed bursts are never cancelled here.
+ */
+const makeRoomForNotifications = async (count: number): Promise<void> => {
+  const scheduled = await getScheduledAlarmNotifications();
+  const excess = scheduled.length + count - MAX_PENDING_NOTIFICATIONS;
+  if (excess <= 0) {
+    return;
+  }
 
-  for (const alarm of enabledAlarms) {
-    await scheduleAlarmNotifications(alarm);
+  const latest = scheduled
+    .filter((request) => !isSnoozeNotification(request))
+    .sort(
+      (a, b) =>
+        getNotificationDate(b).getTime() - getNotificationDate(a).getTime()
+    )
+    .slice(0, excess);
+  for (const request of latest) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      console.log(`Cancelled notification ${request.identifier} to make room`);
+    } catch (error) {
+      console.log(
+        `Could not cancel notification ${request.identifier}:`,
+        error
+      );
+    }
   }
+};
 
-  console.log(
-    `Scheduled notifications for ${enabledAlarms.length} enabled alarms`
-  );
+/**
+ * Silence a ringing alarm and ring it again at `snoozedUntil`
+ * Schedules a fresh burst outside the rolling queue; it counts against
+ * MAX_PENDING_NOTIFICATIONS, so the latest queued notifications make way if
+ * needed
+ * @param alarmId - The ID of the alarm being snoozed
+ * @param sentOutId - The snoozed challenge, which the new burst reopens
+ * (passed on as the burst's occurrenceKey)
+ * @param snoozedUntil - When the alarm should ring again
+ */
+export const scheduleSnoozeNotifications = async (
+  alarmId: string,
+  sentOutId: string,
+  snoozedUntil: Date
+): Promise<void> => {
+  await cancelRingingAlarmNotifications(alarmId);
+  await makeRoomForNotifications(NOTIFICATION_REPEATS);
+
+  for (let i = 0; i < NOTIFICATION_REPEATS; i++) {
+    const date = new Date(snoozedUntil);
+    date.setSeconds(date.getSeconds() + i * REPEAT_INTERVAL_SECONDS);
+
+    try {
+      await scheduleQueuedNotification(
+        {
+          identifier: `alarm-${alarmId}-snooze-${snoozedUntil.getTime()}-${i}`,
+          alarmId,
+          occurrenceKey: sentOutId,
+          occurrence: snoozedUntil,
+          repeatIndex: i,
+          date,
+        },
+        true
+      );
+    } catch (error) {
+      console.error(`Error scheduling snooze notification ${i}:`, error);
+    }
+  }
+};
+
+/**
+ * Register the alarm notification category with its Snooze action button
+ * Opens the app so the snooze can be recorded
+ */
+export const registerAlarmNotificationCategory = async (): Promise<void> => {
+  try {
+    await Notifications.setNotificationCategoryAsync(ALARM_CATEGORY_ID, [
+      {
+        identifier: SNOOZE_ACTION_ID,
+        buttonTitle: "Snooze",
+        options: { opensAppToForeground: true },
+      },
+    ]);
+  } catch (error) {
+    console.error("Error registering alarm notification category:", error);
+  }
 };
 
 /**
@@ -0,0 +1,204 @@
+/**
+ * Partner Service
+ *
+ * Accountability partners: someone who gets a push whenever the user fails
+ * an alarm challenge, and can see the user's streak (read-only).
+ *
+ * CONSENT:
+ * - The user creates an invite and shares its code or link
+ * - The partner accepts it; only then are they notified
+ * - Either side can revoke at any time, which stops notifications
+ *
+ * `partnerships` documents are written by Cloud Functions only; the app
+ * reads the ones it's part of and calls the functions below for changes.
+ */
+
+import * as Linking from "expo-linking";
+import {
+  getFirestore,
+  collection,
+  getDocs,
+  query,
+  where,
+} from "@react-native-firebase/firestore";
+import { getFunctions, httpsCallable } from "@react-native-firebase/functions";
+import { Streaks } from "@clockblocked/shared";
+
+export type PartnershipStatus = "pending" | "active" | "revoked";
+
+export type Partnership = {
+  id: string;
+  userId: string; // Held accountable
+  userName: string;
+  partnerId: string | null; // Notified of failures; null until accepted
+  partnerName: string | null;
+  inviteCode?: string; // Only while pending
+  status: PartnershipStatus;
+  expiresAt: Date; // Invite expiry
+};
+
+export type PartnerInvite = {
+  partnershipId: string;
+  inviteCode: string;
+  expiresAt: Date;
+};
+
+/**
+ * A user's partnerships that aren't revoked, from both sides
+ */
+export type UserPartnerships = {
+  partners: Partnership[]; // People notified when this user fails
+  partnering: Partnership[]; // Users this user is a partner of
+};
+
+export type PartnerStreaks = {
+  userName: string;
+  streaks: Streaks;
+  windowDays: number; // How many days of challenges the streaks cover
+};
+
+const PARTNERSHIPS_COLLECTION = "partnerships";
+
+const partnershipFromFirestore = (
+  id: string,
+  data: Record<string, any>
+): Partnership => ({
+  id,
+  userId: data.userId,
+  userName: data.userName,
+  partnerId: data.partnerId ?? null,
+  partnerName: data.partnerName ?? null,
+  inviteCode: data.inviteCode,
+  status: data.status,
+  expiresAt: data.expiresAt?.toDate(),
+});
+
+/**
+ * Link that opens the Partners screen with an invite's code filled in
+ */
+export const getPartnerInviteLink = (inviteCode: string): string =>
+  Linking.createURL("/partners", { queryParams: { code: inviteCode } });
+
+/**
+ * Get a user's partnerships (pending invites and active partners)
+ */
+export const getUserPartnerships = async (
+  userId: string
+): Promise<UserPartnerships> => {
+  try {
+    const db = getFirestore();
+    const [ownSnapshot, partnerSnapshot] = await Promise.all([
+      getDocs(
+        query(
+          collection(db, PARTNERSHIPS_COLLECTION),
+          where("userId", "==", userId)
+        )
+      ),
+      getDocs(
+        query(
+          collection(db, PARTNERSHIPS_COLLECTION),
+          where("partnerId", "==", userId)
+        )
+      ),
+    ]);
+
+    const toPartnerships = (snapshot: typeof ownSnapshot) => {
+      const partnerships: Partnership[] = [];
+      for (const partnershipDoc of snapshot.docs) {
+        const partnership = partnershipFromFirestore(
+          partnershipDoc.id,
+          partnershipDoc.data()
+        );
+        if (partnership.status !== "revoked") {
+          partnerships.push(partnership);
+        }
+      }
+      return partnerships;
+    };
+
+    return {
+      partners: toPartnerships(ownSnapshot),
+      partnering: toPartnerships(partnerSnapshot),
+    };
+  } catch (error) {
+    console.error("Error fetching partnerships:", error);
+    throw error;
+  }
+};
+
+/**
+ * Create an invite for a new accountability partner
+ * Invites expire after a week
+ */
+export const createPartnerInvite = async (): Promise<PartnerInvite> => {
+  try {
+    const create = httpsCallable<
+      void,
+      { partnershipId: string; inviteCode: string; expiresAt: number }
+    >(getFunctions(), "createPartnerInvite");
+    const { data } = await create();
+    return {
+      partnershipId: data.partnershipId,
+      inviteCode: data.inviteCode,
+      expiresAt: new Date(data.expiresAt),
+    };
+  } catch (error) {
+    console.error("Error creating partner invite:", error);
+    throw error;
+  }
+};
+
+/**
+ * Accept an invite by its code, becoming the inviter's partner
+ * @returns The inviter's name
+ */
+export const acceptPartnerInvite = async (code: string): Promise<string> => {
+  try {
+    const accept = httpsCallable<
+      { code: string },
+      { partnershipId: string; userName: string }
+    >(getFunctions(), "acceptPartnerInvite");
+    const { data } = await accept({ code });
+    return data.userName;
+  } catch (error) {
+    console.error("Error accepting partner invite:", error);
+    throw error;
+  }
+};
+
+/**
+ * End a partnership from either side, or cancel a pending invite
+ */
+export const revokePartnership = async (
+  partnershipId: string
+): Promise<void> => {
+  try {
+    const revoke = httpsCallable<{ partnershipId: string }, void>(
+      getFunctions(),
+      "revokePartnership"
+    );
+    await revoke({ partnershipId });
+  } catch (error) {
+    console.error("Error revoking partnership:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the streaks of a user the caller is an active partner of
+ */
+export const getPartnerStreaks = async (
+  partnershipId: string
+): Promise<PartnerStreaks> => {
+  try {
+    const get = httpsCallable<{ partnershipId: string }, PartnerStreaks>(
+      getFunctions(),
+      "getPartnerStreaks"
+    );
+    const { data } = await get({ partnershipId });
+    return data;
+  } catch (error) {
+    console.error("Error fetching partner streaks:", error);
+    throw error;
+  }
+};
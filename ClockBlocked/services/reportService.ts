@@ -0,0 +1,71 @@
+/**
+ * Report Service
+ *
+ * Reads the weekly accountability reports the generateWeeklyReports Cloud
+ * Function writes to `reports` every Monday, one per user and week. Their
+ * text comes from the shared renderWeeklyReport, the same as the push that
+ * announces them.
+ */
+
+import {
+  getFirestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+} from "@react-native-firebase/firestore";
+import { WeeklyReport } from "@clockblocked/shared";
+
+export type { WeeklyReport };
+
+const REPORTS_COLLECTION = "reports";
+
+/**
+ * Get all of a user's weekly reports, most recent week first
+ */
+export const getUserReports = async (
+  userId: string
+): Promise<(WeeklyReport & { id: string })[]> => {
+  try {
+    const db = getFirestore();
+    const q = query(
+      collection(db, REPORTS_COLLECTION),
+      where("userId", "==", userId)
+    );
+    const snapshot = await getDocs(q);
+
+    const reports: (WeeklyReport & { id: string })[] = [];
+    for (const reportDoc of snapshot.docs) {
+      reports.push({ ...(reportDoc.data() as WeeklyReport), id: reportDoc.id });
+    }
+    // Date keys sort chronologically as strings
+    return reports.sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+  } catch (error) {
+    console.error("Error fetching reports:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a single weekly report by ID
+ */
+export const getReport = async (
+  reportId: string
+): Promise<WeeklyReport | null> => {
+  try {
+    const db = getFirestore();
+    const docSnap = await getDoc(doc(db, REPORTS_COLLECTION, reportId));
+
+    const data = docSnap.exists() ? docSnap.data() : undefined;
+    if (!data) {
+      return null;
+    }
+
+    return data as WeeklyReport;
+  } catch (error) {
+    console.error("Error fetching report:", error);
+    throw error;
+  }
+};
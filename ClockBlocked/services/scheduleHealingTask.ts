@@ -0,0 +1,179 @@
+/**
+ * Schedule Healing Task
+ *
+ * Background fetch task that repairs the local notification queue while the
+ * app isn't opened.
+ *
+ * ON EVERY RUN:
+ * 1. Re-sync the queue with the user's alarms (re-creates missing
+ *    `alarm-<id>-...` notifications, removes orphaned ones)
+ * 2. Log occurrences since the previous run that never produced an
+ *    alarms_sent_out entry as missed ("failed", reason "missed")
+ *
+ * The task must be defined at module scope, so this file is imported from
+ * app/_layout.tsx before anything renders.
+ */
+
+import * as TaskManager from "expo-task-manager";
+import * as BackgroundFetch from "expo-background-fetch";
+import { getAuth } from "@react-native-firebase/auth";
+import {
+  getFirestore,
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp,
+} from "@react-native-firebase/firestore";
+import {
+  Alarm,
+  getUserAlarms,
+  getAlarmSentOutsSince,
+  logMissedAlarm,
+} from "./alarmService";
+import { getAlarmDatesBetween } from "@clockblocked/shared";
+import { syncAlarmSchedule } from "./notificationService";
+import { CHALLENGE_TIMEOUT_MINUTES } from "../constants";
+
+export const SCHEDULE_HEALING_TASK = "schedule-healing";
+
+// iOS and Android both treat this as a lower bound; the OS decides when the task runs
+const MINIMUM_INTERVAL_SECONDS = 15 * 60;
+// Never look back further than this for missed occurrences
+const MAX_LOOKBACK_DAYS = 7;
+// How early a notification tap can be logged relative to the occurrence
+const SENT_OUT_GRACE_MS = 60 * 1000;
+
+const CHALLENGE_TIMEOUT_MS = CHALLENGE_TIMEOUT_MINUTES * 60 * 1000;
+
+/**
+ * Log occurrences between the last healed time and `until` that have no
+ * alarms_sent_out entry
+ * @returns Number of missed occurrences logged
+ */
+const logMissedOccurrences = async (
+  userId: string,
+  alarms: Alarm[],
+  since: Date,
+  until: Date
+): Promise<number> => {
+  const sentOuts = await getAlarmSentOutsSince(
+    userId,
+    new Date(since.getTime() - SENT_OUT_GRACE_MS)
+  );
+
+  let missed = 0;
+  for (const alarm of alarms.filter((a) => a.isEnabled)) {
+    // Occurrences before the alarm existed can't have been missed
+    const start = alarm.createdAt > since ? alarm.createdAt : since;
+
+    for (const occurrence of getAlarmDatesBetween(alarm, start, until)) {
+      const windowStart = occurrence.getTime() - SENT_OUT_GRACE_MS;
+      const windowEnd = occurrence.getTime() + CHALLENGE_TIMEOUT_MS;
+      const wasSentOut = sentOuts.some(
+        (sentOut) =>
+          sentOut.alarmId === alarm.id &&
+          sentOut.sentAt.getTime() >= windowStart &&
+          sentOut.sentAt.getTime() <= windowEnd
+      );
+
+      if (!wasSentOut) {
+        await logMissedAlarm(userId, alarm, occurrence);
+        missed++;
+      }
+    }
+  }
+
+  return missed;
+};
+
+/**
+ * Heal the notification queue and log missed occurrences for a user
+ * Occurrences are only judged once their challenge window has closed, so an
+ * alarm that is ringing right now is never logged as missed.
+ */
+export const healAlarmSchedule = async (userId: string): Promise<void> => {
+  try {
+    const db = getFirestore();
+    const userRef = doc(db, "users", userId);
+    const userSnap = await getDoc(userRef);
+    const alarms = await getUserAlarms(userId);
+
+    const now = new Date();
+    const checkedUntil = new Date(now.getTime() - CHALLENGE_TIMEOUT_MS);
+    const oldestAllowed = new Date(
+      now.getTime() - MAX_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    );
+    const lastHealedAt: Date | undefined = userSnap
+      .data()
+      ?.scheduleHealedAt?.toDate();
+
+    // First run only establishes the starting point
+    if (lastHealedAt) {
+      const since = lastHealedAt > oldestAllowed ? lastHealedAt : oldestAllowed;
+      const missed = await logMissedOccurrences(
+        userId,
+        alarms,
+        since,
+        checkedUntil
+      );
+      if (missed > 0) {
+        console.log(`Logged ${missed} missed alarm occurrence(s)`);
+      }
+    }
+
+    await setDoc(
+      userRef,
+      { scheduleHealedAt: Timestamp.fromDate(checkedUntil) },
+      { merge: true }
+    );
+
+    await syncAlarmSchedule(alarms);
+  } catch (error) {
+    console.error("Error healing alarm schedule:", error);
+    throw error;
+  }
+};
+
+TaskManager.defineTask(SCHEDULE_HEALING_TASK, async () => {
+  const user = getAuth().currentUser;
+  if (!user) {
+    return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+
+  try {
+    await healAlarmSchedule(user.uid);
+    return BackgroundFetch.BackgroundFetchResult.NewData;
+  } catch {
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Register the healing task with the OS if background fetch is available
+ * Safe to call on every launch
+ */
+export const registerScheduleHealingTask = async (): Promise<void> => {
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      console.warn("Background fetch unavailable; schedule healing disabled");
+      return;
+    }
+
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(
+      SCHEDULE_HEALING_TASK
+    );
+    if (isRegistered) {
+      return;
+    }
+
+    await BackgroundFetch.registerTaskAsync(SCHEDULE_HEALING_TASK, {
+      minimumInterval: MINIMUM_INTERVAL_SECONDS,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+    console.log("Registered schedule healing task");
+  } catch (error) {
+    console.error("Error registering schedule healing task:", error);
+  }
+};
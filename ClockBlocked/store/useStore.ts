@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import { signOut, User } from "../firebase/auth";
+import { SerializedChallenge } from "../challenges/types";
 
 type AuthState = {
   user: User | null;
@@ -10,14 +11,14 @@ type AuthState = {
   reset: () => void;
   // Alarm verification modal state
   activeAlarmId: string | null;
-  activeAlarmPhrase: string | null;
-  alarmStartTime: Date | null;
+  activeChallenge: SerializedChallenge | null;
+  challengeExpiresAt: Date | null; // When the challenge times out
   sentOutId: string | null; // ID of the alarms_sent_out document
   setActiveAlarm: (
     alarmId: string,
-    phrase: string,
+    challenge: SerializedChallenge,
     sentOutId: string,
-    startTime?: Date
+    expiresAt: Date
   ) => void;
   clearActiveAlarm: () => void;
 };
@@ -27,8 +28,8 @@ export const useStore = create<AuthState>((set, get) => ({
   isLoggedIn: false,
   isLoading: false,
   activeAlarmId: null,
-  activeAlarmPhrase: null,
-  alarmStartTime: null,
+  activeChallenge: null,
+  challengeExpiresAt: null,
   sentOutId: null,
 
   setLoading: (loading: boolean) => set({ isLoading: loading }),
@@ -45,29 +46,29 @@ export const useStore = create<AuthState>((set, get) => ({
       isLoggedIn: false,
       isLoading: false,
       activeAlarmId: null,
-      activeAlarmPhrase: null,
-      alarmStartTime: null,
+      activeChallenge: null,
+      challengeExpiresAt: null,
       sentOutId: null,
     }),
 
   setActiveAlarm: (
     alarmId: string,
-    phrase: string,
+    challenge: SerializedChallenge,
     sentOutId: string,
-    startTime?: Date
+    expiresAt: Date
   ) =>
     set({
       activeAlarmId: alarmId,
-      activeAlarmPhrase: phrase,
-      alarmStartTime: startTime || new Date(),
+      activeChallenge: challenge,
+      challengeExpiresAt: expiresAt,
       sentOutId,
     }),
 
   clearActiveAlarm: () =>
     set({
       activeAlarmId: null,
-      activeAlarmPhrase: null,
-      alarmStartTime: null,
+      activeChallenge: null,
+      challengeExpiresAt: null,
       sentOutId: null,
     }),
 }));
@@ -1,3 +1,8 @@
+import {
+  AlarmRecurrence,
+  createWeeklyRecurrence,
+  getWeeklyInterval,
+} from "@clockblocked/shared";
 import { DAYS } from "@/constants";
 
 /**
@@ -21,3 +26,113 @@ export const formatDays = (selectedDays: number[]): string => {
     .map((idx) => DAYS[idx])
     .join(", ");
 };
+
+/**
+ * Format a local date as a calendar date key ("YYYY-MM-DD")
+ */
+export const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Local Date for a calendar date key ("YYYY-MM-DD") at the given time
+ */
+export const fromDateKey = (
+  dateKey: string,
+  hours: number = 0,
+  minutes: number = 0
+): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day, hours, minutes, 0, 0);
+};
+
+/**
+ * Keep a weekly recurrence's days in step with the selected repeat days
+ * Any other kind of rule is dropped, as picking days replaces it
+ */
+export const setRecurrenceWeekdays = (
+  recurrence: AlarmRecurrence | null,
+  selectedDays: number[]
+): AlarmRecurrence | null => {
+  const interval = recurrence && getWeeklyInterval(recurrence);
+  return recurrence && interval
+    ? createWeeklyRecurrence(
+        selectedDays,
+        interval,
+        recurrence.startDate,
+        recurrence.exceptionDates
+      )
+    : null;
+};
+
+/**
+ * Check an alarm's repeat days / one-off date before saving
+ * @returns An error message, or null if the schedule is valid
+ */
+export const validateAlarmSchedule = (
+  selectedDays: number[],
+  date: string | null,
+  recurrence: AlarmRecurrence | null,
+  hours: number,
+  minutes: number
+): string | null => {
+  if (date) {
+    return fromDateKey(date, hours, minutes) <= new Date()
+      ? "That date and time has already passed"
+      : null;
+  }
+  // Weekly rules still list their days in selectedDays; other rules don't
+  if (recurrence && getWeeklyInterval(recurrence) === null) {
+    return null;
+  }
+  return selectedDays.length === 0
+    ? "Please select at least one day or a date for the alarm"
+    : null;
+};
+
+/**
+ * Format a day as a short date (e.g. "Mon, Oct 26")
+ * @param timeZone - Zone to read the day in, the device's by default
+ */
+export const formatShortDate = (date: Date, timeZone?: string): string => {
+  return date.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone,
+  });
+};
+
+/**
+ * Format a duration in milliseconds (e.g. "45s", "2m 14s", "1h 3m")
+ */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+/**
+ * Format a stake in minor units (e.g. 500, "USD") as a currency string ("$5.00")
+ */
+export const formatStake = (amount: number, currency: string): string => {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+  }).format(amount / 100);
+};
+
+/**
+ * Get the device's IANA time zone (e.g. "America/New_York")
+ */
+export const getDeviceTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
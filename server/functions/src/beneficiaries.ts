@@ -0,0 +1,119 @@
+// Recipient mapping: forfeited stakes go to the cause that opposes the
+// user's own stance on an issue they answered during account setup.
+
+// Must match QUESTIONS in the app's constants (question id → option label)
+export type IssueId = "abortion" | "guns" | "police";
+
+export type Beneficiary = {
+  id: string;
+  name: string;
+  issue: IssueId;
+};
+
+// How a user's donations are spread across the issues they answered
+export type DonationStrategy = "rotate" | "weighted";
+
+const DEFAULT_STRATEGY: DonationStrategy = "rotate";
+
+// Stance (the option the user picked) → beneficiary on the opposing side
+const OPPOSING_BENEFICIARIES: Record<IssueId, Record<string, Beneficiary>> = {
+  abortion: {
+    "👶 Pro-Life": {
+      id: "pro-choice-fund",
+      name: "Pro-Choice Advocacy Fund",
+      issue: "abortion",
+    },
+    "⚖️ Pro-Choice": {
+      id: "pro-life-fund",
+      name: "Pro-Life Advocacy Fund",
+      issue: "abortion",
+    },
+  },
+  guns: {
+    "🔫 Pro-2A": {
+      id: "gun-control-fund",
+      name: "Gun Control Advocacy Fund",
+      issue: "guns",
+    },
+    "🚫 Anti-2A": {
+      id: "gun-rights-fund",
+      name: "Gun Rights Advocacy Fund",
+      issue: "guns",
+    },
+  },
+  police: {
+    "🚔 Back the Blue": {
+      id: "police-reform-fund",
+      name: "Police Reform Advocacy Fund",
+      issue: "police",
+    },
+    "✊🏿 Defund the Police": {
+      id: "police-support-fund",
+      name: "Police Support Fund",
+      issue: "police",
+    },
+  },
+};
+
+const ISSUES = Object.keys(OPPOSING_BENEFICIARIES) as IssueId[];
+
+export type BeneficiaryPreferences = {
+  answers?: Record<string, string>;
+  donationStrategy?: DonationStrategy;
+  issueWeights?: Partial<Record<IssueId, number>>; // Only used by "weighted"
+};
+
+// Beneficiaries opposing each stance the user answered, in issue order
+export const getOpposingBeneficiaries = (
+  answers: Record<string, string> = {}
+): Beneficiary[] =>
+  ISSUES.map((issue) => OPPOSING_BENEFICIARIES[issue][answers[issue]]).filter(
+    Boolean
+  );
+
+// Deterministic value in [0, 1) for a string, so re-running a selection
+// for the same penalty always picks the same beneficiary
+const hashToUnit = (key: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 2 ** 32;
+};
+
+/**
+ * Pick the beneficiary for one forfeited penalty.
+ * - "rotate": cycles through the user's issues, using `rotationIndex`
+ *   (the number of donations the user has made so far)
+ * - "weighted": picks an issue at random, proportional to `issueWeights`
+ *   (missing weights count as 1), seeded by `selectionKey`
+ * Returns null if the user didn't answer any question.
+ */
+export const selectBeneficiary = (
+  preferences: BeneficiaryPreferences,
+  rotationIndex: number,
+  selectionKey: string
+): Beneficiary | null => {
+  const candidates = getOpposingBeneficiaries(preferences.answers);
+  if (candidates.length === 0) return null;
+
+  const strategy = preferences.donationStrategy || DEFAULT_STRATEGY;
+
+  if (strategy === "weighted") {
+    const weights = candidates.map((candidate) =>
+      Math.max(0, preferences.issueWeights?.[candidate.issue] ?? 1)
+    );
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    if (total > 0) {
+      let target = hashToUnit(selectionKey) * total;
+      for (let i = 0; i < candidates.length; i++) {
+        target -= weights[i];
+        if (target < 0) return candidates[i];
+      }
+    }
+  }
+
+  return candidates[rotationIndex % candidates.length];
+};
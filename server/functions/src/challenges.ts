@@ -0,0 +1,421 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import {
+  alarmFromFirestore,
+  ChallengeType,
+  DEFAULT_CHALLENGE_TYPE,
+  DEFAULT_SNOOZE_DELAY_MINUTES,
+  getKeyedOccurrence,
+  SnoozeCost,
+} from "@clockblocked/shared";
+
+// Expected answers live here, keyed by alarms_sent_out id.
+// Firestore rules deny all client access to this collection.
+const CHALLENGE_ANSWERS_COLLECTION = "challenge_answers";
+
+// Challenges still pending after this long are failed by sweepPendingChallenges.
+// Matches the countdown in the app's AlarmVerificationModal.
+export const CHALLENGE_TIMEOUT_MINUTES = 15;
+
+// Snoozing: each snooze costs more than the last, up to MAX_SNOOZES
+const MAX_SNOOZES = 3;
+// "shorten_window": the nth snooze takes n * this off the remaining window
+const SNOOZE_WINDOW_CUT_MINUTES = 2;
+// "add_stake": the nth snooze adds n * this fraction of the alarm's stake
+const SNOOZE_STAKE_STEP = 0.25;
+// A snoozed challenge always gets at least this long once the alarm rings again
+const MIN_WINDOW_MS = 60 * 1000;
+
+type ChallengeGenerator = {
+  // Returns the payload shown to the user and the answer kept on the server
+  generate: () => { payload: string; answer: string };
+  validate: (answer: string, submission: string) => boolean;
+};
+
+type ChallengeAnswer = {
+  userId: string;
+  type: ChallengeType;
+  payload: string;
+  answer: string;
+  createdAt: admin.firestore.Timestamp;
+};
+
+const MOTIVATIONAL_PHRASES = [
+  "I am unstoppable",
+  "I am capable of achieving anything",
+  "I am focused and determined",
+  "I am ready to conquer today",
+  "I am strong and resilient",
+  "I am in control of my destiny",
+  "I am worthy of success",
+  "I am grateful for this new day",
+  "I am energized and motivated",
+  "I am confident in my abilities",
+  "I am committed to my goals",
+  "I am making progress every day",
+  "I am choosing positivity today",
+  "I am powerful beyond measure",
+  "I am creating my own opportunities",
+  "I am disciplined and focused",
+  "I am rising above challenges",
+  "I am becoming my best self",
+  "I am taking charge of my life",
+  "I am worthy of greatness",
+  "I am embracing this moment",
+  "I am building my future now",
+  "I am stronger than my excuses",
+  "I am committed to excellence",
+  "I am ready to make it happen",
+];
+
+const normalize = (str: string) =>
+  str
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s]/g, "");
+
+const phraseChallenge: ChallengeGenerator = {
+  generate: () => {
+    const phrase =
+      MOTIVATIONAL_PHRASES[
+        Math.floor(Math.random() * MOTIVATIONAL_PHRASES.length)
+      ];
+    return { payload: JSON.stringify({ phrase }), answer: phrase };
+  },
+  validate: (answer, submission) => {
+    const target = normalize(answer);
+    const userInput = normalize(submission);
+
+    // Exact match
+    if (target === userInput) return true;
+
+    // Fuzzy match: accept if 80% of words match (allows for speech-to-text errors)
+    const targetWords = target.split(/\s+/);
+    const inputWords = userInput.split(/\s+/);
+    const matchedWords = targetWords.filter((word) =>
+      inputWords.includes(word)
+    ).length;
+
+    return matchedWords / targetWords.length >= 0.8;
+  },
+};
+
+const CHALLENGE_GENERATORS: Record<ChallengeType, ChallengeGenerator> = {
+  phrase: phraseChallenge,
+};
+
+const getChallengeGenerator = (type?: string): ChallengeGenerator =>
+  CHALLENGE_GENERATORS[type as ChallengeType] || CHALLENGE_GENERATORS.phrase;
+
+// When a pending challenge fails: sentAt + timeout, unless a snooze moved it
+export const getChallengeExpiry = (
+  sentOut: admin.firestore.DocumentData
+): number =>
+  sentOut.expiresAt
+    ? sentOut.expiresAt.toMillis()
+    : sentOut.sentAt.toMillis() + CHALLENGE_TIMEOUT_MINUTES * 60 * 1000;
+
+// Load an alarms_sent_out entry and make sure it belongs to the caller
+async function getOwnedSentOut(
+  sentOutId: string,
+  uid: string
+): Promise<admin.firestore.DocumentSnapshot> {
+  const sentOutDoc = await admin
+    .firestore()
+    .collection("alarms_sent_out")
+    .doc(sentOutId)
+    .get();
+
+  if (!sentOutDoc.exists || sentOutDoc.data().userId !== uid) {
+    throw new HttpsError("not-found", `Challenge ${sentOutId} not found`);
+  }
+
+  return sentOutDoc;
+}
+
+// Challenges can't be issued or answered before their occurrence is due.
+// The app writes scheduledFor itself, so the occurrence is worked out from
+// the alarm and the date in the entry's key. Entries without a key (test
+// pushes, older app versions) or whose alarm is gone fall back to
+// scheduledFor.
+function assertOccurrenceDue(
+  sentOutId: string,
+  sentOut: admin.firestore.DocumentData,
+  alarmDoc: admin.firestore.DocumentSnapshot
+): void {
+  let dueAt = sentOut.scheduledFor?.toMillis() ?? null;
+  if (sentOut.occurrenceKey && alarmDoc.exists) {
+    const occurrence = getKeyedOccurrence(
+      alarmFromFirestore(alarmDoc.id, alarmDoc.data()),
+      sentOut.occurrenceKey
+    );
+    if (!occurrence) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} isn't an occurrence of its alarm`
+      );
+    }
+    dueAt = occurrence.getTime();
+  }
+
+  if (dueAt !== null && dueAt > Date.now()) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Challenge ${sentOutId} isn't due yet`
+    );
+  }
+}
+
+// Issue (or re-issue) the challenge for a pending alarms_sent_out entry.
+// The expected answer is stored server-side; only the payload is returned.
+export const issueChallenge = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to receive a challenge");
+  }
+
+  const sentOutId = request.data?.sentOutId;
+  if (!sentOutId) {
+    throw new HttpsError("invalid-argument", "Missing sentOutId");
+  }
+
+  const sentOutDoc = await getOwnedSentOut(sentOutId, request.auth.uid);
+  const sentOut = sentOutDoc.data();
+
+  if (sentOut.challengeStatus !== "pending") {
+    throw new HttpsError(
+      "failed-precondition",
+      `Challenge ${sentOutId} is already ${sentOut.challengeStatus}`
+    );
+  }
+
+  const answerRef = admin
+    .firestore()
+    .collection(CHALLENGE_ANSWERS_COLLECTION)
+    .doc(sentOutId);
+
+  const alarmDoc = await admin
+    .firestore()
+    .collection("alarms")
+    .doc(sentOut.alarmId)
+    .get();
+  assertOccurrenceDue(sentOutId, sentOut, alarmDoc);
+  const type: ChallengeType =
+    alarmDoc.data()?.challengeType || DEFAULT_CHALLENGE_TYPE;
+
+  // Reuse an already issued challenge so a restored modal shows the same one
+  const challenge = await admin.firestore().runTransaction(async (tx) => {
+    const existing = await tx.get(answerRef);
+    if (existing.exists) {
+      const stored = existing.data() as ChallengeAnswer;
+      return { type: stored.type, payload: stored.payload };
+    }
+
+    const { payload, answer } = getChallengeGenerator(type).generate();
+    tx.set(answerRef, {
+      userId: request.auth.uid,
+      type,
+      payload,
+      answer,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { type, payload };
+  });
+
+  logger.info(`Issued ${challenge.type} challenge for ${sentOutId}`);
+  return {
+    ...challenge,
+    attemptsMade: sentOut.attemptsMade || 0,
+    expiresAt: getChallengeExpiry(sentOut),
+    snoozedUntil: sentOut.snoozedUntil?.toMillis() ?? null,
+  };
+});
+
+// Validate a submission against the stored answer.
+// This is the only path that can move a challenge to "success".
+export const submitChallenge = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to submit a challenge");
+  }
+
+  const { sentOutId, answer } = request.data || {};
+  if (!sentOutId || typeof answer !== "string") {
+    throw new HttpsError("invalid-argument", "Missing sentOutId or answer");
+  }
+
+  const initial = (await getOwnedSentOut(sentOutId, request.auth.uid)).data();
+
+  const db = admin.firestore();
+  const sentOutRef = db.collection("alarms_sent_out").doc(sentOutId);
+  const answerRef = db.collection(CHALLENGE_ANSWERS_COLLECTION).doc(sentOutId);
+  const alarmRef = db.collection("alarms").doc(initial.alarmId);
+
+  const result = await db.runTransaction(async (tx) => {
+    const [sentOutDoc, answerDoc, alarmDoc] = await Promise.all([
+      tx.get(sentOutRef),
+      tx.get(answerRef),
+      tx.get(alarmRef),
+    ]);
+    const sentOut = sentOutDoc.data();
+
+    if (sentOut.challengeStatus !== "pending") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} is already ${sentOut.challengeStatus}`
+      );
+    }
+    assertOccurrenceDue(sentOutId, sentOut, alarmDoc);
+    // sweepPendingChallenges only fails it every few minutes
+    if (Date.now() >= getChallengeExpiry(sentOut)) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} has expired`
+      );
+    }
+    if (!answerDoc.exists) {
+      throw new HttpsError(
+        "failed-precondition",
+        `No challenge issued for ${sentOutId}`
+      );
+    }
+
+    const stored = answerDoc.data() as ChallengeAnswer;
+    const success = getChallengeGenerator(stored.type).validate(
+      stored.answer,
+      answer
+    );
+    const attemptsMade = (sentOut.attemptsMade || 0) + 1;
+
+    tx.update(
+      sentOutRef,
+      success
+        ? {
+            challengeStatus: "success",
+            completedAt: admin.firestore.FieldValue.serverTimestamp(),
+            attemptsMade,
+          }
+        : { attemptsMade }
+    );
+
+    return { success, attemptsMade };
+  });
+
+  logger.info(
+    `Challenge ${sentOutId} attempt ${result.attemptsMade}: ${
+      result.success ? "success" : "incorrect"
+    }`
+  );
+  return result;
+});
+
+// Snooze a pending challenge. The app re-rings the alarm at snoozedUntil;
+// each snooze either shortens the remaining window or adds to the stake,
+// depending on the alarm's snoozeCost.
+export const snoozeChallenge = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to snooze");
+  }
+
+  const sentOutId = request.data?.sentOutId;
+  if (!sentOutId) {
+    throw new HttpsError("invalid-argument", "Missing sentOutId");
+  }
+
+  const initial = (await getOwnedSentOut(sentOutId, request.auth.uid)).data();
+
+  const db = admin.firestore();
+  const sentOutRef = db.collection("alarms_sent_out").doc(sentOutId);
+  const alarmRef = db.collection("alarms").doc(initial.alarmId);
+
+  const result = await db.runTransaction(async (tx) => {
+    const [sentOutDoc, alarmDoc] = await Promise.all([
+      tx.get(sentOutRef),
+      tx.get(alarmRef),
+    ]);
+    const sentOut = sentOutDoc.data();
+    const alarm = alarmDoc.data() || {};
+    const now = Date.now();
+
+    if (sentOut.challengeStatus !== "pending") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} is already ${sentOut.challengeStatus}`
+      );
+    }
+    if (sentOut.snoozedUntil && sentOut.snoozedUntil.toMillis() > now) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} is already snoozed`
+      );
+    }
+
+    const snoozeCount = (sentOut.snoozeCount || 0) + 1;
+    if (snoozeCount > MAX_SNOOZES) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} can't be snoozed again`
+      );
+    }
+
+    const remaining = getChallengeExpiry(sentOut) - now;
+    if (remaining <= 0) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Challenge ${sentOutId} has expired`
+      );
+    }
+
+    // Adding to the stake only makes sense if there is one. The occurrence's
+    // stake snapshot is what its penalty charges.
+    const { stakeAmount, stakeCurrency } =
+      "stakeAmount" in sentOut ? sentOut : alarm;
+    const cost: SnoozeCost =
+      alarm.snoozeCost === "add_stake" && stakeAmount
+        ? "add_stake"
+        : "shorten_window";
+    const windowCutMinutes =
+      cost === "shorten_window" ? SNOOZE_WINDOW_CUT_MINUTES * snoozeCount : 0;
+    const stakeSurcharge =
+      cost === "add_stake"
+        ? Math.round(stakeAmount * SNOOZE_STAKE_STEP * snoozeCount)
+        : 0;
+
+    const delayMinutes =
+      alarm.snoozeDelayMinutes || DEFAULT_SNOOZE_DELAY_MINUTES;
+    const snoozedUntil = now + delayMinutes * 60 * 1000;
+    const expiresAt =
+      snoozedUntil +
+      Math.max(MIN_WINDOW_MS, remaining - windowCutMinutes * 60 * 1000);
+
+    tx.update(sentOutRef, {
+      snoozeCount,
+      snoozedUntil: admin.firestore.Timestamp.fromMillis(snoozedUntil),
+      expiresAt: admin.firestore.Timestamp.fromMillis(expiresAt),
+      stakeSurcharge: admin.firestore.FieldValue.increment(stakeSurcharge),
+      snoozes: admin.firestore.FieldValue.arrayUnion({
+        snoozedAt: admin.firestore.Timestamp.fromMillis(now),
+        snoozedUntil: admin.firestore.Timestamp.fromMillis(snoozedUntil),
+        cost,
+        windowCutMinutes,
+        stakeSurcharge,
+      }),
+    });
+
+    return {
+      snoozeCount,
+      snoozedUntil,
+      expiresAt,
+      cost,
+      windowCutMinutes,
+      stakeSurcharge,
+      stakeCurrency: stakeCurrency || null,
+    };
+  });
+
+  logger.info(
+    `Snoozed ${sentOutId} (#${result.snoozeCount}, ${result.cost}) until ${new Date(
+      result.snoozedUntil
+    ).toISOString()}`
+  );
+  return result;
+});
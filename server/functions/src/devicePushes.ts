@@ -0,0 +1,94 @@
+import * as admin from "firebase-admin";
+import * as logger from "firebase-functions/logger";
+import {
+  chunk,
+  EXPO_PUSH_CHUNK_SIZE,
+  ExpoPushMessage,
+  getExpoPushClient,
+  withPushRetry,
+} from "./push.js";
+import { PushSend, recordPushTickets } from "./pushReceipts.js";
+
+// A push for every registered device of a user
+export type UserPush = {
+  userId: string;
+  message: Omit<ExpoPushMessage, "to">;
+};
+
+// Firestore "in" queries accept at most 30 values
+const DEVICE_QUERY_CHUNK_SIZE = 30;
+
+// Each push for every registered device of its user; a user can have
+// several pushes in one batch. Devices are looked up 30 users at a time (the
+// limit of an "in" query).
+export async function getUserPushSends(
+  pushes: UserPush[]
+): Promise<PushSend[]> {
+  const pushesByUser = new Map<string, UserPush[]>();
+  for (const push of pushes) {
+    const userPushes = pushesByUser.get(push.userId) || [];
+    userPushes.push(push);
+    pushesByUser.set(push.userId, userPushes);
+  }
+  const userIds = [...pushesByUser.keys()];
+  const sends: PushSend[] = [];
+
+  for (const userIdChunk of chunk(userIds, DEVICE_QUERY_CHUNK_SIZE)) {
+    const devicesSnapshot = await admin
+      .firestore()
+      .collectionGroup("devices")
+      .where("userId", "in", userIdChunk)
+      .get();
+
+    for (const deviceDoc of devicesSnapshot.docs) {
+      const { userId, expoPushToken } = deviceDoc.data();
+      if (!expoPushToken) continue;
+
+      for (const { message } of pushesByUser.get(userId) || []) {
+        sends.push({
+          userId,
+          deviceId: deviceDoc.id,
+          message: { ...message, to: expoPushToken },
+        });
+      }
+    }
+  }
+
+  const usersWithDevices = new Set(sends.map(({ userId }) => userId));
+  for (const userId of userIds) {
+    if (!usersWithDevices.has(userId)) {
+      logger.warn(`No registered devices for user ${userId}`);
+    }
+  }
+  return sends;
+}
+
+// Send each push to every device of its user, 100 messages per Expo request.
+// A request that still fails after retries is logged and skipped so the rest
+// still go out. `kind` only labels the logs ("alarm", "report", ...).
+export async function sendUserPushes(
+  pushes: UserPush[],
+  kind: string
+): Promise<void> {
+  const sends = await getUserPushSends(pushes);
+  let sentCount = 0;
+
+  for (const sendChunk of chunk(sends, EXPO_PUSH_CHUNK_SIZE)) {
+    try {
+      const tickets = await withPushRetry(() =>
+        getExpoPushClient().sendPushNotifications(
+          sendChunk.map(({ message }) => message)
+        )
+      );
+      await recordPushTickets(sendChunk, tickets);
+      sentCount += sendChunk.length;
+    } catch (error) {
+      logger.error(`Error sending ${sendChunk.length} ${kind} pushes:`, error);
+    }
+  }
+
+  const userCount = new Set(pushes.map(({ userId }) => userId)).size;
+  logger.info(
+    `Sent ${sentCount} of ${sends.length} ${kind} pushes to ${userCount} users`
+  );
+}
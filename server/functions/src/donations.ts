@@ -0,0 +1,298 @@
+import * as admin from "firebase-admin";
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { selectBeneficiary } from "./beneficiaries.js";
+import {
+  cancelGroupCredits,
+  GROUP_CREDITS_COLLECTION,
+  GroupCredit,
+  splitGroupForfeit,
+} from "./groups.js";
+
+// One donation per forfeited (charged) penalty, keyed by penalty id.
+// pending → batched (into a payout), or pending → cancelled (penalty refunded)
+const DONATIONS_COLLECTION = "donations";
+// One payout per beneficiary (or group member), currency and month
+const PAYOUTS_COLLECTION = "payouts";
+
+// Firestore allows 500 writes per batch; one slot is kept for the payout
+const MAX_ENTRIES_PER_BATCH = 499;
+
+export type DonationStatus = "pending" | "batched" | "cancelled";
+
+export type Donation = {
+  userId: string;
+  penaltyId: string;
+  beneficiaryId: string;
+  beneficiaryName: string;
+  issue: string;
+  amount: number; // Minor units
+  currency: string;
+  status: DonationStatus;
+  payoutId?: string;
+  createdAt: admin.firestore.Timestamp;
+};
+
+// Keep the donation in step with its penalty:
+// charged → record a donation, refunded → cancel it if not paid out yet.
+// A group alarm's penalty goes to the members who woke up instead, if the
+// group splits forfeits.
+export const syncDonationWithPenalty = onDocumentUpdated(
+  "penalties/{penaltyId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before || !after || before.status === after.status) {
+      return;
+    }
+
+    const penaltyId = event.params.penaltyId;
+    // A rejected refund moves the penalty back to charged; that's not a
+    // new charge to donate
+    if (before.status === "pending" && after.status === "charged") {
+      if (!(await splitGroupForfeit(penaltyId, after))) {
+        await recordDonation(penaltyId, after);
+      }
+    } else if (after.status === "refunded") {
+      await cancelDonation(penaltyId);
+      await cancelGroupCredits(penaltyId);
+    }
+  }
+);
+
+// Batch last month's pending donations into one payout per beneficiary
+// and currency, and pending group credits into one per member and currency.
+// Safe to re-run: only pending entries are picked up.
+export const aggregateMonthlyPayouts = onSchedule(
+  {
+    schedule: "0 3 1 * *",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    maxInstances: 1,
+  },
+  async (event): Promise<void> => {
+    const now = new Date();
+    const periodEnd = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+    );
+    const periodStart = new Date(periodEnd);
+    periodStart.setUTCMonth(periodStart.getUTCMonth() - 1);
+    const period = periodStart.toISOString().slice(0, 7); // "YYYY-MM"
+
+    const pendingBefore = (collection: string) =>
+      admin
+        .firestore()
+        .collection(collection)
+        .where("status", "==", "pending")
+        .where("createdAt", "<", admin.firestore.Timestamp.fromDate(periodEnd))
+        .get();
+
+    try {
+      const [donationsSnapshot, creditsSnapshot] = await Promise.all([
+        pendingBefore(DONATIONS_COLLECTION),
+        pendingBefore(GROUP_CREDITS_COLLECTION),
+      ]);
+
+      logger.info(
+        `Found ${donationsSnapshot.size} pending donations and ${creditsSnapshot.size} pending group credits for ${period}`
+      );
+
+      // Group donations by beneficiary and currency
+      const donationGroups = groupByPayout(donationsSnapshot.docs, (doc) => {
+        const donation = doc.data() as Donation;
+        return `${period}_${donation.beneficiaryId}_${donation.currency}`;
+      });
+      for (const [payoutId, docs] of donationGroups) {
+        const first = docs[0].data() as Donation;
+        const batchedCount = await batchIntoPayout(
+          payoutId,
+          docs,
+          {
+            period,
+            beneficiaryId: first.beneficiaryId,
+            beneficiaryName: first.beneficiaryName,
+            currency: first.currency,
+          },
+          "donationCount"
+        );
+        logger.info(
+          `Payout ${payoutId}: ${batchedCount} donations to ${first.beneficiaryName}`
+        );
+      }
+
+      // Group credits by member and currency
+      const creditGroups = groupByPayout(creditsSnapshot.docs, (doc) => {
+        const credit = doc.data() as GroupCredit;
+        return `${period}_member_${credit.userId}_${credit.currency}`;
+      });
+      for (const [payoutId, docs] of creditGroups) {
+        const first = docs[0].data() as GroupCredit;
+        const batchedCount = await batchIntoPayout(
+          payoutId,
+          docs,
+          {
+            period,
+            userId: first.userId,
+            currency: first.currency,
+          },
+          "creditCount"
+        );
+        logger.info(
+          `Payout ${payoutId}: ${batchedCount} group credits to ${first.userId}`
+        );
+      }
+
+      logger.info(
+        `Created or updated ${donationGroups.size + creditGroups.size} payouts for ${period}`
+      );
+    } catch (error) {
+      logger.error("Error aggregating monthly payouts:", error);
+      throw error;
+    }
+  }
+);
+
+// Group pending entries by the payout they go into
+function groupByPayout(
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  getPayoutId: (doc: admin.firestore.QueryDocumentSnapshot) => string
+): Map<string, admin.firestore.QueryDocumentSnapshot[]> {
+  const groups = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+  docs.forEach((doc) => {
+    const payoutId = getPayoutId(doc);
+    groups.set(payoutId, [...(groups.get(payoutId) || []), doc]);
+  });
+  return groups;
+}
+
+// Move pending donations or group credits and their total into a payout.
+// Each chunk is moved atomically. The entries are re-read in the
+// transaction, since a refund may have cancelled one since the query.
+// @returns How many entries were batched
+async function batchIntoPayout(
+  payoutId: string,
+  docs: admin.firestore.QueryDocumentSnapshot[],
+  payout: Record<string, string>,
+  countField: "donationCount" | "creditCount"
+): Promise<number> {
+  const payoutRef = admin
+    .firestore()
+    .collection(PAYOUTS_COLLECTION)
+    .doc(payoutId);
+
+  let batchedCount = 0;
+  for (let i = 0; i < docs.length; i += MAX_ENTRIES_PER_BATCH) {
+    const chunkRefs = docs
+      .slice(i, i + MAX_ENTRIES_PER_BATCH)
+      .map((doc) => doc.ref);
+
+    batchedCount += await admin.firestore().runTransaction(async (tx) => {
+      const pending = (await tx.getAll(...chunkRefs)).filter(
+        (doc) => doc.data()?.status === "pending"
+      );
+      if (pending.length === 0) {
+        return 0;
+      }
+
+      const chunkAmount = pending.reduce(
+        (sum, doc) => sum + (doc.data()?.amount as number),
+        0
+      );
+      tx.set(
+        payoutRef,
+        {
+          ...payout,
+          amount: admin.firestore.FieldValue.increment(chunkAmount),
+          [countField]: admin.firestore.FieldValue.increment(pending.length),
+          status: "pending",
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      pending.forEach((doc) =>
+        tx.update(doc.ref, { status: "batched", payoutId })
+      );
+      return pending.length;
+    });
+  }
+  return batchedCount;
+}
+
+// Create the donation for a charged penalty and advance the user's rotation
+async function recordDonation(
+  penaltyId: string,
+  penalty: admin.firestore.DocumentData
+): Promise<void> {
+  const db = admin.firestore();
+  const userRef = db.collection("users").doc(penalty.userId);
+  const donationRef = db.collection(DONATIONS_COLLECTION).doc(penaltyId);
+
+  const donation = await db.runTransaction(async (tx) => {
+    const [userDoc, existing] = await Promise.all([
+      tx.get(userRef),
+      tx.get(donationRef),
+    ]);
+    if (existing.exists) {
+      return null;
+    }
+
+    const user = userDoc.data() || {};
+    const beneficiary = selectBeneficiary(
+      user,
+      user.donationCount || 0,
+      penaltyId
+    );
+    if (!beneficiary) {
+      logger.warn(
+        `User ${penalty.userId} has no stances; no beneficiary for ${penaltyId}`
+      );
+      return null;
+    }
+
+    tx.set(donationRef, {
+      userId: penalty.userId,
+      penaltyId,
+      beneficiaryId: beneficiary.id,
+      beneficiaryName: beneficiary.name,
+      issue: beneficiary.issue,
+      amount: penalty.amount,
+      currency: penalty.currency,
+      status: "pending",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    tx.set(
+      userRef,
+      { donationCount: admin.firestore.FieldValue.increment(1) },
+      { merge: true }
+    );
+    return beneficiary;
+  });
+
+  if (donation) {
+    logger.info(`Donation ${penaltyId} goes to ${donation.name}`);
+  }
+}
+
+// Cancel the donation for a refunded penalty unless it was already paid out
+async function cancelDonation(penaltyId: string): Promise<void> {
+  const donationRef = admin
+    .firestore()
+    .collection(DONATIONS_COLLECTION)
+    .doc(penaltyId);
+
+  const cancelled = await admin.firestore().runTransaction(async (tx) => {
+    const donationDoc = await tx.get(donationRef);
+    if (donationDoc.data()?.status !== "pending") {
+      return false;
+    }
+    tx.update(donationRef, { status: "cancelled" });
+    return true;
+  });
+
+  logger.info(
+    cancelled
+      ? `Cancelled donation ${penaltyId}`
+      : `Donation ${penaltyId} not cancellable (missing or already batched)`
+  );
+}
@@ -0,0 +1,522 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  alarmSentOutConverter,
+  buildLeaderboard,
+  DEFAULT_CHALLENGE_TYPE,
+  DEFAULT_SNOOZE_COST,
+  DEFAULT_SNOOZE_DELAY_MINUTES,
+  DEFAULT_TIME_ZONE,
+  getOccurrenceKey,
+  isValidTimeZone,
+  LEADERBOARD_WINDOW_DAYS,
+  MAX_GROUP_MEMBERS,
+  splitForfeit,
+  validateAlarm,
+} from "@clockblocked/shared";
+import { generateInviteCode, normalizeInviteCode } from "./inviteCodes.js";
+
+// Group challenges: one shared alarm time, one alarm per member (created and
+// deleted here, marked with `groupId`). Clients can read the groups they're
+// in; only the callables below write them.
+const GROUPS_COLLECTION = "groups";
+// Ranked results per group, kept current by updateGroupLeaderboard
+const GROUP_LEADERBOARDS_COLLECTION = "group_leaderboards";
+// Shares of forfeited stakes owed to members who woke up, keyed by
+// "<penaltyId>_<uid>". pending → batched (into the member's monthly payout),
+// or pending → cancelled if the penalty is refunded.
+export const GROUP_CREDITS_COLLECTION = "group_credits";
+
+const MAX_GROUP_NAME_LENGTH = 50;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Firestore error code for create() on an existing document
+const ALREADY_EXISTS = 6;
+
+export type GroupCreditStatus = "pending" | "batched" | "cancelled";
+
+export type GroupCredit = {
+  userId: string; // Member who woke up
+  groupId: string;
+  penaltyId: string;
+  fromUserId: string; // Member who failed
+  amount: number; // Minor units
+  currency: string;
+  status: GroupCreditStatus;
+  payoutId?: string;
+  createdAt: admin.firestore.Timestamp;
+};
+
+type GroupMemberDoc = {
+  name: string;
+  alarmId: string;
+  joinedAt: admin.firestore.Timestamp;
+};
+
+type GroupDoc = {
+  name: string;
+  ownerId: string;
+  hours: number;
+  minutes: number;
+  selectedDays: number[];
+  stakeAmount: number | null;
+  stakeCurrency: string | null;
+  splitForfeits: boolean;
+  inviteCode: string;
+  memberIds: string[];
+  members: Record<string, GroupMemberDoc>;
+  createdAt: admin.firestore.Timestamp;
+};
+
+type GroupSchedule = Pick<
+  GroupDoc,
+  "hours" | "minutes" | "selectedDays" | "stakeAmount" | "stakeCurrency"
+>;
+
+// Name shown to the rest of the group: display name, else email
+const getMemberName = (token: { name?: string; email?: string }): string =>
+  token.name || token.email || "Member";
+
+// Create a group with the caller as owner and first member
+export const createGroup = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to create a group");
+  }
+
+  const { name, hours, minutes, selectedDays, stake, splitForfeits } =
+    request.data || {};
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.trim().length > MAX_GROUP_NAME_LENGTH
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Group name must be 1 to ${MAX_GROUP_NAME_LENGTH} characters`
+    );
+  }
+  if (!Array.isArray(selectedDays) || selectedDays.length === 0) {
+    throw new HttpsError("invalid-argument", "Pick at least one day");
+  }
+
+  const schedule: GroupSchedule = {
+    hours,
+    minutes,
+    selectedDays,
+    stakeAmount: stake?.amount ?? null,
+    stakeCurrency: stake?.currency ?? null,
+  };
+  const db = admin.firestore();
+  const groupRef = db.collection(GROUPS_COLLECTION).doc();
+  const alarm = await buildMemberAlarm(groupRef.id, schedule, request.auth.uid);
+
+  // Codes are only looked up among existing groups; retry the rare clash
+  let inviteCode = generateInviteCode();
+  while (await findGroupByCode(inviteCode)) {
+    inviteCode = generateInviteCode();
+  }
+
+  const alarmRef = db.collection("alarms").doc();
+  const batch = db.batch();
+  batch.create(alarmRef, alarm);
+  batch.create(groupRef, {
+    ...schedule,
+    name: name.trim(),
+    ownerId: request.auth.uid,
+    splitForfeits: splitForfeits === true,
+    inviteCode,
+    memberIds: [request.auth.uid],
+    members: {
+      [request.auth.uid]: {
+        name: getMemberName(request.auth.token),
+        alarmId: alarmRef.id,
+        joinedAt: admin.firestore.Timestamp.now(),
+      },
+    },
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+
+  await recomputeGroupLeaderboard(groupRef.id);
+  logger.info(`User ${request.auth.uid} created group ${groupRef.id}`);
+  return { groupId: groupRef.id, inviteCode };
+});
+
+// Join a group by its invite code. Creates the caller's alarm for it.
+export const joinGroup = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to join a group");
+  }
+
+  const code = request.data?.code;
+  if (typeof code !== "string" || !code.trim()) {
+    throw new HttpsError("invalid-argument", "Missing code");
+  }
+
+  const groupDoc = await findGroupByCode(normalizeInviteCode(code));
+  if (!groupDoc) {
+    throw new HttpsError("not-found", "Group not found");
+  }
+
+  const uid = request.auth.uid;
+  const alarm = await buildMemberAlarm(
+    groupDoc.id,
+    groupDoc.data() as GroupDoc,
+    uid
+  );
+  const alarmRef = admin.firestore().collection("alarms").doc();
+
+  const groupName = await admin.firestore().runTransaction(async (tx) => {
+    const group = (await tx.get(groupDoc.ref)).data() as GroupDoc | undefined;
+    if (!group) {
+      throw new HttpsError("not-found", "Group not found");
+    }
+    if (group.members[uid]) {
+      throw new HttpsError("already-exists", `You're already in ${group.name}`);
+    }
+    if (group.memberIds.length >= MAX_GROUP_MEMBERS) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Groups have at most ${MAX_GROUP_MEMBERS} members`
+      );
+    }
+
+    tx.create(alarmRef, alarm);
+    tx.update(groupDoc.ref, {
+      memberIds: admin.firestore.FieldValue.arrayUnion(uid),
+      [`members.${uid}`]: {
+        name: getMemberName(request.auth.token),
+        alarmId: alarmRef.id,
+        joinedAt: admin.firestore.Timestamp.now(),
+      },
+    });
+    return group.name;
+  });
+
+  await recomputeGroupLeaderboard(groupDoc.id);
+  logger.info(`User ${uid} joined group ${groupDoc.id}`);
+  return { groupId: groupDoc.id, name: groupName };
+});
+
+// Leave a group. Deletes the caller's alarm for it.
+export const leaveGroup = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to manage groups");
+  }
+
+  const groupId = request.data?.groupId;
+  if (!groupId) {
+    throw new HttpsError("invalid-argument", "Missing groupId");
+  }
+
+  await removeMember(groupId, request.auth.uid, (group) => {
+    if (!group.members[request.auth.uid]) {
+      throw new HttpsError("not-found", `Group ${groupId} not found`);
+    }
+  });
+  return { success: true };
+});
+
+// Remove another member from a group. Restricted to the group's owner.
+export const removeGroupMember = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to manage groups");
+  }
+
+  const { groupId, memberId } = request.data || {};
+  if (!groupId || !memberId) {
+    throw new HttpsError("invalid-argument", "Missing groupId or memberId");
+  }
+
+  await removeMember(groupId, memberId, (group) => {
+    if (group.ownerId !== request.auth.uid) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only the group's owner can remove members"
+      );
+    }
+    if (!group.members[memberId]) {
+      throw new HttpsError("not-found", `Member ${memberId} not found`);
+    }
+  });
+  return { success: true };
+});
+
+// Re-rank a group when one of its member alarms' challenges is created,
+// resolved or deleted
+export const updateGroupLeaderboard = onDocumentWritten(
+  "alarms_sent_out/{sentOutId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (before && after && before.challengeStatus === after.challengeStatus) {
+      return;
+    }
+
+    const alarmId = (after || before)?.alarmId;
+    if (!alarmId) return;
+
+    const alarmDoc = await admin
+      .firestore()
+      .collection("alarms")
+      .doc(alarmId)
+      .get();
+    const groupId = alarmDoc.data()?.groupId;
+    if (!groupId) return;
+
+    try {
+      await recomputeGroupLeaderboard(groupId);
+    } catch (error) {
+      logger.error(`Error updating leaderboard of group ${groupId}:`, error);
+      throw error;
+    }
+  }
+);
+
+// Split a charged penalty of a group alarm among the members whose alarm for
+// the same occurrence succeeded, if the group splits forfeits.
+// @returns false if the penalty isn't split (no such group, or nobody woke
+// up); the caller then donates it as usual
+export async function splitGroupForfeit(
+  penaltyId: string,
+  penalty: admin.firestore.DocumentData
+): Promise<boolean> {
+  if (!penalty.groupId) {
+    return false;
+  }
+
+  const db = admin.firestore();
+  const [groupDoc, sentOutDoc] = await Promise.all([
+    db.collection(GROUPS_COLLECTION).doc(penalty.groupId).get(),
+    db.collection("alarms_sent_out").doc(penalty.sentOutId).get(),
+  ]);
+  const group = groupDoc.data() as GroupDoc | undefined;
+  const scheduledFor: admin.firestore.Timestamp | undefined =
+    sentOutDoc.data()?.scheduledFor;
+  if (!group?.splitForfeits || !scheduledFor) {
+    return false;
+  }
+
+  const others = Object.entries(group.members).filter(
+    ([userId]) => userId !== penalty.userId
+  );
+  if (others.length === 0) {
+    return false;
+  }
+
+  // Members ring at the same local time in their own zones, so each one's
+  // occurrence is keyed by the date, in their alarm's zone, of the failed
+  // member's occurrence
+  const occurrence = scheduledFor.toDate();
+  const otherAlarms = await db.getAll(
+    ...others.map(([, member]) => db.collection("alarms").doc(member.alarmId))
+  );
+  const otherSentOuts = await db.getAll(
+    ...otherAlarms.map((alarmDoc) =>
+      db
+        .collection("alarms_sent_out")
+        .doc(
+          getOccurrenceKey(
+            { id: alarmDoc.id, timeZone: alarmDoc.data()?.timeZone },
+            occurrence
+          )
+        )
+    )
+  );
+  const recipientIds = otherSentOuts
+    .map((doc) => doc.data())
+    .filter((sentOut) => sentOut?.challengeStatus === "success")
+    .map((sentOut) => sentOut.userId as string);
+  if (recipientIds.length === 0) {
+    return false;
+  }
+
+  const batch = db.batch();
+  for (const [userId, amount] of Object.entries(
+    splitForfeit(penalty.amount, recipientIds)
+  )) {
+    batch.create(
+      db.collection(GROUP_CREDITS_COLLECTION).doc(`${penaltyId}_${userId}`),
+      {
+        userId,
+        groupId: penalty.groupId,
+        penaltyId,
+        fromUserId: penalty.userId,
+        amount,
+        currency: penalty.currency,
+        status: "pending",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }
+    );
+  }
+
+  try {
+    await batch.commit();
+    logger.info(
+      `Split penalty ${penaltyId} among ${recipientIds.length} members of group ${penalty.groupId}`
+    );
+  } catch (error) {
+    if (error.code !== ALREADY_EXISTS) {
+      throw error;
+    }
+    logger.info(`Penalty ${penaltyId} was already split`);
+  }
+  return true;
+}
+
+// Cancel the pending credits of a refunded penalty
+export async function cancelGroupCredits(penaltyId: string): Promise<void> {
+  const creditsSnapshot = await admin
+    .firestore()
+    .collection(GROUP_CREDITS_COLLECTION)
+    .where("penaltyId", "==", penaltyId)
+    .where("status", "==", "pending")
+    .get();
+  if (creditsSnapshot.empty) {
+    return;
+  }
+
+  const batch = admin.firestore().batch();
+  creditsSnapshot.docs.forEach((doc) =>
+    batch.update(doc.ref, { status: "cancelled" })
+  );
+  await batch.commit();
+  logger.info(
+    `Cancelled ${creditsSnapshot.size} group credits of penalty ${penaltyId}`
+  );
+}
+
+// The member's alarm for a group, rung in their own time zone
+async function buildMemberAlarm(
+  groupId: string,
+  schedule: GroupSchedule,
+  userId: string
+): Promise<admin.firestore.DocumentData> {
+  const userDoc = await admin.firestore().collection("users").doc(userId).get();
+  const timeZone = userDoc.data()?.timeZone;
+
+  const alarm = {
+    userId,
+    hours: schedule.hours,
+    minutes: schedule.minutes,
+    selectedDays: schedule.selectedDays,
+    date: null,
+    recurrence: null,
+    isEnabled: true,
+    challengeType: DEFAULT_CHALLENGE_TYPE,
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    stakeAmount: schedule.stakeAmount,
+    stakeCurrency: schedule.stakeCurrency,
+    snoozeDelayMinutes: DEFAULT_SNOOZE_DELAY_MINUTES,
+    snoozeCost: DEFAULT_SNOOZE_COST,
+    skipNextAt: null,
+    pausedUntil: null,
+    groupId,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const problems = validateAlarm(alarm);
+  if (problems.length > 0) {
+    throw new HttpsError("invalid-argument", problems.join("; "));
+  }
+  return alarm;
+}
+
+// Remove a member and their alarm once `authorize` accepts the group.
+// The owner leaving hands the group to the longest-standing member; the last
+// member leaving deletes it.
+async function removeMember(
+  groupId: string,
+  memberId: string,
+  authorize: (group: GroupDoc) => void
+): Promise<void> {
+  const db = admin.firestore();
+  const groupRef = db.collection(GROUPS_COLLECTION).doc(groupId);
+
+  const deleted = await db.runTransaction(async (tx) => {
+    const group = (await tx.get(groupRef)).data() as GroupDoc | undefined;
+    if (!group) {
+      throw new HttpsError("not-found", `Group ${groupId} not found`);
+    }
+    authorize(group);
+
+    tx.delete(db.collection("alarms").doc(group.members[memberId].alarmId));
+
+    const remaining = Object.entries(group.members)
+      .filter(([userId]) => userId !== memberId)
+      .sort(([, a], [, b]) => a.joinedAt.toMillis() - b.joinedAt.toMillis());
+    if (remaining.length === 0) {
+      tx.delete(groupRef);
+      tx.delete(db.collection(GROUP_LEADERBOARDS_COLLECTION).doc(groupId));
+      return true;
+    }
+
+    tx.update(groupRef, {
+      memberIds: admin.firestore.FieldValue.arrayRemove(memberId),
+      [`members.${memberId}`]: admin.firestore.FieldValue.delete(),
+      ownerId: group.ownerId === memberId ? remaining[0][0] : group.ownerId,
+    });
+    return false;
+  });
+
+  if (!deleted) {
+    await recomputeGroupLeaderboard(groupId);
+  }
+  logger.info(
+    `Removed ${memberId} from group ${groupId}${deleted ? " (deleted)" : ""}`
+  );
+}
+
+// Rank the group's members over the last LEADERBOARD_WINDOW_DAYS.
+// Only challenges of each member's current group alarm count.
+async function recomputeGroupLeaderboard(groupId: string): Promise<void> {
+  const db = admin.firestore();
+  const group = (
+    await db.collection(GROUPS_COLLECTION).doc(groupId).get()
+  ).data() as GroupDoc | undefined;
+  if (!group) return;
+
+  const memberByAlarm = new Map(
+    Object.entries(group.members).map(([userId, member]) => [
+      member.alarmId,
+      userId,
+    ])
+  );
+  const since = new Date(Date.now() - LEADERBOARD_WINDOW_DAYS * MS_PER_DAY);
+
+  // At most MAX_GROUP_MEMBERS alarms, so one "in" query covers them all
+  const sentOutsSnapshot = await db
+    .collection("alarms_sent_out")
+    .withConverter(alarmSentOutConverter)
+    .where("alarmId", "in", [...memberByAlarm.keys()])
+    .where("sentAt", ">=", admin.firestore.Timestamp.fromDate(since))
+    .get();
+  const sentOuts = sentOutsSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((sentOut) => memberByAlarm.get(sentOut.alarmId) === sentOut.userId);
+
+  await db
+    .collection(GROUP_LEADERBOARDS_COLLECTION)
+    .doc(groupId)
+    .set({
+      memberIds: group.memberIds,
+      entries: buildLeaderboard(group.members, sentOuts),
+      windowDays: LEADERBOARD_WINDOW_DAYS,
+      computedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+}
+
+// Group with the given invite code, if any
+async function findGroupByCode(
+  inviteCode: string
+): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const snapshot = await admin
+    .firestore()
+    .collection(GROUPS_COLLECTION)
+    .where("inviteCode", "==", inviteCode)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
@@ -1,18 +1,56 @@
 import * as admin from "firebase-admin";
 import { onSchedule } from "firebase-functions/v2/scheduler";
-import { onCall } from "firebase-functions/v2/https";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
+import {
+  Alarm,
+  alarmConverter,
+  alarmFromFirestore,
+  getAlarmTimeZone,
+  getDueOccurrence,
+  getOccurrenceKey,
+  validateAlarm,
+  validateAlarmSentOut,
+} from "@clockblocked/shared";
+import { CHALLENGE_TIMEOUT_MINUTES, getChallengeExpiry } from "./challenges.js";
+import { getUserPushSends, sendUserPushes, UserPush } from "./devicePushes.js";
+import { consumeRateLimit } from "./rateLimits.js";
 
 admin.initializeApp();
 
-type Alarm = {
-  userId: string;
-  hours: number;
-  minutes: number;
-  selectedDays: number[];
-  isEnabled: boolean;
-  createdAt: admin.firestore.Timestamp;
-};
+export {
+  issueChallenge,
+  submitChallenge,
+  snoozeChallenge,
+} from "./challenges.js";
+export {
+  createPenaltyOnFailure,
+  chargePenalty,
+  retryPenaltyCharges,
+  refundPenalty,
+} from "./penalties.js";
+export {
+  syncDonationWithPenalty,
+  aggregateMonthlyPayouts,
+} from "./donations.js";
+export { processPushReceipts } from "./pushReceipts.js";
+export { updateUserStats } from "./stats.js";
+export { generateWeeklyReports } from "./reports.js";
+export {
+  createPartnerInvite,
+  acceptPartnerInvite,
+  revokePartnership,
+  getPartnerStreaks,
+  notifyPartnersOnFailure,
+} from "./partnerships.js";
+export {
+  createGroup,
+  joinGroup,
+  leaveGroup,
+  removeGroupMember,
+  updateGroupLeaderboard,
+} from "./groups.js";
 
 // Check notifications every minute
 export const checkNotifications = onSchedule(
@@ -24,50 +62,78 @@ export const checkNotifications = onSchedule(
   },
   async (event): Promise<void> => {
     const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentWeekday = now.getDay(); // Sunday = 0, Monday = 1, etc.
-
-    logger.info(
-      `Checking notifications for ${currentHour
-        .toString()
-        .padStart(2, "0")}:${currentMinute
-        .toString()
-        .padStart(2, "0")} on weekday ${currentWeekday}`
+    const currentMinute = now.getUTCMinutes();
+
+    // Every IANA zone is offset from UTC by a multiple of 15 minutes, so an alarm
+    // due now has one of these local minutes, whatever its zone
+    const candidateMinutes = [0, 15, 30, 45].map(
+      (shift) => (currentMinute + shift) % 60
     );
 
+    logger.info(`Checking notifications for ${now.toISOString()}`);
+
     try {
-      // Normal mode: Query for enabled alarms that should trigger now
+      // Normal mode: Query for enabled alarms that could trigger now,
+      // then evaluate each one in its own time zone with the same schedule
+      // code the app uses (which also applies skip-next and pauses)
       const alarmsSnapshot = await admin
         .firestore()
         .collection("alarms")
         .where("isEnabled", "==", true)
-        .where("hours", "==", currentHour)
-        .where("minutes", "==", currentMinute)
+        .where("minutes", "in", candidateMinutes)
         .get();
 
       logger.info(`Found ${alarmsSnapshot.size} alarms to check`);
 
-      const notifications: Promise<any>[] = [];
+      // Several alarms of one user due in the same minute ring once (the
+      // first one's push); each still gets its own pending challenge
+      const pushesByUser = new Map<string, AlarmPush>();
+      const openings: Promise<string>[] = [];
 
       for (const doc of alarmsSnapshot.docs) {
-        const alarm = doc.data() as Alarm;
-
-        // Check if today is one of the selected days
-        const shouldTrigger = alarm.selectedDays.includes(currentWeekday);
+        const problems = validateAlarm(doc.data());
+        if (problems.length > 0) {
+          logger.warn(
+            `Skipping invalid alarm ${doc.id}: ${problems.join("; ")}`
+          );
+          continue;
+        }
 
-        if (shouldTrigger) {
+        const alarm = alarmFromFirestore(doc.id, doc.data());
+        const occurrence = getDueOccurrence(alarm, now);
+        if (occurrence) {
           logger.info(
-            `Triggering notification for alarm ${doc.id} (user: ${alarm.userId})`
+            `Triggering notification for alarm ${doc.id} (user: ${
+              alarm.userId
+            }, zone: ${getAlarmTimeZone(alarm)})`
           );
-          notifications.push(
-            triggerNotification(alarm.userId, alarm.hours, alarm.minutes)
+          const occurrenceKey = getOccurrenceKey(alarm, occurrence);
+          openings.push(
+            openOccurrenceChallenge(alarm, occurrenceKey, occurrence)
           );
+          if (!pushesByUser.has(alarm.userId)) {
+            pushesByUser.set(alarm.userId, {
+              userId: alarm.userId,
+              data: {
+                type: "alarm",
+                alarmId: alarm.id,
+                occurrenceKey,
+                scheduledFor: occurrence.toISOString(),
+              },
+            });
+          }
+        }
+      }
+
+      // Challenges first, so the app finds them when the push arrives
+      const opened = await Promise.allSettled(openings);
+      for (const result of opened) {
+        if (result.status === "rejected") {
+          logger.error("Error opening challenge:", result.reason);
         }
       }
 
-      // Wait for all notifications to be processed
-      await Promise.allSettled(notifications);
+      await sendAlarmPushes([...pushesByUser.values()]);
 
       logger.info("Notification check completed successfully");
     } catch (error) {
@@ -77,102 +143,296 @@ export const checkNotifications = onSchedule(
   }
 );
 
-// Callable function for testing specific alarms
-export const testNotification = onCall(async (request) => {
-  const alarmId = request.data.id;
+// Fail challenges abandoned on the device (app killed, phone died, ...).
+// Snoozed challenges carry their own expiresAt; the rest expire a fixed
+// time after sentAt.
+export const sweepPendingChallenges = onSchedule(
+  {
+    schedule: "every 5 minutes",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    maxInstances: 1,
+  },
+  async (event): Promise<void> => {
+    const now = admin.firestore.Timestamp.now();
+    const cutoff = admin.firestore.Timestamp.fromMillis(
+      now.toMillis() - CHALLENGE_TIMEOUT_MINUTES * 60 * 1000
+    );
 
-  if (!alarmId) {
-    throw new Error("Missing alarm ID. Call with {id: 'your-alarm-id'}");
+    try {
+      const pending = admin
+        .firestore()
+        .collection("alarms_sent_out")
+        .where("challengeStatus", "==", "pending");
+      const [staleSnapshot, snoozedSnapshot] = await Promise.all([
+        pending.where("sentAt", "<=", cutoff).get(),
+        pending.where("expiresAt", "<=", now).get(),
+      ]);
+
+      // A snoozed entry can match both queries
+      const expiredDocs = [
+        ...new Map(
+          [...staleSnapshot.docs, ...snoozedSnapshot.docs].map((doc) => [
+            doc.id,
+            doc,
+          ])
+        ).values(),
+      ];
+
+      logger.info(`Found ${expiredDocs.length} expired pending challenges`);
+
+      const results = await Promise.allSettled(
+        expiredDocs.map((doc) =>
+          admin.firestore().runTransaction(async (tx) => {
+            // Re-read inside the transaction: the client may have resolved
+            // or snoozed it meanwhile
+            const current = await tx.get(doc.ref);
+            const data = current.data();
+            if (
+              data?.challengeStatus !== "pending" ||
+              getChallengeExpiry(data) > Date.now()
+            ) {
+              return false;
+            }
+
+            tx.update(doc.ref, {
+              challengeStatus: "failed",
+              completedAt: admin.firestore.FieldValue.serverTimestamp(),
+              failureReason: "timeout_server",
+            });
+            return true;
+          })
+        )
+      );
+
+      const failed = results.filter(
+        (result) => result.status === "fulfilled" && result.value
+      ).length;
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          logger.error(
+            `Error failing challenge ${expiredDocs[index].id}:`,
+            result.reason
+          );
+        }
+      });
+
+      logger.info(`Marked ${failed} abandoned challenges as failed`);
+    } catch (error) {
+      logger.error("Error sweeping pending challenges:", error);
+      throw error;
+    }
   }
+);
 
-  try {
-    logger.info(`Test mode: triggering specific alarm ID: ${alarmId}`);
+// One-off alarms disable themselves once their challenge resolves.
+// Disabled rather than deleted: penalties still read the alarm's stake.
+export const disableResolvedOneOffAlarms = onDocumentWritten(
+  "alarms_sent_out/{sentOutId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    if (
+      !after ||
+      after.challengeStatus === "pending" ||
+      before?.challengeStatus === after.challengeStatus
+    ) {
+      return;
+    }
 
-    const alarmDoc = await admin
+    const alarmRef = admin
       .firestore()
       .collection("alarms")
-      .doc(alarmId)
-      .get();
+      .withConverter(alarmConverter)
+      .doc(after.alarmId);
+    const alarm = (await alarmRef.get()).data();
 
-    if (!alarmDoc.exists) {
-      logger.warn(`Test alarm ${alarmId} not found`);
-      return { success: false, error: `Alarm ${alarmId} not found` };
+    if (alarm?.date && alarm.isEnabled) {
+      await alarmRef.update({ isEnabled: false });
+      logger.info(
+        `Disabled one-off alarm ${after.alarmId} (${after.challengeStatus})`
+      );
     }
+  }
+);
+
+// Test pushes: each caller can send this many per window
+const TEST_NOTIFICATION_LIMIT = 5;
+const TEST_NOTIFICATION_WINDOW_MS = 60 * 60 * 1000;
 
-    const alarm = alarmDoc.data() as Alarm;
-    logger.info(
-      `Triggering test notification for alarm ${alarmDoc.id} (user: ${alarm.userId})`
+// Callable function for testing specific alarms.
+// Only the alarm's owner (or an admin) may call it. With dryRun it returns
+// the push it would send without sending it or counting towards the limit.
+export const testNotification = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to test an alarm");
+  }
+
+  const alarmId = request.data?.id;
+  const dryRun = request.data?.dryRun === true;
+  if (!alarmId) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Missing alarm ID. Call with {id: 'your-alarm-id'}"
     );
+  }
+
+  const alarmDoc = await admin
+    .firestore()
+    .collection("alarms")
+    .doc(alarmId)
+    .get();
 
-    await triggerNotification(alarm.userId, alarm.hours, alarm.minutes);
+  if (!alarmDoc.exists) {
+    logger.warn(`Test alarm ${alarmId} not found`);
+    throw new HttpsError("not-found", `Alarm ${alarmId} not found`);
+  }
+
+  const alarm = alarmFromFirestore(alarmDoc.id, alarmDoc.data());
+  const isAdmin = !!request.auth.token?.admin;
+  if (alarm.userId !== request.auth.uid && !isAdmin) {
+    throw new HttpsError("permission-denied", "Not your alarm");
+  }
 
-    logger.info("Test notification completed successfully");
+  // Not an occurrence: the app shows it like an alarm push but opens no
+  // challenge for it
+  const testPush: AlarmPush = {
+    userId: alarm.userId,
+    data: { type: "test", alarmId: alarm.id },
+  };
+
+  if (dryRun) {
+    const sends = await getUserPushSends([buildAlarmPush(testPush)]);
     return {
       success: true,
-      message: `Test notification sent for alarm ${alarmId}`,
-      alarm: {
-        id: alarmDoc.id,
-        userId: alarm.userId,
-        hours: alarm.hours,
-        minutes: alarm.minutes,
-      },
+      dryRun: true,
+      messages: sends.map(({ message }) => message),
     };
-  } catch (error) {
-    logger.error("Error in test notification:", error);
-    return { success: false, error: "Internal server error", details: error };
   }
+
+  const allowed = await consumeRateLimit(
+    `testNotification:${request.auth.uid}`,
+    TEST_NOTIFICATION_LIMIT,
+    TEST_NOTIFICATION_WINDOW_MS
+  );
+  if (!allowed) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `At most ${TEST_NOTIFICATION_LIMIT} test notifications per hour`
+    );
+  }
+
+  logger.info(
+    `Triggering test notification for alarm ${alarmDoc.id} (user: ${alarm.userId}, caller: ${request.auth.uid})`
+  );
+  await sendAlarmPushes([testPush]);
+
+  return {
+    success: true,
+    message: `Test notification sent for alarm ${alarmId}`,
+    alarm: {
+      id: alarmDoc.id,
+      userId: alarm.userId,
+      hours: alarm.hours,
+      minutes: alarm.minutes,
+    },
+  };
 });
 
-// Trigger notification for a user
-async function triggerNotification(
-  userId: string,
-  hours: number,
-  minutes: number
-): Promise<void> {
-  try {
-    // Get user document to retrieve push token
-    const userDoc = await admin
-      .firestore()
-      .collection("users")
-      .doc(userId)
-      .get();
+// Alarm push for one user. `data` is what the app's notification handler
+// reads, like the data of its local notifications.
+type AlarmPush = {
+  userId: string;
+  data: {
+    type: "alarm" | "test";
+    alarmId: string;
+    occurrenceKey?: string;
+    scheduledFor?: string; // ISO 8601
+  };
+};
 
-    if (!userDoc.exists) {
-      logger.warn(`User ${userId} not found`);
-      return;
-    }
+// Open the pending challenge of an occurrence under its occurrence key,
+// unless the app (or an earlier run) already did. The entry keeps the stake
+// the alarm had when it rang, which its penalty charges. The rules can only
+// check the app's scheduledFor to within a day, so a pending entry's is set
+// to the occurrence in the alarm's zone.
+async function openOccurrenceChallenge(
+  alarm: Alarm,
+  occurrenceKey: string,
+  scheduledFor: Date
+): Promise<string> {
+  const sentOutRef = admin
+    .firestore()
+    .collection("alarms_sent_out")
+    .doc(occurrenceKey);
+  const stake = {
+    stakeAmount: alarm.stakeAmount ?? null,
+    stakeCurrency: alarm.stakeCurrency ?? null,
+  };
 
-    const user = userDoc.data();
+  await admin.firestore().runTransaction(async (tx) => {
+    const sentOutDoc = await tx.get(sentOutRef);
+    if (sentOutDoc.exists) {
+      const sentOut = sentOutDoc.data();
+      if (sentOut?.challengeStatus !== "pending") return;
 
-    if (!user.expoPushToken) {
-      logger.warn(`No push token found for user ${userId}`);
+      const fixes = {
+        ...(sentOut.scheduledFor?.toMillis() !== scheduledFor.getTime()
+          ? { scheduledFor: admin.firestore.Timestamp.fromDate(scheduledFor) }
+          : {}),
+        ...("stakeAmount" in sentOut ? {} : stake),
+      };
+      if (Object.keys(fixes).length > 0) {
+        assertValidSentOut(occurrenceKey, fixes, true);
+        tx.update(sentOutRef, fixes);
+      }
       return;
     }
 
-    const response = await fetch("https://exp.host/--/api/v2/push/send", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to: user.expoPushToken,
-        sound: "alarm.wav",
-        title: "ClockBlocked Alarm",
-        body: "Wake Up Or Lose Money!",
-        priority: "high",
-      }),
-    });
-
-    const result = await response.json();
-    if (result.data.status === "error") {
-      logger.error(
-        `Failed to send notification to ${user.expoPushToken}:`,
-        result.data.message
-      );
-    } else {
-      logger.info(`Successfully sent notification to ${user.expoPushToken}`);
-    }
-  } catch (error) {
-    logger.error(`Error triggering notification for user ${userId}:`, error);
+    const data = {
+      userId: alarm.userId,
+      alarmId: alarm.id,
+      occurrenceKey,
+      scheduledFor: admin.firestore.Timestamp.fromDate(scheduledFor),
+      sentAt: admin.firestore.FieldValue.serverTimestamp(),
+      challengeStatus: "pending",
+      ...stake,
+    };
+    assertValidSentOut(occurrenceKey, data);
+    tx.create(sentOutRef, data);
+  });
+  return occurrenceKey;
+}
+
+// Refuse to write alarms_sent_out data the shared validator rejects
+function assertValidSentOut(
+  sentOutId: string,
+  data: admin.firestore.DocumentData,
+  partial = false
+): void {
+  const problems = validateAlarmSentOut(data, { partial });
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid alarms_sent_out ${sentOutId}: ${problems.join("; ")}`
+    );
   }
 }
+
+// Push sent to every device of the alarm's owner when it is due
+function buildAlarmPush({ userId, data }: AlarmPush): UserPush {
+  return {
+    userId,
+    message: {
+      data,
+      sound: "alarm.wav",
+      title: "ClockBlocked Alarm",
+      body: "Wake Up Or Lose Money!",
+      priority: "high",
+    },
+  };
+}
+
+async function sendAlarmPushes(pushes: AlarmPush[]): Promise<void> {
+  await sendUserPushes(pushes.map(buildAlarmPush), "alarm");
+}
@@ -0,0 +1,16 @@
+import { randomInt } from "crypto";
+
+// Share codes for partner invites and groups. They skip 0/O and 1/I so they
+// can be read out loud.
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+
+export const generateInviteCode = (): string =>
+  Array.from(
+    { length: INVITE_CODE_LENGTH },
+    () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]
+  ).join("");
+
+// Codes are typed in by hand: ignore case and surrounding spaces
+export const normalizeInviteCode = (code: string): string =>
+  code.trim().toUpperCase();
@@ -0,0 +1,314 @@
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  alarmSentOutConverter,
+  getStreaks,
+  STATS_WINDOW_DAYS,
+} from "@clockblocked/shared";
+import { sendUserPushes, UserPush } from "./devicePushes.js";
+import { generateInviteCode, normalizeInviteCode } from "./inviteCodes.js";
+import { consumeRateLimit } from "./rateLimits.js";
+
+// Accountability partnerships. The user (`userId`) invites a partner with a
+// share code; the partner accepts it, and from then on is pushed whenever
+// the user fails a challenge. Either side can revoke it.
+// pending → active → revoked, or pending → revoked (invite cancelled).
+// Clients can read the partnerships they're part of; only the callables
+// below write them.
+const PARTNERSHIPS_COLLECTION = "partnerships";
+
+export type PartnershipStatus = "pending" | "active" | "revoked";
+
+export type Partnership = {
+  userId: string; // Held accountable
+  userName: string;
+  partnerId: string | null; // Notified of failures; null until accepted
+  partnerName: string | null;
+  inviteCode?: string; // Removed once the invite is accepted or revoked
+  status: PartnershipStatus;
+  createdAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp; // Invite expiry
+  acceptedAt?: admin.firestore.Timestamp;
+  revokedAt?: admin.firestore.Timestamp;
+  revokedBy?: string;
+};
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITE_LIMIT = 10;
+const INVITE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Name shown to the other side: the caller's display name, else their email
+const getCallerName = (token: { name?: string; email?: string }): string =>
+  token.name || token.email || "Your partner";
+
+// Create an invite for the caller. Share its code (or a link with it) with
+// the partner, who accepts it with acceptPartnerInvite.
+export const createPartnerInvite = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to invite a partner");
+  }
+
+  const allowed = await consumeRateLimit(
+    `createPartnerInvite:${request.auth.uid}`,
+    INVITE_LIMIT,
+    INVITE_WINDOW_MS
+  );
+  if (!allowed) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `At most ${INVITE_LIMIT} partner invites per day`
+    );
+  }
+
+  // Codes are only looked up among pending invites; retry the rare clash
+  let inviteCode = generateInviteCode();
+  while (await findPendingInvite(inviteCode)) {
+    inviteCode = generateInviteCode();
+  }
+
+  const expiresAt = admin.firestore.Timestamp.fromMillis(
+    Date.now() + INVITE_TTL_MS
+  );
+  const partnershipRef = await admin
+    .firestore()
+    .collection(PARTNERSHIPS_COLLECTION)
+    .add({
+      userId: request.auth.uid,
+      userName: getCallerName(request.auth.token),
+      partnerId: null,
+      partnerName: null,
+      inviteCode,
+      status: "pending",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt,
+    });
+
+  logger.info(
+    `User ${request.auth.uid} created partner invite ${partnershipRef.id}`
+  );
+  return {
+    partnershipId: partnershipRef.id,
+    inviteCode,
+    expiresAt: expiresAt.toMillis(),
+  };
+});
+
+// Accept an invite by its code. The caller becomes the inviter's partner.
+export const acceptPartnerInvite = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to accept an invite");
+  }
+
+  const code = request.data?.code;
+  if (typeof code !== "string" || !code.trim()) {
+    throw new HttpsError("invalid-argument", "Missing code");
+  }
+
+  const inviteDoc = await findPendingInvite(normalizeInviteCode(code));
+  if (!inviteDoc) {
+    throw new HttpsError("not-found", "Invite not found");
+  }
+
+  const invite = inviteDoc.data() as Partnership;
+  if (invite.userId === request.auth.uid) {
+    throw new HttpsError(
+      "invalid-argument",
+      "You can't be your own accountability partner"
+    );
+  }
+
+  const existing = await admin
+    .firestore()
+    .collection(PARTNERSHIPS_COLLECTION)
+    .where("userId", "==", invite.userId)
+    .where("partnerId", "==", request.auth.uid)
+    .where("status", "==", "active")
+    .limit(1)
+    .get();
+  if (!existing.empty) {
+    throw new HttpsError(
+      "already-exists",
+      `You're already ${invite.userName}'s partner`
+    );
+  }
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const current = (await tx.get(inviteDoc.ref)).data() as Partnership;
+    if (current.status !== "pending") {
+      throw new HttpsError("not-found", "Invite not found");
+    }
+    if (current.expiresAt.toMillis() < Date.now()) {
+      throw new HttpsError("failed-precondition", "This invite has expired");
+    }
+
+    tx.update(inviteDoc.ref, {
+      partnerId: request.auth.uid,
+      partnerName: getCallerName(request.auth.token),
+      inviteCode: admin.firestore.FieldValue.delete(),
+      status: "active",
+      acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  logger.info(
+    `User ${request.auth.uid} accepted partner invite ${inviteDoc.id}`
+  );
+  return { partnershipId: inviteDoc.id, userName: invite.userName };
+});
+
+// End a partnership (or cancel a pending invite). Either side may revoke.
+export const revokePartnership = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to manage partners");
+  }
+
+  const partnershipId = request.data?.partnershipId;
+  if (!partnershipId) {
+    throw new HttpsError("invalid-argument", "Missing partnershipId");
+  }
+
+  const partnershipRef = admin
+    .firestore()
+    .collection(PARTNERSHIPS_COLLECTION)
+    .doc(partnershipId);
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const partnership = (await tx.get(partnershipRef)).data() as
+      Partnership | undefined;
+    if (
+      !partnership ||
+      (partnership.userId !== request.auth.uid &&
+        partnership.partnerId !== request.auth.uid)
+    ) {
+      throw new HttpsError(
+        "not-found",
+        `Partnership ${partnershipId} not found`
+      );
+    }
+    if (partnership.status === "revoked") {
+      return;
+    }
+
+    tx.update(partnershipRef, {
+      inviteCode: admin.firestore.FieldValue.delete(),
+      status: "revoked",
+      revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+      revokedBy: request.auth.uid,
+    });
+  });
+
+  logger.info(`User ${request.auth.uid} revoked partnership ${partnershipId}`);
+  return { success: true };
+});
+
+// Read-only streak of the user a caller is the active partner of
+export const getPartnerStreaks = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Sign in to view partners");
+  }
+
+  const partnershipId = request.data?.partnershipId;
+  if (!partnershipId) {
+    throw new HttpsError("invalid-argument", "Missing partnershipId");
+  }
+
+  const partnershipDoc = await admin
+    .firestore()
+    .collection(PARTNERSHIPS_COLLECTION)
+    .doc(partnershipId)
+    .get();
+  const partnership = partnershipDoc.data() as Partnership | undefined;
+  if (
+    !partnership ||
+    partnership.partnerId !== request.auth.uid ||
+    partnership.status !== "active"
+  ) {
+    throw new HttpsError(
+      "permission-denied",
+      "Not an active partner of this user"
+    );
+  }
+
+  const sentOutsSnapshot = await admin
+    .firestore()
+    .collection("alarms_sent_out")
+    .withConverter(alarmSentOutConverter)
+    .where("userId", "==", partnership.userId)
+    .where(
+      "sentAt",
+      ">=",
+      admin.firestore.Timestamp.fromDate(
+        new Date(Date.now() - STATS_WINDOW_DAYS * MS_PER_DAY)
+      )
+    )
+    .get();
+
+  return {
+    userName: partnership.userName,
+    streaks: getStreaks(sentOutsSnapshot.docs.map((doc) => doc.data())),
+    windowDays: STATS_WINDOW_DAYS,
+  };
+});
+
+// Push the user's active partners when a pending challenge fails, whether the
+// app timed it out (markAlarmChallengeFailed) or sweepPendingChallenges did.
+// Missed alarms logged later by schedule healing are created "failed" and
+// don't notify: by then the morning is long over.
+export const notifyPartnersOnFailure = onDocumentWritten(
+  "alarms_sent_out/{sentOutId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    if (
+      before?.challengeStatus !== "pending" ||
+      after?.challengeStatus !== "failed"
+    ) {
+      return;
+    }
+
+    const partnershipsSnapshot = await admin
+      .firestore()
+      .collection(PARTNERSHIPS_COLLECTION)
+      .where("userId", "==", after.userId)
+      .where("status", "==", "active")
+      .get();
+    if (partnershipsSnapshot.empty) {
+      return;
+    }
+
+    const pushes: UserPush[] = partnershipsSnapshot.docs.map((doc) => {
+      const partnership = doc.data() as Partnership;
+      return {
+        userId: partnership.partnerId,
+        message: {
+          data: { type: "partner_failure", partnershipId: doc.id },
+          sound: "default",
+          title: `${partnership.userName} didn't wake up`,
+          body: "They just failed their alarm challenge. Give them a nudge!",
+          priority: "high",
+        },
+      };
+    });
+
+    await sendUserPushes(pushes, "partner");
+  }
+);
+
+// Pending invite with the given code, if any
+async function findPendingInvite(
+  inviteCode: string
+): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const snapshot = await admin
+    .firestore()
+    .collection(PARTNERSHIPS_COLLECTION)
+    .where("inviteCode", "==", inviteCode)
+    .where("status", "==", "pending")
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
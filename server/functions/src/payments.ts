@@ -0,0 +1,66 @@
+// Payment provider abstraction used to charge and refund penalties.
+// No real provider is wired up yet; the emulator uses the in-memory fake.
+
+export type ChargeRequest = {
+  // Providers must treat repeated charges with the same key as one charge
+  idempotencyKey: string;
+  userId: string;
+  amount: number; // Minor units, e.g. cents
+  currency: string; // ISO 4217 code
+  description: string;
+};
+
+export type RefundRequest = {
+  // Providers must treat repeated refunds with the same key as one refund
+  idempotencyKey: string;
+  chargeId: string;
+  amount: number;
+  currency: string;
+};
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: ChargeRequest): Promise<{ chargeId: string }>;
+  refund(request: RefundRequest): Promise<{ refundId: string }>;
+}
+
+// In-memory provider for tests and the emulator. Always succeeds.
+export const createFakePaymentProvider = (): PaymentProvider => {
+  const charges = new Map<string, ChargeRequest>();
+  const refunds = new Map<string, RefundRequest>();
+
+  return {
+    name: "fake",
+    charge: async (request) => {
+      const chargeId = `fake_ch_${request.idempotencyKey}`;
+      charges.set(chargeId, request);
+      return { chargeId };
+    },
+    refund: async (request) => {
+      if (!charges.has(request.chargeId)) {
+        throw new Error(`Unknown charge ${request.chargeId}`);
+      }
+      const refundId = `fake_re_${request.idempotencyKey}`;
+      refunds.set(refundId, request);
+      return { refundId };
+    },
+  };
+};
+
+let paymentProvider: PaymentProvider | null = null;
+
+// Swap in a provider (a real integration, or a fake in tests)
+export const setPaymentProvider = (provider: PaymentProvider | null) => {
+  paymentProvider = provider;
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (paymentProvider) return paymentProvider;
+
+  if (process.env.FUNCTIONS_EMULATOR === "true") {
+    paymentProvider = createFakePaymentProvider();
+    return paymentProvider;
+  }
+
+  throw new Error("No payment provider configured");
+};
@@ -0,0 +1,278 @@
+import * as admin from "firebase-admin";
+import {
+  onDocumentCreated,
+  onDocumentWritten,
+} from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import { getPaymentProvider } from "./payments.js";
+
+// Ledger of money owed for failed challenges, keyed by alarms_sent_out id.
+// Status only moves forward: pending → charged → refunding → refunded, or
+// pending → failed once every charge attempt has failed. A refund the
+// provider rejects moves the penalty back from refunding to charged.
+const PENALTIES_COLLECTION = "penalties";
+
+// Failed charges are retried after 15 minutes, then 30, 60 and 120; the
+// fifth failure is final
+const MAX_CHARGE_ATTEMPTS = 5;
+const CHARGE_RETRY_BASE_MINUTES = 15;
+
+export type PenaltyStatus =
+  "pending" | "charged" | "refunding" | "refunded" | "failed";
+
+export type Penalty = {
+  userId: string;
+  alarmId: string;
+  sentOutId: string;
+  groupId?: string; // Set for group alarms; see splitGroupForfeit
+  amount: number; // Minor units: the occurrence's stake plus any snooze surcharge
+  currency: string;
+  status: PenaltyStatus;
+  provider?: string;
+  chargeId?: string;
+  refundId?: string;
+  refundError?: string; // Why the last refund attempt failed
+  attempts?: number; // Failed charge attempts so far
+  nextAttemptAt?: admin.firestore.Timestamp; // When retryPenaltyCharges retries
+  lastError?: string; // Last charge attempt error
+  createdAt: admin.firestore.Timestamp;
+  chargedAt?: admin.firestore.Timestamp;
+  failedAt?: admin.firestore.Timestamp;
+  refundedAt?: admin.firestore.Timestamp;
+};
+
+// Firestore error code for create() on an existing document
+const ALREADY_EXISTS = 6;
+
+// Open a penalty when an alarms_sent_out entry becomes "failed" on an alarm
+// with a stake. Covers timeouts (update) and missed alarms (created failed).
+export const createPenaltyOnFailure = onDocumentWritten(
+  "alarms_sent_out/{sentOutId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+
+    if (
+      !after ||
+      after.challengeStatus !== "failed" ||
+      before?.challengeStatus === "failed"
+    ) {
+      return;
+    }
+
+    const sentOutId = event.params.sentOutId;
+    const alarmDoc = await admin
+      .firestore()
+      .collection("alarms")
+      .doc(after.alarmId)
+      .get();
+    const alarm = alarmDoc.data();
+
+    // The stake snapshotted when the occurrence opened; entries the server
+    // never opened (missed alarms logged by the app) fall back to the alarm's
+    const { stakeAmount, stakeCurrency } =
+      "stakeAmount" in after ? after : alarm || {};
+    if (!stakeAmount || !stakeCurrency) {
+      return;
+    }
+
+    const amount = stakeAmount + (after.stakeSurcharge || 0);
+
+    // The penalty id is the sentOutId, so a re-delivered event can't open two
+    try {
+      await admin
+        .firestore()
+        .collection(PENALTIES_COLLECTION)
+        .doc(sentOutId)
+        .create({
+          userId: after.userId,
+          alarmId: after.alarmId,
+          sentOutId,
+          amount,
+          currency: stakeCurrency,
+          ...(alarm?.groupId ? { groupId: alarm.groupId } : {}),
+          status: "pending",
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      logger.info(`Opened penalty ${sentOutId}: ${amount} ${stakeCurrency}`);
+    } catch (error) {
+      if (error.code === ALREADY_EXISTS) {
+        logger.info(`Penalty ${sentOutId} already exists`);
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+// Charge a penalty as soon as it's opened
+export const chargePenalty = onDocumentCreated(
+  `${PENALTIES_COLLECTION}/{penaltyId}`,
+  async (event) => {
+    await applyPenaltyCharge(event.params.penaltyId);
+  }
+);
+
+// Retry charges that failed, once their backoff has passed
+export const retryPenaltyCharges = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    maxInstances: 1,
+  },
+  async (event): Promise<void> => {
+    try {
+      const dueSnapshot = await admin
+        .firestore()
+        .collection(PENALTIES_COLLECTION)
+        .where("status", "==", "pending")
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+        .get();
+
+      logger.info(`Retrying ${dueSnapshot.size} penalty charges`);
+
+      // applyPenaltyCharge records its own errors on the penalty
+      for (const doc of dueSnapshot.docs) {
+        await applyPenaltyCharge(doc.id);
+      }
+    } catch (error) {
+      logger.error("Error retrying penalty charges:", error);
+      throw error;
+    }
+  }
+);
+
+// Refund a charged penalty. Restricted to admins.
+// The penalty is claimed as "refunding" first so concurrent calls can't both
+// refund it, and the penalty id is the idempotency key, so a retry after an
+// interrupted call never refunds twice.
+export const refundPenalty = onCall(async (request) => {
+  if (!request.auth?.token?.admin) {
+    throw new HttpsError("permission-denied", "Only admins can refund");
+  }
+
+  const penaltyId = request.data?.penaltyId;
+  if (!penaltyId) {
+    throw new HttpsError("invalid-argument", "Missing penaltyId");
+  }
+
+  const penaltyRef = admin
+    .firestore()
+    .collection(PENALTIES_COLLECTION)
+    .doc(penaltyId);
+  const penalty = await admin.firestore().runTransaction(async (tx) => {
+    const penaltyDoc = await tx.get(penaltyRef);
+    const penalty = penaltyDoc.data() as Penalty | undefined;
+
+    if (!penalty) {
+      throw new HttpsError("not-found", `Penalty ${penaltyId} not found`);
+    }
+    if (penalty.status !== "charged") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Penalty ${penaltyId} is ${penalty.status}, not charged`
+      );
+    }
+
+    tx.update(penaltyRef, { status: "refunding" });
+    return penalty;
+  });
+
+  try {
+    const { refundId } = await getPaymentProvider().refund({
+      idempotencyKey: penaltyId,
+      chargeId: penalty.chargeId,
+      amount: penalty.amount,
+      currency: penalty.currency,
+    });
+
+    await penaltyRef.update({
+      status: "refunded",
+      refundId,
+      refundedAt: admin.firestore.FieldValue.serverTimestamp(),
+      refundError: admin.firestore.FieldValue.delete(),
+    });
+
+    logger.info(`Refunded penalty ${penaltyId} (${refundId})`);
+    return { status: "refunded" };
+  } catch (error) {
+    logger.error(`Error refunding penalty ${penaltyId}:`, error);
+    await penaltyRef.update({
+      status: "charged",
+      refundError: String(error?.message || error),
+    });
+    throw new HttpsError("internal", `Could not refund penalty ${penaltyId}`);
+  }
+});
+
+// Charge a pending penalty through the payment provider.
+// The penalty id is the idempotency key, so retrying never charges twice.
+// A failed attempt is retried with exponential backoff, up to
+// MAX_CHARGE_ATTEMPTS attempts; then the penalty is marked "failed".
+async function applyPenaltyCharge(penaltyId: string): Promise<void> {
+  const penaltyRef = admin
+    .firestore()
+    .collection(PENALTIES_COLLECTION)
+    .doc(penaltyId);
+  const penaltyDoc = await penaltyRef.get();
+  const penalty = penaltyDoc.data() as Penalty | undefined;
+
+  if (!penalty || penalty.status !== "pending") {
+    return;
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const { chargeId } = await provider.charge({
+      idempotencyKey: penaltyId,
+      userId: penalty.userId,
+      amount: penalty.amount,
+      currency: penalty.currency,
+      description: `ClockBlocked missed alarm ${penalty.alarmId}`,
+    });
+
+    await penaltyRef.update({
+      status: "charged",
+      provider: provider.name,
+      chargeId,
+      chargedAt: admin.firestore.FieldValue.serverTimestamp(),
+      nextAttemptAt: admin.firestore.FieldValue.delete(),
+      lastError: admin.firestore.FieldValue.delete(),
+    });
+    logger.info(`Charged penalty ${penaltyId} (${chargeId})`);
+  } catch (error) {
+    const attempts = (penalty.attempts || 0) + 1;
+    const lastError = String(error?.message || error);
+
+    if (attempts >= MAX_CHARGE_ATTEMPTS) {
+      logger.error(
+        `Giving up on penalty ${penaltyId} after ${attempts} attempts:`,
+        error
+      );
+      await penaltyRef.update({
+        status: "failed",
+        attempts,
+        lastError,
+        failedAt: admin.firestore.FieldValue.serverTimestamp(),
+        nextAttemptAt: admin.firestore.FieldValue.delete(),
+      });
+      return;
+    }
+
+    const delayMinutes = CHARGE_RETRY_BASE_MINUTES * 2 ** (attempts - 1);
+    logger.error(
+      `Error charging penalty ${penaltyId} (attempt ${attempts}), retrying in ${delayMinutes} minutes:`,
+      error
+    );
+    await penaltyRef.update({
+      attempts,
+      lastError,
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(
+        Date.now() + delayMinutes * 60 * 1000
+      ),
+    });
+  }
+}
@@ -0,0 +1,185 @@
+// Expo push service abstraction used to send pushes and read their receipts.
+// The emulator uses the in-memory fake; everywhere else talks to Expo.
+
+const EXPO_PUSH_SEND_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_PUSH_RECEIPTS_URL = "https://exp.host/--/api/v2/push/getReceipts";
+
+// Expo accepts at most 100 messages per send request
+export const EXPO_PUSH_CHUNK_SIZE = 100;
+
+// Retries for transient failures (network errors, 429s and 5xxs)
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export type ExpoPushMessage = {
+  to: string;
+  sound?: string;
+  title?: string;
+  body?: string;
+  priority?: "default" | "normal" | "high";
+  data?: Record<string, unknown>;
+};
+
+export type ExpoPushError = {
+  status: "error";
+  message: string;
+  details?: { error?: string };
+};
+
+// One ticket per message, in the order the messages were sent
+export type ExpoPushTicket = { status: "ok"; id: string } | ExpoPushError;
+
+export type ExpoPushReceipt = { status: "ok" } | ExpoPushError;
+
+export interface ExpoPushClient {
+  name: string;
+  sendPushNotifications(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]>;
+  // Receipts that aren't ready yet are missing from the result
+  getPushReceipts(
+    ticketIds: string[]
+  ): Promise<Record<string, ExpoPushReceipt>>;
+}
+
+// Error code for tokens whose app was uninstalled or whose token expired
+export const DEVICE_NOT_REGISTERED = "DeviceNotRegistered";
+
+export const getPushErrorCode = (result: ExpoPushError): string =>
+  result.details?.error || "Unknown";
+
+// A failed request to Expo. Network errors have no status.
+export class ExpoPushRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null
+  ) {
+    super(message);
+    this.name = "ExpoPushRequestError";
+  }
+
+  get isTransient(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
+
+async function postToExpo(url: string, body: unknown): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ExpoPushRequestError(`Expo push request failed: ${error}`, null);
+  }
+
+  // Gateway errors may not be JSON
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.errors) {
+    throw new ExpoPushRequestError(
+      `Expo push request failed (${response.status}): ${JSON.stringify(
+        result.errors || result
+      )}`,
+      response.status
+    );
+  }
+  return result.data;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Run a request to Expo, retrying transient failures with exponential
+// backoff and jitter
+export async function withPushRetry<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const isTransient =
+        error instanceof ExpoPushRequestError && error.isTransient;
+      if (!isTransient || attempt >= RETRY_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      await sleep(delay + Math.random() * delay);
+    }
+  }
+}
+
+// Split a list into chunks of at most `size`
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Client for Expo's HTTP/2 push API
+export const createExpoHttpPushClient = (): ExpoPushClient => ({
+  name: "expo",
+  sendPushNotifications: async (messages) => {
+    const data = await postToExpo(EXPO_PUSH_SEND_URL, messages);
+    // A single message may come back as a single ticket
+    return Array.isArray(data) ? data : [data];
+  },
+  getPushReceipts: async (ticketIds) =>
+    postToExpo(EXPO_PUSH_RECEIPTS_URL, { ids: ticketIds }),
+});
+
+// In-memory client for tests and the emulator. Every ticket succeeds, and
+// every receipt succeeds unless its token was marked unregistered.
+export const createFakeExpoPushClient = (
+  unregisteredTokens: string[] = []
+): ExpoPushClient & { sent: ExpoPushMessage[] } => {
+  const sent: ExpoPushMessage[] = [];
+  const tokensByTicket = new Map<string, string>();
+
+  return {
+    name: "fake",
+    sent,
+    sendPushNotifications: async (messages) =>
+      messages.map((message) => {
+        sent.push(message);
+        const id = `fake_ticket_${sent.length}`;
+        tokensByTicket.set(id, message.to);
+        return { status: "ok", id };
+      }),
+    getPushReceipts: async (ticketIds) => {
+      const receipts: Record<string, ExpoPushReceipt> = {};
+      for (const id of ticketIds) {
+        const token = tokensByTicket.get(id);
+        if (token === undefined) continue;
+
+        receipts[id] = unregisteredTokens.includes(token)
+          ? {
+              status: "error",
+              message: `${token} is not a registered push token`,
+              details: { error: DEVICE_NOT_REGISTERED },
+            }
+          : { status: "ok" };
+      }
+      return receipts;
+    },
+  };
+};
+
+let expoPushClient: ExpoPushClient | null = null;
+
+// Swap in a client (e.g. a fake in tests)
+export const setExpoPushClient = (client: ExpoPushClient | null) => {
+  expoPushClient = client;
+};
+
+export const getExpoPushClient = (): ExpoPushClient => {
+  if (expoPushClient) return expoPushClient;
+
+  expoPushClient =
+    process.env.FUNCTIONS_EMULATOR === "true"
+      ? createFakeExpoPushClient()
+      : createExpoHttpPushClient();
+  return expoPushClient;
+};
@@ -0,0 +1,227 @@
+import * as admin from "firebase-admin";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import {
+  DEVICE_NOT_REGISTERED,
+  ExpoPushError,
+  ExpoPushMessage,
+  ExpoPushTicket,
+  getExpoPushClient,
+  getPushErrorCode,
+  withPushRetry,
+} from "./push.js";
+
+// Tickets waiting for their receipt. Server-only.
+const PUSH_TICKETS_COLLECTION = "push_tickets";
+
+// Expo recommends waiting ~15 minutes before reading receipts,
+// and drops them after a day
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+// Expo accepts at most 1000 ids per getReceipts request
+const RECEIPT_BATCH_SIZE = 1000;
+// Batches are read until none are due or the run has used this much of its
+// 540 second timeout; the rest wait for the next run
+const RUN_TIMEOUT_SECONDS = 540;
+const RUN_BUDGET_MS = 480 * 1000;
+
+// A push message and the device it was sent to
+export type PushSend = {
+  userId: string;
+  deviceId: string; // users/{userId}/devices/{deviceId}
+  message: ExpoPushMessage;
+};
+
+type PushTicketDoc = {
+  userId: string;
+  deviceId: string;
+  pushToken: string;
+  createdAt: admin.firestore.Timestamp;
+};
+
+// Persist accepted tickets for processPushReceipts and handle the ones Expo
+// rejected outright. `tickets` are in the same order as `sends`; at most one
+// send request's worth (100), so they fit in one batch.
+export async function recordPushTickets(
+  sends: PushSend[],
+  tickets: ExpoPushTicket[]
+): Promise<void> {
+  const db = admin.firestore();
+  const batch = db.batch();
+
+  for (let i = 0; i < tickets.length; i++) {
+    const ticket = tickets[i];
+    const { userId, deviceId } = sends[i];
+    const pushToken = sends[i].message.to;
+
+    if (ticket.status === "ok") {
+      logger.info(`Push to ${pushToken} accepted (ticket ${ticket.id})`);
+      batch.set(db.collection(PUSH_TICKETS_COLLECTION).doc(ticket.id), {
+        userId,
+        deviceId,
+        pushToken,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      await handlePushError(userId, deviceId, pushToken, ticket);
+    }
+  }
+
+  await batch.commit();
+}
+
+// Read receipts for tickets old enough to have one. Successful and failed
+// deliveries update the user's delivery health; unregistered tokens are
+// removed so we stop pushing to them.
+export const processPushReceipts = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    timeoutSeconds: RUN_TIMEOUT_SECONDS,
+    maxInstances: 1,
+  },
+  async (event): Promise<void> => {
+    const now = Date.now();
+    const dueTickets = admin
+      .firestore()
+      .collection(PUSH_TICKETS_COLLECTION)
+      .where(
+        "createdAt",
+        "<=",
+        admin.firestore.Timestamp.fromMillis(now - RECEIPT_DELAY_MS)
+      )
+      .orderBy("createdAt")
+      .limit(RECEIPT_BATCH_SIZE);
+
+    // Page with a cursor: tickets whose receipts aren't ready stay behind
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+    let ticketCount = 0;
+    while (Date.now() - now < RUN_BUDGET_MS) {
+      const ticketsSnapshot = await (
+        lastDoc ? dueTickets.startAfter(lastDoc) : dueTickets
+      ).get();
+      if (ticketsSnapshot.empty) break;
+
+      await processReceiptBatch(ticketsSnapshot.docs, now);
+      ticketCount += ticketsSnapshot.size;
+      lastDoc = ticketsSnapshot.docs[ticketsSnapshot.size - 1];
+      if (ticketsSnapshot.size < RECEIPT_BATCH_SIZE) break;
+    }
+
+    if (ticketCount > 0) {
+      logger.info(`Read receipts for ${ticketCount} push tickets`);
+    }
+  }
+);
+
+// Read the receipts of one batch of tickets and handle each
+async function processReceiptBatch(
+  ticketDocs: admin.firestore.QueryDocumentSnapshot[],
+  now: number
+): Promise<void> {
+  const ticketIds = ticketDocs.map((doc) => doc.id);
+  const receipts = await withPushRetry(() =>
+    getExpoPushClient().getPushReceipts(ticketIds)
+  );
+
+  for (const doc of ticketDocs) {
+    const ticket = doc.data() as PushTicketDoc;
+    const receipt = receipts[doc.id];
+
+    try {
+      if (!receipt) {
+        // Not ready yet; give up once Expo has dropped it
+        if (ticket.createdAt.toMillis() + RECEIPT_TTL_MS < now) {
+          logger.warn(`Receipt for ticket ${doc.id} never arrived`);
+          await doc.ref.delete();
+        }
+        continue;
+      }
+
+      if (receipt.status === "ok") {
+        await recordDeliveryHealth(ticket.userId, null);
+      } else {
+        await handlePushError(
+          ticket.userId,
+          ticket.deviceId,
+          ticket.pushToken,
+          receipt
+        );
+      }
+      await doc.ref.delete();
+    } catch (error) {
+      logger.error(`Error processing receipt for ticket ${doc.id}:`, error);
+    }
+  }
+}
+
+// Record a failed push and drop the token if the device is gone
+async function handlePushError(
+  userId: string,
+  deviceId: string,
+  pushToken: string,
+  result: ExpoPushError
+): Promise<void> {
+  const errorCode = getPushErrorCode(result);
+  logger.error(
+    `Failed to deliver push to ${pushToken} (${errorCode}):`,
+    result.message
+  );
+
+  if (errorCode === DEVICE_NOT_REGISTERED) {
+    await removeDevice(userId, deviceId, pushToken);
+  }
+  await recordDeliveryHealth(userId, errorCode);
+}
+
+// Remove a device with a dead token, unless it has registered a new token
+// since (e.g. the app was reinstalled)
+async function removeDevice(
+  userId: string,
+  deviceId: string,
+  pushToken: string
+): Promise<void> {
+  const deviceRef = admin
+    .firestore()
+    .collection("users")
+    .doc(userId)
+    .collection("devices")
+    .doc(deviceId);
+
+  await admin.firestore().runTransaction(async (tx) => {
+    const deviceDoc = await tx.get(deviceRef);
+    if (deviceDoc.data()?.expoPushToken !== pushToken) return;
+
+    tx.delete(deviceRef);
+    logger.info(`Removed unregistered device ${deviceId} of user ${userId}`);
+  });
+}
+
+// Track delivery health on the user document.
+// errorCode is null for a successful delivery.
+async function recordDeliveryHealth(
+  userId: string,
+  errorCode: string | null
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const update =
+    errorCode === null
+      ? {
+          "pushDelivery.lastSuccessAt": now,
+          "pushDelivery.consecutiveFailures": 0,
+        }
+      : {
+          "pushDelivery.lastFailureAt": now,
+          "pushDelivery.lastError": errorCode,
+          "pushDelivery.consecutiveFailures":
+            admin.firestore.FieldValue.increment(1),
+        };
+
+  try {
+    await admin.firestore().collection("users").doc(userId).update(update);
+  } catch (error) {
+    // The user may have deleted their account since the push was sent
+    logger.warn(`Could not record push delivery for user ${userId}:`, error);
+  }
+}
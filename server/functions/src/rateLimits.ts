@@ -0,0 +1,40 @@
+import * as admin from "firebase-admin";
+
+// Fixed-window counters, keyed by "<action>:<uid>".
+// Firestore rules deny all client access to this collection.
+const RATE_LIMITS_COLLECTION = "rate_limits";
+
+type RateLimitWindow = {
+  windowStart: admin.firestore.Timestamp;
+  count: number;
+};
+
+// Count one use of a rate-limited action. Returns false (and counts nothing)
+// if `limit` uses already happened in the current window.
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<boolean> {
+  const ref = admin.firestore().collection(RATE_LIMITS_COLLECTION).doc(key);
+
+  return admin.firestore().runTransaction(async (tx) => {
+    const now = Date.now();
+    const current = (await tx.get(ref)).data() as RateLimitWindow | undefined;
+
+    if (!current || current.windowStart.toMillis() + windowMs <= now) {
+      tx.set(ref, {
+        windowStart: admin.firestore.Timestamp.fromMillis(now),
+        count: 1,
+      });
+      return true;
+    }
+
+    if (current.count >= limit) {
+      return false;
+    }
+
+    tx.update(ref, { count: current.count + 1 });
+    return true;
+  });
+}
@@ -0,0 +1,189 @@
+import * as admin from "firebase-admin";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as logger from "firebase-functions/logger";
+import {
+  alarmSentOutConverter,
+  buildWeeklyReport,
+  DEFAULT_TIME_ZONE,
+  getOccurrenceTime,
+  getReportId,
+  getReportWeek,
+  getWeekBounds,
+  isValidTimeZone,
+  renderWeeklyReport,
+  ReportAmount,
+  STATS_WINDOW_DAYS,
+  WeeklyReport,
+} from "@clockblocked/shared";
+import { sendUserPushes, UserPush } from "./devicePushes.js";
+
+// One report per user and week, keyed by "<uid>_<weekStart>". Clients can
+// only read their own.
+const REPORTS_COLLECTION = "reports";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Challenges sent this far back cover the report week in every time zone
+const ACTIVE_USER_LOOKBACK_DAYS = 10;
+
+// Every Monday, build last week's report for each user with challenges in it
+// and push its summary. Safe to re-run: existing reports are neither rebuilt
+// nor pushed again.
+export const generateWeeklyReports = onSchedule(
+  {
+    schedule: "0 9 * * 1",
+    timeZone: "UTC",
+    memory: "256MiB",
+    maxInstances: 1,
+  },
+  async (event): Promise<void> => {
+    const now = new Date();
+
+    try {
+      const sentOutsSnapshot = await admin
+        .firestore()
+        .collection("alarms_sent_out")
+        .where(
+          "sentAt",
+          ">=",
+          admin.firestore.Timestamp.fromDate(
+            new Date(now.getTime() - ACTIVE_USER_LOOKBACK_DAYS * MS_PER_DAY)
+          )
+        )
+        .get();
+      const userIds = new Set(
+        sentOutsSnapshot.docs.map((doc) => doc.data().userId as string)
+      );
+      logger.info(`Building weekly reports for ${userIds.size} users`);
+
+      const pushes: UserPush[] = [];
+      for (const userId of userIds) {
+        try {
+          const report = await createWeeklyReport(userId, now);
+          if (report) {
+            pushes.push(buildReportPush(report));
+          }
+        } catch (error) {
+          logger.error(`Error building weekly report for ${userId}:`, error);
+        }
+      }
+
+      await sendUserPushes(pushes, "report");
+    } catch (error) {
+      logger.error("Error generating weekly reports:", error);
+    }
+  }
+);
+
+// Build and store a user's report for the last full week in their zone
+// @returns The new report, or null if it already exists or the week was empty
+async function createWeeklyReport(
+  userId: string,
+  now: Date
+): Promise<WeeklyReport | null> {
+  const userDoc = await admin.firestore().collection("users").doc(userId).get();
+  const userTimeZone = userDoc.data()?.timeZone;
+  const timeZone = isValidTimeZone(userTimeZone)
+    ? userTimeZone
+    : DEFAULT_TIME_ZONE;
+
+  const { weekStart } = getReportWeek(now, timeZone);
+  const reportRef = admin
+    .firestore()
+    .collection(REPORTS_COLLECTION)
+    .doc(getReportId(userId, weekStart));
+  if ((await reportRef.get()).exists) {
+    return null;
+  }
+
+  // Reach back as far as the stats do, for the streak
+  const { start, end } = getWeekBounds(weekStart, timeZone);
+  const sentOutsSnapshot = await admin
+    .firestore()
+    .collection("alarms_sent_out")
+    .withConverter(alarmSentOutConverter)
+    .where("userId", "==", userId)
+    .where(
+      "sentAt",
+      ">=",
+      admin.firestore.Timestamp.fromDate(
+        new Date(start.getTime() - STATS_WINDOW_DAYS * MS_PER_DAY)
+      )
+    )
+    .where("sentAt", "<", admin.firestore.Timestamp.fromDate(end))
+    .get();
+  const sentOuts = sentOutsSnapshot.docs.map((doc) => doc.data());
+  const weekFailureIds = sentOuts
+    .filter((sentOut) => {
+      const occurrence = getOccurrenceTime(sentOut);
+      return (
+        sentOut.challengeStatus === "failed" &&
+        occurrence >= start &&
+        occurrence < end
+      );
+    })
+    .map((sentOut) => sentOut.id);
+
+  const report = buildWeeklyReport(
+    userId,
+    weekStart,
+    timeZone,
+    sentOuts,
+    await getChargedPenalties(weekFailureIds)
+  );
+  if (report.alarmsFired === 0) {
+    return null;
+  }
+
+  await reportRef.create({
+    ...report,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  logger.info(`Created weekly report ${reportRef.id}`);
+  return report;
+}
+
+// Charged penalties of the given challenges, keyed by their id (penalties
+// share the id of their alarms_sent_out entry)
+async function getChargedPenalties(
+  sentOutIds: string[]
+): Promise<Record<string, ReportAmount>> {
+  const penalties: Record<string, ReportAmount> = {};
+  if (sentOutIds.length === 0) {
+    return penalties;
+  }
+
+  const penaltyDocs = await admin
+    .firestore()
+    .getAll(
+      ...sentOutIds.map((id) =>
+        admin.firestore().collection("penalties").doc(id)
+      )
+    );
+  for (const penaltyDoc of penaltyDocs) {
+    const penalty = penaltyDoc.data();
+    if (penalty?.status === "charged") {
+      penalties[penaltyDoc.id] = {
+        amount: penalty.amount,
+        currency: penalty.currency,
+      };
+    }
+  }
+  return penalties;
+}
+
+function buildReportPush(report: WeeklyReport): UserPush {
+  const { title, summary } = renderWeeklyReport(report);
+  return {
+    userId: report.userId,
+    message: {
+      data: {
+        type: "report",
+        reportId: getReportId(report.userId, report.weekStart),
+      },
+      sound: "default",
+      title,
+      body: summary,
+      priority: "default",
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import * as admin from "firebase-admin";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  alarmSentOutConverter,
+  computeWakeStats,
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  STATS_WINDOW_DAYS,
+} from "@clockblocked/shared";
+
+// Cached wake-up stats, one document per user. Clients can only read their own.
+const STATS_COLLECTION = "stats";
+
+// Recompute a user's stats when one of their challenges is created, resolved
+// or deleted. Attempts and snoozes on a pending challenge don't change them.
+export const updateUserStats = onDocumentWritten(
+  "alarms_sent_out/{sentOutId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (before && after && before.challengeStatus === after.challengeStatus) {
+      return;
+    }
+
+    const userId = (after || before)?.userId;
+    if (!userId) return;
+
+    try {
+      await recomputeUserStats(userId);
+    } catch (error) {
+      logger.error(`Error updating stats for user ${userId}:`, error);
+      throw error;
+    }
+  }
+);
+
+// Compute stats over the user's last STATS_WINDOW_DAYS of challenges, in
+// their current time zone
+async function recomputeUserStats(userId: string): Promise<void> {
+  const now = new Date();
+  const since = new Date(
+    now.getTime() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const [userDoc, sentOutsSnapshot] = await Promise.all([
+    admin.firestore().collection("users").doc(userId).get(),
+    admin
+      .firestore()
+      .collection("alarms_sent_out")
+      .withConverter(alarmSentOutConverter)
+      .where("userId", "==", userId)
+      .where("sentAt", ">=", admin.firestore.Timestamp.fromDate(since))
+      .get(),
+  ]);
+
+  const timeZone = userDoc.data()?.timeZone;
+  const stats = computeWakeStats(
+    sentOutsSnapshot.docs.map((doc) => doc.data()),
+    isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    now
+  );
+
+  await admin
+    .firestore()
+    .collection(STATS_COLLECTION)
+    .doc(userId)
+    .set({
+      ...stats,
+      windowDays: STATS_WINDOW_DAYS,
+      computedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  logger.info(
+    `Updated stats for user ${userId} from ${sentOutsSnapshot.size} challenges`
+  );
+}
@@ -0,0 +1,151 @@
+import * as admin from "firebase-admin";
+import { issueChallenge, submitChallenge } from "../src/challenges.js";
+import { clearFirestore } from "./helpers.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const db = () => admin.firestore();
+
+// A UTC date key some days from today
+const dateKeyIn = (days: number) =>
+  new Date(Date.now() + days * DAY).toISOString().slice(0, 10);
+
+// alarm1 rings every day at 07:00 UTC
+const seedAlarm = () =>
+  db()
+    .collection("alarms")
+    .doc("alarm1")
+    .set({
+      userId: "alice",
+      hours: 7,
+      minutes: 0,
+      selectedDays: [0, 1, 2, 3, 4, 5, 6],
+      date: null,
+      recurrence: null,
+      isEnabled: true,
+      challengeType: "phrase",
+      timeZone: "UTC",
+      stakeAmount: null,
+      stakeCurrency: null,
+      createdAt: admin.firestore.Timestamp.fromMillis(0),
+    });
+
+const seedSentOut = (sentOutId: string, overrides: object = {}) =>
+  db()
+    .collection("alarms_sent_out")
+    .doc(sentOutId)
+    .set({
+      userId: "alice",
+      alarmId: "alarm1",
+      occurrenceKey: sentOutId,
+      scheduledFor: admin.firestore.Timestamp.fromMillis(Date.now() - 60000),
+      sentAt: admin.firestore.Timestamp.now(),
+      challengeStatus: "pending",
+      ...overrides,
+    });
+
+const seedAnswer = (sentOutId: string) =>
+  db()
+    .collection("challenge_answers")
+    .doc(sentOutId)
+    .set({
+      userId: "alice",
+      type: "phrase",
+      payload: JSON.stringify({ phrase: "I am unstoppable" }),
+      answer: "I am unstoppable",
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+const issue = (sentOutId: string) =>
+  issueChallenge.run({ auth: { uid: "alice" }, data: { sentOutId } } as any);
+
+const submit = (sentOutId: string, answer: string) =>
+  submitChallenge.run({
+    auth: { uid: "alice" },
+    data: { sentOutId, answer },
+  } as any);
+
+beforeEach(async () => {
+  await clearFirestore();
+  await seedAlarm();
+});
+
+describe("issueChallenge", () => {
+  it("issues the challenge of an occurrence that has rung", async () => {
+    const sentOutId = `alarm1_${dateKeyIn(-1)}`;
+    await seedSentOut(sentOutId);
+
+    const issued = await issue(sentOutId);
+
+    expect(issued.type).toBe("phrase");
+    expect(JSON.parse(issued.payload).phrase).toEqual(expect.any(String));
+  });
+
+  it("refuses an occurrence that hasn't rung, whatever scheduledFor says", async () => {
+    // Tomorrow's entry, opened early with a scheduledFor in the past
+    const sentOutId = `alarm1_${dateKeyIn(1)}`;
+    await seedSentOut(sentOutId);
+
+    await expect(issue(sentOutId)).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+  });
+
+  it("refuses keys that aren't an occurrence of the alarm", async () => {
+    await db()
+      .collection("alarms")
+      .doc("alarm1")
+      .update({ selectedDays: [], date: dateKeyIn(-3) });
+    const sentOutId = `alarm1_${dateKeyIn(-1)}`;
+    await seedSentOut(sentOutId);
+
+    await expect(issue(sentOutId)).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+  });
+});
+
+describe("submitChallenge", () => {
+  it("refuses answers before the occurrence has rung", async () => {
+    const sentOutId = `alarm1_${dateKeyIn(1)}`;
+    await seedSentOut(sentOutId);
+    await seedAnswer(sentOutId);
+
+    await expect(submit(sentOutId, "I am unstoppable")).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+    const sentOut = await db()
+      .collection("alarms_sent_out")
+      .doc(sentOutId)
+      .get();
+    expect(sentOut.data().challengeStatus).toBe("pending");
+  });
+
+  it("refuses answers after the challenge has expired", async () => {
+    const sentOutId = `alarm1_${dateKeyIn(-1)}`;
+    await seedSentOut(sentOutId, {
+      sentAt: admin.firestore.Timestamp.fromMillis(Date.now() - 16 * 60000),
+    });
+    await seedAnswer(sentOutId);
+
+    await expect(submit(sentOutId, "I am unstoppable")).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+    const sentOut = await db()
+      .collection("alarms_sent_out")
+      .doc(sentOutId)
+      .get();
+    expect(sentOut.data().challengeStatus).toBe("pending");
+  });
+
+  it("accepts a correct answer within the window", async () => {
+    const sentOutId = `alarm1_${dateKeyIn(-1)}`;
+    await seedSentOut(sentOutId);
+    await seedAnswer(sentOutId);
+
+    await expect(submit(sentOutId, "I am unstoppable")).resolves.toEqual({
+      success: true,
+      attemptsMade: 1,
+    });
+  });
+});
@@ -0,0 +1,482 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import firebase from "firebase/compat/app";
+import "firebase/compat/firestore";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+const { FieldValue, Timestamp } = firebase.firestore;
+
+const ALICE = "alice";
+const BOB = "bob";
+
+let testEnv: RulesTestEnvironment;
+
+// Firestore of a signed-in user, or of a signed-out client
+const asUser = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+const asSignedOut = () => testEnv.unauthenticatedContext().firestore();
+
+// Write documents as the Admin SDK would, bypassing the rules
+const seed = (docs: Record<string, object>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    for (const [path, data] of Object.entries(docs)) {
+      await context.firestore().doc(path).set(data);
+    }
+  });
+
+const alarmData = (overrides: object = {}) => ({
+  userId: ALICE,
+  hours: 7,
+  minutes: 0,
+  selectedDays: [1, 2, 3, 4, 5],
+  isEnabled: true,
+  challengeType: "phrase",
+  timeZone: "UTC",
+  stakeAmount: null,
+  stakeCurrency: null,
+  createdAt: FieldValue.serverTimestamp(),
+  ...overrides,
+});
+
+// Today's occurrence of alarm1 (a UTC alarm set to ring at the start of
+// this minute)
+const now = new Date();
+const occurrenceKey = `alarm1_${now.toISOString().slice(0, 10)}`;
+const scheduledFor = Timestamp.fromMillis(
+  Math.floor(now.getTime() / 60000) * 60000
+);
+const ringsAt = (at: Date) => ({
+  hours: at.getUTCHours(),
+  minutes: at.getUTCMinutes(),
+});
+
+const pendingSentOut = (overrides: object = {}) => ({
+  userId: ALICE,
+  alarmId: "alarm1",
+  occurrenceKey,
+  scheduledFor,
+  sentAt: FieldValue.serverTimestamp(),
+  challengeStatus: "pending",
+  ...overrides,
+});
+
+const missedSentOut = (overrides: object = {}) => ({
+  userId: ALICE,
+  alarmId: "alarm1",
+  occurrenceKey,
+  scheduledFor,
+  sentAt: scheduledFor,
+  challengeStatus: "failed",
+  failureReason: "missed",
+  attemptsMade: 0,
+  completedAt: FieldValue.serverTimestamp(),
+  ...overrides,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-clockblocked",
+    firestore: {
+      rules: readFileSync(resolve(__dirname, "../../firestore.rules"), "utf8"),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe("users", () => {
+  it("lets users create, read and delete their own document", async () => {
+    const db = asUser(ALICE);
+    await assertSucceeds(
+      db.doc(`users/${ALICE}`).set({
+        isAnonymous: true,
+        createdAt: FieldValue.serverTimestamp(),
+        answers: {},
+        timeZone: "Europe/Berlin",
+      })
+    );
+    await assertSucceeds(db.doc(`users/${ALICE}`).get());
+    await assertSucceeds(db.doc(`users/${ALICE}`).delete());
+  });
+
+  it("keeps other users and signed-out clients out", async () => {
+    await seed({ [`users/${ALICE}`]: { timeZone: "UTC" } });
+
+    await assertFails(asUser(BOB).doc(`users/${ALICE}`).get());
+    await assertFails(
+      asUser(BOB).doc(`users/${ALICE}`).update({ timeZone: "Asia/Tokyo" })
+    );
+    await assertFails(asSignedOut().doc(`users/${ALICE}`).get());
+  });
+
+  it("rejects server-written fields at sign-up", async () => {
+    const user = asUser(ALICE).doc(`users/${ALICE}`);
+    await assertFails(
+      user.set({ answers: {}, timeZone: "UTC", donationCount: 5 })
+    );
+    await assertFails(
+      user.set({ answers: {}, timeZone: "UTC", donationStrategy: "weighted" })
+    );
+    await assertFails(
+      user.set({ answers: {}, createdAt: Timestamp.fromMillis(0) })
+    );
+  });
+
+  it("lets users update only their time zone and healing mark", async () => {
+    await seed({
+      [`users/${ALICE}`]: {
+        answers: { climate: "Agree" },
+        timeZone: "UTC",
+        donationCount: 3,
+      },
+    });
+    const user = asUser(ALICE).doc(`users/${ALICE}`);
+
+    await assertSucceeds(user.update({ timeZone: "Asia/Tokyo" }));
+    await assertSucceeds(
+      user.set(
+        { scheduleHealedAt: Timestamp.fromMillis(now.getTime() - 900000) },
+        { merge: true }
+      )
+    );
+    await assertFails(user.update({ timeZone: 5 }));
+    await assertFails(user.update({ answers: { climate: "Disagree" } }));
+    await assertFails(user.update({ donationStrategy: "weighted" }));
+    await assertFails(user.update({ issueWeights: { climate: 10 } }));
+    await assertFails(user.update({ donationCount: 0 }));
+    await assertFails(user.update({ "pushDelivery.consecutiveFailures": 0 }));
+  });
+
+  it("doesn't let the healing mark move into the future", async () => {
+    await seed({ [`users/${ALICE}`]: { timeZone: "UTC" } });
+    await assertFails(
+      asUser(ALICE)
+        .doc(`users/${ALICE}`)
+        .update({
+          scheduleHealedAt: Timestamp.fromMillis(now.getTime() + 86400000),
+        })
+    );
+  });
+
+  it("lets users register their own devices only", async () => {
+    await assertSucceeds(
+      asUser(ALICE)
+        .doc(`users/${ALICE}/devices/device1`)
+        .set({ userId: ALICE, expoPushToken: "ExponentPushToken[a]" })
+    );
+    await assertFails(
+      asUser(ALICE)
+        .doc(`users/${ALICE}/devices/device2`)
+        .set({ userId: BOB, expoPushToken: "ExponentPushToken[b]" })
+    );
+    await assertFails(
+      asUser(BOB)
+        .doc(`users/${ALICE}/devices/device3`)
+        .set({ userId: ALICE, expoPushToken: "ExponentPushToken[c]" })
+    );
+  });
+});
+
+describe("alarms", () => {
+  it("lets users create valid alarms of their own", async () => {
+    await assertSucceeds(asUser(ALICE).collection("alarms").add(alarmData()));
+    await assertSucceeds(
+      asUser(ALICE)
+        .collection("alarms")
+        .add(alarmData({ stakeAmount: 500, stakeCurrency: "USD" }))
+    );
+  });
+
+  it("rejects alarms for another user, for a group or backdated", async () => {
+    const alarms = asUser(ALICE).collection("alarms");
+    await assertFails(alarms.add(alarmData({ userId: BOB })));
+    await assertFails(alarms.add(alarmData({ groupId: "group1" })));
+    await assertFails(
+      alarms.add(alarmData({ createdAt: Timestamp.fromMillis(0) }))
+    );
+    await assertFails(asSignedOut().collection("alarms").add(alarmData()));
+  });
+
+  it("rejects malformed alarms", async () => {
+    const alarms = asUser(ALICE).collection("alarms");
+    await assertFails(alarms.add(alarmData({ hours: 24 })));
+    await assertFails(alarms.add(alarmData({ minutes: 7.5 })));
+    await assertFails(alarms.add(alarmData({ selectedDays: "weekdays" })));
+    await assertFails(alarms.add(alarmData({ stakeAmount: 0 })));
+    await assertFails(
+      alarms.add(alarmData({ stakeAmount: 500, stakeCurrency: "usd" }))
+    );
+    await assertFails(
+      alarms.add(alarmData({ stakeAmount: 500, stakeCurrency: 840 }))
+    );
+    await assertSucceeds(
+      alarms.add(alarmData({ stakeAmount: 500, stakeCurrency: "USD" }))
+    );
+  });
+
+  it("lets only the owner read, update and delete an alarm", async () => {
+    await seed({
+      "alarms/alarm1": alarmData({ createdAt: Timestamp.fromMillis(0) }),
+    });
+
+    await assertSucceeds(asUser(ALICE).doc("alarms/alarm1").get());
+    await assertSucceeds(
+      asUser(ALICE).doc("alarms/alarm1").update({ hours: 8 })
+    );
+    await assertFails(asUser(BOB).doc("alarms/alarm1").get());
+    await assertFails(asUser(BOB).doc("alarms/alarm1").update({ hours: 9 }));
+    await assertFails(asUser(BOB).doc("alarms/alarm1").delete());
+    await assertSucceeds(asUser(ALICE).doc("alarms/alarm1").delete());
+  });
+
+  it("doesn't let alarms be handed over, backdated or made invalid", async () => {
+    await seed({
+      "alarms/alarm1": alarmData({ createdAt: Timestamp.fromMillis(0) }),
+    });
+    const alarm = asUser(ALICE).doc("alarms/alarm1");
+
+    await assertFails(alarm.update({ userId: BOB }));
+    await assertFails(alarm.update({ createdAt: Timestamp.fromMillis(1) }));
+    await assertFails(alarm.update({ groupId: "group1" }));
+    await assertFails(alarm.update({ minutes: 60 }));
+  });
+
+  it("keeps a group alarm's schedule and stake", async () => {
+    await seed({
+      "alarms/alarm1": alarmData({
+        groupId: "group1",
+        stakeAmount: 500,
+        stakeCurrency: "USD",
+        createdAt: Timestamp.fromMillis(0),
+      }),
+    });
+    const alarm = asUser(ALICE).doc("alarms/alarm1");
+
+    await assertSucceeds(alarm.update({ snoozeDelayMinutes: 10 }));
+    await assertFails(alarm.update({ hours: 8 }));
+    await assertFails(alarm.update({ selectedDays: [0, 6] }));
+    await assertFails(alarm.update({ stakeAmount: 100 }));
+    await assertFails(alarm.update({ groupId: null }));
+  });
+});
+
+describe("alarms_sent_out", () => {
+  beforeEach(async () => {
+    await seed({
+      "alarms/alarm1": alarmData({
+        ...ringsAt(scheduledFor.toDate()),
+        createdAt: Timestamp.fromMillis(0),
+      }),
+      "alarms/alarm2": alarmData({
+        userId: BOB,
+        createdAt: Timestamp.fromMillis(0),
+      }),
+    });
+  });
+
+  it("lets the owner open a pending challenge under its occurrence key", async () => {
+    await assertSucceeds(
+      asUser(ALICE)
+        .doc(`alarms_sent_out/${occurrenceKey}`)
+        .set(pendingSentOut())
+    );
+  });
+
+  it("rejects pending challenges that are backdated or already decided", async () => {
+    const sentOut = asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`);
+    await assertFails(
+      sentOut.set(pendingSentOut({ sentAt: Timestamp.fromMillis(0) }))
+    );
+    await assertFails(
+      sentOut.set(pendingSentOut({ challengeStatus: "success" }))
+    );
+    await assertFails(sentOut.set(pendingSentOut({ attemptsMade: 0 })));
+  });
+
+  it("rejects challenges for alarms or users that aren't the caller's", async () => {
+    const bobKey = occurrenceKey.replace("alarm1", "alarm2");
+    await assertFails(
+      asUser(ALICE)
+        .doc(`alarms_sent_out/${bobKey}`)
+        .set(pendingSentOut({ alarmId: "alarm2", occurrenceKey: bobKey }))
+    );
+    await assertFails(
+      asUser(ALICE)
+        .doc(`alarms_sent_out/${occurrenceKey}`)
+        .set(pendingSentOut({ userId: BOB }))
+    );
+  });
+
+  it("rejects entries stored under another id or alarm's key", async () => {
+    await assertFails(
+      asUser(ALICE).doc("alarms_sent_out/random").set(pendingSentOut())
+    );
+    const otherKey = occurrenceKey.replace("alarm1", "alarm2");
+    await assertFails(
+      asUser(ALICE)
+        .doc(`alarms_sent_out/${otherKey}`)
+        .set(pendingSentOut({ occurrenceKey: otherKey }))
+    );
+  });
+
+  it("rejects entries without an occurrence key", async () => {
+    const { occurrenceKey: _key, ...unkeyed } = pendingSentOut();
+    await assertFails(
+      asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`).set(unkeyed)
+    );
+    await assertFails(asUser(ALICE).collection("alarms_sent_out").add(unkeyed));
+  });
+
+  it("rejects occurrences scheduled beyond clock skew in the future", async () => {
+    // alarm1 moved to ring some minutes from now, and that occurrence
+    const openRingingIn = async (minutes: number) => {
+      const at = new Date(scheduledFor.toMillis() + minutes * 60 * 1000);
+      await seed({
+        "alarms/alarm1": alarmData({
+          ...ringsAt(at),
+          createdAt: Timestamp.fromMillis(0),
+        }),
+      });
+      const key = `alarm1_${at.toISOString().slice(0, 10)}`;
+      return asUser(ALICE)
+        .doc(`alarms_sent_out/${key}`)
+        .set(
+          pendingSentOut({
+            occurrenceKey: key,
+            scheduledFor: Timestamp.fromDate(at),
+          })
+        );
+    };
+
+    await assertFails(openRingingIn(10));
+    await assertSucceeds(openRingingIn(1));
+  });
+
+  it("only accepts the alarm's time on the key's date in some time zone", async () => {
+    const hour = 60 * 60 * 1000;
+    await seed({
+      "alarms/alarm1": alarmData({
+        hours: 7,
+        minutes: 0,
+        createdAt: Timestamp.fromMillis(0),
+      }),
+    });
+    // Midnight UTC some days ago, and a missed occurrence keyed by that date
+    const dayAgo = (days: number) =>
+      Date.UTC(
+        now.getUTCFullYear(),
+        now.getUTCMonth(),
+        now.getUTCDate() - days
+      );
+    const missedOn = (day: number, time: number) => {
+      const key = `alarm1_${new Date(day).toISOString().slice(0, 10)}`;
+      const at = Timestamp.fromMillis(time);
+      return asUser(ALICE)
+        .doc(`alarms_sent_out/${key}`)
+        .set(
+          missedSentOut({ occurrenceKey: key, scheduledFor: at, sentAt: at })
+        );
+    };
+
+    // 07:00 at UTC+15 and UTC-13 (no such zones), or at no offset at all
+    await assertFails(missedOn(dayAgo(3), dayAgo(3) - 8 * hour));
+    await assertFails(missedOn(dayAgo(3), dayAgo(3) + 20 * hour));
+    await assertFails(missedOn(dayAgo(3), dayAgo(3) + 7 * hour + 5 * 60000));
+    // 07:00 at UTC+14, UTC-12 and UTC+5:45
+    await assertSucceeds(missedOn(dayAgo(3), dayAgo(3) - 7 * hour));
+    await assertSucceeds(missedOn(dayAgo(4), dayAgo(4) + 19 * hour));
+    await assertSucceeds(
+      missedOn(dayAgo(5), dayAgo(5) + 7 * hour - 5.75 * hour)
+    );
+  });
+
+  it("lets the owner record a missed occurrence in the past", async () => {
+    await assertSucceeds(
+      asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`).set(missedSentOut())
+    );
+  });
+
+  it("rejects missed occurrences in the future, sent apart from their schedule or with attempts", async () => {
+    const sentOut = asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`);
+    const later = Timestamp.fromMillis(now.getTime() + 60000);
+    await assertFails(
+      sentOut.set(missedSentOut({ scheduledFor: later, sentAt: later }))
+    );
+    await assertFails(
+      sentOut.set(missedSentOut({ sentAt: Timestamp.fromMillis(0) }))
+    );
+    await assertFails(sentOut.set(missedSentOut({ attemptsMade: 1 })));
+    await assertFails(
+      sentOut.set(missedSentOut({ failureReason: "timeout_client" }))
+    );
+  });
+
+  it("lets the owner time out a pending challenge, and nothing else", async () => {
+    await seed({
+      [`alarms_sent_out/${occurrenceKey}`]: pendingSentOut({
+        sentAt: scheduledFor,
+      }),
+    });
+    const sentOut = asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`);
+
+    await assertFails(
+      sentOut.update({
+        challengeStatus: "success",
+        completedAt: FieldValue.serverTimestamp(),
+      })
+    );
+    await assertFails(
+      asUser(BOB).doc(`alarms_sent_out/${occurrenceKey}`).update({
+        challengeStatus: "failed",
+        failureReason: "timeout_client",
+        completedAt: FieldValue.serverTimestamp(),
+      })
+    );
+    await assertSucceeds(
+      sentOut.update({
+        challengeStatus: "failed",
+        failureReason: "timeout_client",
+        completedAt: FieldValue.serverTimestamp(),
+      })
+    );
+    // Decided challenges stay decided
+    await assertFails(sentOut.update({ challengeStatus: "pending" }));
+  });
+
+  it("lets the owner read entries, and anyone check for a missing one", async () => {
+    await seed({
+      [`alarms_sent_out/${occurrenceKey}`]: pendingSentOut({
+        sentAt: scheduledFor,
+      }),
+    });
+
+    await assertSucceeds(
+      asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`).get()
+    );
+    await assertFails(
+      asUser(BOB).doc(`alarms_sent_out/${occurrenceKey}`).get()
+    );
+    await assertSucceeds(asUser(BOB).doc("alarms_sent_out/missing").get());
+  });
+
+  it("can't be deleted by clients", async () => {
+    await seed({
+      [`alarms_sent_out/${occurrenceKey}`]: pendingSentOut({
+        sentAt: scheduledFor,
+      }),
+    });
+    await assertFails(
+      asUser(ALICE).doc(`alarms_sent_out/${occurrenceKey}`).delete()
+    );
+  });
+});
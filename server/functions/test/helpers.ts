@@ -0,0 +1,10 @@
+// Delete every document in the emulator's database
+export const clearFirestore = async (): Promise<void> => {
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/demo-clockblocked/databases/(default)/documents`,
+    { method: "DELETE" }
+  );
+  if (!response.ok) {
+    throw new Error(`Clearing Firestore failed: ${response.status}`);
+  }
+};
@@ -0,0 +1,77 @@
+import {
+  createFakePaymentProvider,
+  getPaymentProvider,
+  setPaymentProvider,
+} from "../src/payments.js";
+
+const charge = (idempotencyKey: string) => ({
+  idempotencyKey,
+  userId: "alice",
+  amount: 500,
+  currency: "USD",
+  description: "ClockBlocked missed alarm alarm1",
+});
+
+describe("createFakePaymentProvider", () => {
+  it("charges once per idempotency key", async () => {
+    const provider = createFakePaymentProvider();
+    const first = await provider.charge(charge("penalty1"));
+    const retry = await provider.charge(charge("penalty1"));
+    const other = await provider.charge(charge("penalty2"));
+
+    expect(first.chargeId).toBe("fake_ch_penalty1");
+    expect(retry.chargeId).toBe(first.chargeId);
+    expect(other.chargeId).not.toBe(first.chargeId);
+  });
+
+  it("refunds only charges it made, once per idempotency key", async () => {
+    const provider = createFakePaymentProvider();
+    const { chargeId } = await provider.charge(charge("penalty1"));
+    const refund = (chargeId: string) => ({
+      idempotencyKey: "penalty1",
+      chargeId,
+      amount: 500,
+      currency: "USD",
+    });
+
+    const first = await provider.refund(refund(chargeId));
+    const retry = await provider.refund(refund(chargeId));
+
+    expect(first.refundId).toBe("fake_re_penalty1");
+    expect(retry.refundId).toBe(first.refundId);
+    await expect(provider.refund(refund("ch_unknown"))).rejects.toThrow(
+      "Unknown charge ch_unknown"
+    );
+  });
+});
+
+describe("getPaymentProvider", () => {
+  const emulator = process.env.FUNCTIONS_EMULATOR;
+
+  afterEach(() => {
+    setPaymentProvider(null);
+    if (emulator === undefined) {
+      delete process.env.FUNCTIONS_EMULATOR;
+    } else {
+      process.env.FUNCTIONS_EMULATOR = emulator;
+    }
+  });
+
+  it("returns the provider that was set", () => {
+    const provider = createFakePaymentProvider();
+    setPaymentProvider(provider);
+    expect(getPaymentProvider()).toBe(provider);
+  });
+
+  it("uses the fake provider in the emulator", () => {
+    process.env.FUNCTIONS_EMULATOR = "true";
+    expect(getPaymentProvider().name).toBe("fake");
+  });
+
+  it("refuses to charge without a provider outside the emulator", () => {
+    delete process.env.FUNCTIONS_EMULATOR;
+    expect(() => getPaymentProvider()).toThrow(
+      "No payment provider configured"
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import * as admin from "firebase-admin";
+import {
+  createFakePaymentProvider,
+  PaymentProvider,
+  setPaymentProvider,
+} from "../src/payments.js";
+import {
+  chargePenalty,
+  refundPenalty,
+  retryPenaltyCharges,
+} from "../src/penalties.js";
+import { clearFirestore } from "./helpers.js";
+
+const MINUTE = 60 * 1000;
+
+// Provider whose charges are all declined
+const decliningProvider: PaymentProvider = {
+  name: "declining",
+  charge: async () => {
+    throw new Error("Card declined");
+  },
+  refund: async () => {
+    throw new Error("Nothing to refund");
+  },
+};
+
+const penaltyRef = (penaltyId: string) =>
+  admin.firestore().collection("penalties").doc(penaltyId);
+
+const seedPenalty = (penaltyId: string, overrides: object = {}) =>
+  penaltyRef(penaltyId).set({
+    userId: "alice",
+    alarmId: "alarm1",
+    sentOutId: penaltyId,
+    amount: 500,
+    currency: "USD",
+    status: "pending",
+    createdAt: admin.firestore.Timestamp.now(),
+    ...overrides,
+  });
+
+const readPenalty = async (penaltyId: string) =>
+  (await penaltyRef(penaltyId).get()).data();
+
+const charge = (penaltyId: string) =>
+  chargePenalty.run({ params: { penaltyId } } as any);
+
+const refund = (penaltyId: string) =>
+  refundPenalty.run({
+    auth: { uid: "admin", token: { admin: true } },
+    data: { penaltyId },
+  } as any);
+
+beforeEach(async () => {
+  await clearFirestore();
+});
+
+afterEach(() => {
+  setPaymentProvider(null);
+});
+
+describe("chargePenalty", () => {
+  it("charges a new penalty through the provider", async () => {
+    setPaymentProvider(createFakePaymentProvider());
+    await seedPenalty("alarm1_2025-06-02");
+
+    await charge("alarm1_2025-06-02");
+
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.status).toBe("charged");
+    expect(penalty.provider).toBe("fake");
+    expect(penalty.chargeId).toBe("fake_ch_alarm1_2025-06-02");
+    expect(penalty.chargedAt).toBeDefined();
+  });
+
+  it("leaves penalties that aren't pending alone", async () => {
+    const provider = createFakePaymentProvider();
+    const chargeSpy = jest.spyOn(provider, "charge");
+    setPaymentProvider(provider);
+    await seedPenalty("alarm1_2025-06-02", { status: "refunded" });
+
+    await charge("alarm1_2025-06-02");
+
+    expect(chargeSpy).not.toHaveBeenCalled();
+    expect((await readPenalty("alarm1_2025-06-02")).status).toBe("refunded");
+  });
+
+  it("schedules a retry when the charge fails", async () => {
+    setPaymentProvider(decliningProvider);
+    await seedPenalty("alarm1_2025-06-02");
+    const before = Date.now();
+
+    await charge("alarm1_2025-06-02");
+
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.status).toBe("pending");
+    expect(penalty.attempts).toBe(1);
+    expect(penalty.lastError).toBe("Card declined");
+    expect(penalty.nextAttemptAt.toMillis()).toBeGreaterThanOrEqual(
+      before + 15 * MINUTE
+    );
+  });
+
+  it("backs off further after each failed attempt", async () => {
+    setPaymentProvider(decliningProvider);
+    await seedPenalty("alarm1_2025-06-02", { attempts: 2 });
+    const before = Date.now();
+
+    await charge("alarm1_2025-06-02");
+
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.attempts).toBe(3);
+    expect(penalty.nextAttemptAt.toMillis()).toBeGreaterThanOrEqual(
+      before + 60 * MINUTE
+    );
+    expect(penalty.nextAttemptAt.toMillis()).toBeLessThan(
+      before + 120 * MINUTE
+    );
+  });
+
+  it("gives up after the fifth failed attempt", async () => {
+    setPaymentProvider(decliningProvider);
+    await seedPenalty("alarm1_2025-06-02", { attempts: 4 });
+
+    await charge("alarm1_2025-06-02");
+
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.status).toBe("failed");
+    expect(penalty.attempts).toBe(5);
+    expect(penalty.failedAt).toBeDefined();
+    expect(penalty.nextAttemptAt).toBeUndefined();
+  });
+});
+
+describe("retryPenaltyCharges", () => {
+  it("retries only pending penalties whose backoff has passed", async () => {
+    setPaymentProvider(createFakePaymentProvider());
+    const now = Date.now();
+    await seedPenalty("due", {
+      attempts: 1,
+      lastError: "Card declined",
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(now - MINUTE),
+    });
+    await seedPenalty("waiting", {
+      attempts: 1,
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(now + 10 * MINUTE),
+    });
+    await seedPenalty("failed", {
+      status: "failed",
+      attempts: 5,
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(now - MINUTE),
+    });
+
+    await retryPenaltyCharges.run({} as any);
+
+    const due = await readPenalty("due");
+    expect(due.status).toBe("charged");
+    expect(due.lastError).toBeUndefined();
+    expect(due.nextAttemptAt).toBeUndefined();
+    expect((await readPenalty("waiting")).status).toBe("pending");
+    expect((await readPenalty("failed")).status).toBe("failed");
+  });
+});
+
+describe("refundPenalty", () => {
+  // A penalty the fake provider has charged
+  const seedCharged = async (provider: PaymentProvider, penaltyId: string) => {
+    const { chargeId } = await provider.charge({
+      idempotencyKey: penaltyId,
+      userId: "alice",
+      amount: 500,
+      currency: "USD",
+      description: "ClockBlocked missed alarm alarm1",
+    });
+    await seedPenalty(penaltyId, {
+      status: "charged",
+      provider: "fake",
+      chargeId,
+    });
+  };
+
+  it("refunds a charged penalty with its id as the idempotency key", async () => {
+    const provider = createFakePaymentProvider();
+    const refundSpy = jest.spyOn(provider, "refund");
+    setPaymentProvider(provider);
+    await seedCharged(provider, "alarm1_2025-06-02");
+
+    await expect(refund("alarm1_2025-06-02")).resolves.toEqual({
+      status: "refunded",
+    });
+
+    expect(refundSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ idempotencyKey: "alarm1_2025-06-02" })
+    );
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.status).toBe("refunded");
+    expect(penalty.refundId).toBe("fake_re_alarm1_2025-06-02");
+  });
+
+  it("refunds once when called twice at the same time", async () => {
+    const provider = createFakePaymentProvider();
+    const refundSpy = jest.spyOn(provider, "refund");
+    setPaymentProvider(provider);
+    await seedCharged(provider, "alarm1_2025-06-02");
+
+    const results = await Promise.allSettled([
+      refund("alarm1_2025-06-02"),
+      refund("alarm1_2025-06-02"),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(refundSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses penalties that aren't charged", async () => {
+    setPaymentProvider(createFakePaymentProvider());
+    await seedPenalty("alarm1_2025-06-02", { status: "refunding" });
+
+    await expect(refund("alarm1_2025-06-02")).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+  });
+
+  it("leaves the penalty charged when the provider rejects the refund", async () => {
+    setPaymentProvider(decliningProvider);
+    await seedPenalty("alarm1_2025-06-02", {
+      status: "charged",
+      chargeId: "ch_1",
+    });
+
+    await expect(refund("alarm1_2025-06-02")).rejects.toMatchObject({
+      code: "internal",
+    });
+
+    const penalty = await readPenalty("alarm1_2025-06-02");
+    expect(penalty.status).toBe("charged");
+    expect(penalty.refundError).toBe("Nothing to refund");
+  });
+});
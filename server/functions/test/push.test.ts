@@ -0,0 +1,167 @@
+import * as admin from "firebase-admin";
+import { sendUserPushes } from "../src/devicePushes.js";
+import {
+  chunk,
+  createFakeExpoPushClient,
+  ExpoPushRequestError,
+  setExpoPushClient,
+  withPushRetry,
+} from "../src/push.js";
+import { processPushReceipts } from "../src/pushReceipts.js";
+import { clearFirestore } from "./helpers.js";
+
+const LIVE_TOKEN = "ExponentPushToken[live]";
+const DEAD_TOKEN = "ExponentPushToken[dead]";
+
+describe("chunk", () => {
+  it("splits a list into chunks of at most the given size", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([1, 2], 2)).toEqual([[1, 2]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe("withPushRetry", () => {
+  beforeEach(() => {
+    // No jitter, so the backoff is 500ms then 1s
+    jest.spyOn(Math, "random").mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("retries network errors, 429s and 5xxs", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(new ExpoPushRequestError("offline", null))
+      .mockRejectedValueOnce(new ExpoPushRequestError("busy", 503))
+      .mockResolvedValue("tickets");
+
+    await expect(withPushRetry(request)).resolves.toBe("tickets");
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after three attempts", async () => {
+    const error = new ExpoPushRequestError("rate limited", 429);
+    const request = jest.fn().mockRejectedValue(error);
+
+    await expect(withPushRetry(request)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry other errors", async () => {
+    const badRequest = new ExpoPushRequestError("bad request", 400);
+    const request = jest.fn().mockRejectedValue(badRequest);
+
+    await expect(withPushRetry(request)).rejects.toBe(badRequest);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("push delivery", () => {
+  const db = () => admin.firestore();
+  const deviceRef = (userId: string, deviceId: string) =>
+    db().collection("users").doc(userId).collection("devices").doc(deviceId);
+
+  let fake: ReturnType<typeof createFakeExpoPushClient>;
+
+  beforeEach(async () => {
+    await clearFirestore();
+    fake = createFakeExpoPushClient([DEAD_TOKEN]);
+    setExpoPushClient(fake);
+
+    // Alice's only device was uninstalled; Bob's still works
+    await db().collection("users").doc("alice").set({ timeZone: "UTC" });
+    await db().collection("users").doc("bob").set({ timeZone: "UTC" });
+    await deviceRef("alice", "phone").set({
+      userId: "alice",
+      expoPushToken: DEAD_TOKEN,
+    });
+    await deviceRef("bob", "phone").set({
+      userId: "bob",
+      expoPushToken: LIVE_TOKEN,
+    });
+  });
+
+  afterEach(() => {
+    setExpoPushClient(null);
+  });
+
+  const sendToAll = () =>
+    sendUserPushes(
+      ["alice", "bob", "carol"].map((userId) => ({
+        userId,
+        message: { title: "ClockBlocked", body: "Wake up" },
+      })),
+      "test"
+    );
+
+  // Make the tickets old enough for processPushReceipts to read
+  const ageTickets = async () => {
+    const tickets = await db().collection("push_tickets").get();
+    await Promise.all(
+      tickets.docs.map((doc) =>
+        doc.ref.update({
+          createdAt: admin.firestore.Timestamp.fromMillis(
+            Date.now() - 16 * 60 * 1000
+          ),
+        })
+      )
+    );
+  };
+
+  it("sends to every registered device and records the tickets", async () => {
+    await sendToAll();
+
+    expect(fake.sent.map(({ to }) => to).sort()).toEqual(
+      [DEAD_TOKEN, LIVE_TOKEN].sort()
+    );
+    const tickets = await db().collection("push_tickets").get();
+    expect(tickets.docs.map((doc) => doc.data().pushToken).sort()).toEqual(
+      [DEAD_TOKEN, LIVE_TOKEN].sort()
+    );
+    expect(tickets.docs.every((doc) => doc.data().deviceId === "phone")).toBe(
+      true
+    );
+  });
+
+  it("removes unregistered devices and tracks delivery health from receipts", async () => {
+    await sendToAll();
+    await ageTickets();
+
+    await processPushReceipts.run({} as any);
+
+    expect((await deviceRef("alice", "phone").get()).exists).toBe(false);
+    expect((await deviceRef("bob", "phone").get()).exists).toBe(true);
+    expect((await db().collection("push_tickets").get()).empty).toBe(true);
+
+    const alice = (await db().collection("users").doc("alice").get()).data();
+    expect(alice.pushDelivery.consecutiveFailures).toBe(1);
+    expect(alice.pushDelivery.lastError).toBe("DeviceNotRegistered");
+    const bob = (await db().collection("users").doc("bob").get()).data();
+    expect(bob.pushDelivery.consecutiveFailures).toBe(0);
+    expect(bob.pushDelivery.lastSuccessAt).toBeDefined();
+  });
+
+  it("keeps a device that registered a new token since the push", async () => {
+    await sendToAll();
+    await ageTickets();
+    await deviceRef("alice", "phone").update({
+      expoPushToken: "ExponentPushToken[reinstalled]",
+    });
+
+    await processPushReceipts.run({} as any);
+
+    expect((await deviceRef("alice", "phone").get()).exists).toBe(true);
+  });
+
+  it("leaves tickets whose receipts aren't due yet", async () => {
+    await sendToAll();
+
+    await processPushReceipts.run({} as any);
+
+    expect((await db().collection("push_tickets").get()).size).toBe(2);
+    expect((await deviceRef("alice", "phone").get()).exists).toBe(true);
+  });
+});
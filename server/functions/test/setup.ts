@@ -0,0 +1,7 @@
+import * as admin from "firebase-admin";
+
+// The functions use the default app, which index.ts initializes when deployed.
+// In the emulator it talks to FIRESTORE_EMULATOR_HOST.
+if (admin.apps.length === 0) {
+  admin.initializeApp({ projectId: "demo-clockblocked" });
+}
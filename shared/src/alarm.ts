@@ -0,0 +1,78 @@
+/**
+ * Alarm Schemas
+ *
+ * Domain shapes of the `alarms` and `alarms_sent_out` documents, shared by the
+ * app and Cloud Functions. Timestamps are plain Dates here; see converters.ts
+ * for the mapping from Firestore documents.
+ */
+
+import { AlarmRecurrence } from "./recurrence";
+
+export type ChallengeType = "phrase";
+
+export const DEFAULT_CHALLENGE_TYPE: ChallengeType = "phrase";
+
+/**
+ * What each snooze costs: the nth snooze either takes more time off the
+ * challenge window or adds a bigger share of the stake
+ */
+export type SnoozeCost = "shorten_window" | "add_stake";
+
+export const SNOOZE_COSTS: SnoozeCost[] = ["shorten_window", "add_stake"];
+
+export const DEFAULT_SNOOZE_DELAY_MINUTES = 5;
+export const DEFAULT_SNOOZE_COST: SnoozeCost = "shorten_window";
+
+export type Alarm = {
+  id: string;
+  userId: string;
+  hours: number;
+  minutes: number;
+  selectedDays: number[]; // Weekly repeat; empty for one-off alarms
+  date: string | null; // One-off alarms: local calendar date, "YYYY-MM-DD"
+  recurrence: AlarmRecurrence | null; // Overrides selectedDays when set
+  isEnabled: boolean;
+  challengeType: ChallengeType;
+  timeZone: string; // IANA zone the alarm is evaluated in
+  stakeAmount: number | null; // Minor units; null when nothing is at stake
+  stakeCurrency: string | null;
+  snoozeDelayMinutes: number;
+  snoozeCost: SnoozeCost;
+  skipNextAt: Date | null; // This one occurrence won't ring
+  pausedUntil: Date | null; // No occurrences before this (vacation mode)
+  groupId: string | null; // Group challenge it rings for; set by Cloud Functions
+  createdAt: Date;
+};
+
+export type ChallengeStatus = "pending" | "success" | "failed";
+
+export const CHALLENGE_STATUSES: ChallengeStatus[] = [
+  "pending",
+  "success",
+  "failed",
+];
+
+export type FailureReason = "timeout_client" | "timeout_server" | "missed";
+
+export type AlarmSentOut = {
+  id?: string;
+  userId: string;
+  alarmId: string;
+  // Which occurrence this is; missing on entries from older app versions
+  // and on test pushes
+  occurrenceKey?: string; // "<alarmId>_<YYYY-MM-DD>", also the document id
+  scheduledFor?: Date; // When the occurrence was scheduled to ring
+  sentAt: Date;
+  challengeStatus: ChallengeStatus;
+  completedAt?: Date;
+  attemptsMade?: number;
+  failureReason?: FailureReason;
+  snoozeCount?: number;
+  snoozedUntil?: Date;
+  expiresAt?: Date; // Set once snoozed; otherwise sentAt + 15 minutes
+  // The alarm's stake when the occurrence opened, set by the server. The
+  // penalty charges it even if the alarm's stake changes afterwards.
+  stakeAmount?: number | null;
+  stakeCurrency?: string | null;
+  stakeSurcharge?: number; // Added to the stake by snoozes, minor units
+};
@@ -0,0 +1,144 @@
+/**
+ * Wake-up Analytics
+ *
+ * Aggregates over a user's `alarms_sent_out` entries: how fast they wake up,
+ * how many attempts a challenge takes, when they fail most and how this week
+ * compares to last week.
+ *
+ * The updateUserStats Cloud Function caches the result in `stats/{userId}`
+ * whenever a challenge resolves, so the app never scans the history itself.
+ * Like history.ts, entries are placed at their occurrence and pending
+ * entries are left out.
+ */
+
+import { AlarmSentOut } from "./alarm";
+import { getOccurrenceTime, getTimeToDismiss } from "./history";
+import { getZonedParts } from "./timeZones";
+
+// How far back the cached stats look
+export const STATS_WINDOW_DAYS = 90;
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+export type OutcomeCounts = {
+  total: number;
+  failures: number;
+};
+
+export type PeriodStats = {
+  total: number;
+  successes: number;
+  medianTimeToDismissMs: number | null;
+};
+
+export type WakeStats = {
+  total: number;
+  successes: number;
+  failures: number;
+  medianTimeToDismissMs: number | null; // sentAt → completedAt of successes
+  attemptsPerSuccess: number | null;
+  byWeekday: OutcomeCounts[]; // 0 = Sunday, in the user's zone
+  byAlarmTime: Record<string, OutcomeCounts>; // Keyed by local "HH:MM"
+  // The 7 days up to `now`, and the 7 days before
+  weekOverWeek: { current: PeriodStats; previous: PeriodStats };
+};
+
+/**
+ * Median of a list of numbers, or null for an empty list
+ */
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Share of challenges that failed, or null if there were none
+ */
+export const getFailureRate = (counts: OutcomeCounts): number | null =>
+  counts.total > 0 ? counts.failures / counts.total : null;
+
+const getDismissTimes = (sentOuts: AlarmSentOut[]): number[] =>
+  sentOuts.map(getTimeToDismiss).filter((ms): ms is number => ms !== null);
+
+const getPeriodStats = (sentOuts: AlarmSentOut[]): PeriodStats => ({
+  total: sentOuts.length,
+  successes: sentOuts.filter((s) => s.challengeStatus === "success").length,
+  medianTimeToDismissMs: median(getDismissTimes(sentOuts)),
+});
+
+const countOutcome = (counts: OutcomeCounts, sentOut: AlarmSentOut) => {
+  counts.total++;
+  if (sentOut.challengeStatus === "failed") {
+    counts.failures++;
+  }
+};
+
+/**
+ * Compute a user's wake-up stats
+ * @param timeZone - Zone weekdays and alarm times are bucketed in
+ * @param now - End of the current week-over-week period
+ */
+export const computeWakeStats = (
+  sentOuts: AlarmSentOut[],
+  timeZone: string,
+  now: Date
+): WakeStats => {
+  const resolved = sentOuts.filter(
+    (sentOut) => sentOut.challengeStatus !== "pending"
+  );
+  const successes = resolved.filter(
+    (sentOut) => sentOut.challengeStatus === "success"
+  );
+
+  const byWeekday: OutcomeCounts[] = Array.from({ length: 7 }, () => ({
+    total: 0,
+    failures: 0,
+  }));
+  const byAlarmTime: Record<string, OutcomeCounts> = {};
+  const current: AlarmSentOut[] = [];
+  const previous: AlarmSentOut[] = [];
+
+  for (const sentOut of resolved) {
+    const occurrence = getOccurrenceTime(sentOut);
+    const parts = getZonedParts(occurrence, timeZone);
+    const time = `${String(parts.hours).padStart(2, "0")}:${String(
+      parts.minutes
+    ).padStart(2, "0")}`;
+
+    countOutcome(byWeekday[parts.weekday], sentOut);
+    byAlarmTime[time] = byAlarmTime[time] || { total: 0, failures: 0 };
+    countOutcome(byAlarmTime[time], sentOut);
+
+    const age = now.getTime() - occurrence.getTime();
+    if (age >= 0 && age < MS_PER_WEEK) {
+      current.push(sentOut);
+    } else if (age >= MS_PER_WEEK && age < 2 * MS_PER_WEEK) {
+      previous.push(sentOut);
+    }
+  }
+
+  const attempts = successes.reduce(
+    (sum, sentOut) => sum + (sentOut.attemptsMade || 1),
+    0
+  );
+
+  return {
+    total: resolved.length,
+    successes: successes.length,
+    failures: resolved.length - successes.length,
+    medianTimeToDismissMs: median(getDismissTimes(successes)),
+    attemptsPerSuccess:
+      successes.length > 0 ? attempts / successes.length : null,
+    byWeekday,
+    byAlarmTime,
+    weekOverWeek: {
+      current: getPeriodStats(current),
+      previous: getPeriodStats(previous),
+    },
+  };
+};
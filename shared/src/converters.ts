@@ -0,0 +1,140 @@
+/**
+ * Firestore Converters
+ *
+ * Map raw `alarms` / `alarms_sent_out` document data to the shared schemas.
+ * Written against the shape of Firestore Timestamps rather than an SDK, so
+ * the same code reads documents from @react-native-firebase and firebase-admin.
+ *
+ * Missing fields get the same defaults everywhere, so documents written
+ * before a field existed read the same on the device and on the server.
+ */
+
+import {
+  Alarm,
+  AlarmSentOut,
+  DEFAULT_CHALLENGE_TYPE,
+  DEFAULT_SNOOZE_COST,
+  DEFAULT_SNOOZE_DELAY_MINUTES,
+} from "./alarm";
+import { isValidRecurrence } from "./recurrence";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./timeZones";
+
+export type DocumentData = { [field: string]: any };
+
+/**
+ * Anything with a toDate(), i.e. a Timestamp from either Firestore SDK
+ */
+export type TimestampLike = { toDate: () => Date };
+
+/**
+ * The parts of a document snapshot the converters read
+ */
+export type SnapshotLike = {
+  id: string;
+  data: () => DocumentData | undefined;
+};
+
+/**
+ * Read a Timestamp (or a Date) field as a Date
+ * @returns The Date, or undefined if the field is missing or not a timestamp
+ */
+export const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (value && typeof (value as TimestampLike).toDate === "function") {
+    return (value as TimestampLike).toDate();
+  }
+  return undefined;
+};
+
+/**
+ * Map an alarm document to an Alarm
+ * Unsupported recurrence rules and time zones are dropped, as the alarm
+ * still rings on its selectedDays in the default zone
+ */
+export const alarmFromFirestore = (id: string, data: DocumentData): Alarm => ({
+  id,
+  userId: data.userId,
+  hours: data.hours,
+  minutes: data.minutes,
+  selectedDays: data.selectedDays || [],
+  date: data.date || null,
+  recurrence: isValidRecurrence(data.recurrence) ? data.recurrence : null,
+  isEnabled: data.isEnabled ?? true,
+  challengeType: data.challengeType || DEFAULT_CHALLENGE_TYPE,
+  timeZone: isValidTimeZone(data.timeZone) ? data.timeZone : DEFAULT_TIME_ZONE,
+  stakeAmount: data.stakeAmount ?? null,
+  stakeCurrency: data.stakeCurrency ?? null,
+  snoozeDelayMinutes: data.snoozeDelayMinutes ?? DEFAULT_SNOOZE_DELAY_MINUTES,
+  snoozeCost: data.snoozeCost || DEFAULT_SNOOZE_COST,
+  skipNextAt: toDate(data.skipNextAt) || null,
+  pausedUntil: toDate(data.pausedUntil) || null,
+  groupId: data.groupId ?? null,
+  createdAt: toDate(data.createdAt) || new Date(),
+});
+
+/**
+ * Map an Alarm to document data
+ * Dates are written as-is; both SDKs store them as Timestamps
+ */
+export const alarmToFirestore = (alarm: Alarm): DocumentData => {
+  const { id, ...data } = alarm;
+  return data;
+};
+
+/**
+ * Map an alarms_sent_out document to an AlarmSentOut
+ */
+export const alarmSentOutFromFirestore = (
+  id: string,
+  data: DocumentData
+): AlarmSentOut => ({
+  ...data,
+  id,
+  userId: data.userId,
+  alarmId: data.alarmId,
+  // sentAt is a pending server timestamp until the write is acknowledged
+  sentAt: toDate(data.sentAt) || new Date(),
+  scheduledFor: toDate(data.scheduledFor),
+  challengeStatus: data.challengeStatus,
+  completedAt: toDate(data.completedAt),
+  snoozedUntil: toDate(data.snoozedUntil),
+  expiresAt: toDate(data.expiresAt),
+});
+
+/**
+ * Map an AlarmSentOut to document data
+ */
+export const alarmSentOutToFirestore = (
+  sentOut: AlarmSentOut
+): DocumentData => {
+  const { id, ...data } = sentOut;
+  const fields: DocumentData = {};
+  for (const [field, value] of Object.entries(data)) {
+    // Firestore rejects undefined fields
+    if (value !== undefined) {
+      fields[field] = value;
+    }
+  }
+  return fields;
+};
+
+/**
+ * Converter for collection.withConverter() (firebase-admin)
+ */
+export const alarmConverter = {
+  toFirestore: (alarm: Alarm): DocumentData => alarmToFirestore(alarm),
+  fromFirestore: (snapshot: SnapshotLike): Alarm =>
+    alarmFromFirestore(snapshot.id, snapshot.data() || {}),
+};
+
+/**
+ * Converter for collection.withConverter() (firebase-admin)
+ */
+export const alarmSentOutConverter = {
+  toFirestore: (sentOut: AlarmSentOut): DocumentData =>
+    alarmSentOutToFirestore(sentOut),
+  fromFirestore: (snapshot: SnapshotLike): AlarmSentOut =>
+    alarmSentOutFromFirestore(snapshot.id, snapshot.data() || {}),
+};
@@ -0,0 +1,93 @@
+/**
+ * Calendar date keys ("YYYY-MM-DD")
+ *
+ * A date key is a wall-clock calendar day with no time zone attached. The app
+ * derives keys from the device's local date, the server from the alarm's zone,
+ * so both evaluate the same day. All arithmetic here runs in UTC to stay clear
+ * of DST.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export type DateParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+};
+
+/**
+ * Format a calendar date as a date key
+ */
+export const formatDateKey = (
+  year: number,
+  month: number,
+  day: number
+): string => {
+  return [year, month, day]
+    .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, "0"))
+    .join("-");
+};
+
+/**
+ * Whether a value is a well-formed date key for a real calendar day
+ */
+export const isDateKey = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Split a date key into its parts
+ */
+export const parseDateKey = (dateKey: string): DateParts => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return { year, month, day };
+};
+
+/**
+ * Days since 1970-01-01 for a date key
+ */
+export const toDayNumber = (dateKey: string): number => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+/**
+ * Date key for a day number (see toDayNumber)
+ */
+export const fromDayNumber = (dayNumber: number): string => {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return formatDateKey(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate()
+  );
+};
+
+/**
+ * Date key a number of days before or after another
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  return fromDayNumber(toDayNumber(dateKey) + days);
+};
+
+/**
+ * Day of the week for a date key (Sunday = 0, Monday = 1, etc.)
+ */
+export const getWeekday = (dateKey: string): number => {
+  // 1970-01-01 was a Thursday
+  return (((toDayNumber(dateKey) + 4) % 7) + 7) % 7;
+};
+
+/**
+ * Number of days in a month (month 1-12)
+ */
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
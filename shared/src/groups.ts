@@ -0,0 +1,138 @@
+/**
+ * Group Challenges
+ *
+ * A group shares one alarm time. Every member gets their own alarm for it
+ * (`alarms.groupId`), rung in their own time zone, and their outcomes roll up
+ * into the group's leaderboard: ranked by success rate, then by how fast
+ * members dismiss the alarm.
+ *
+ * The updateGroupLeaderboard Cloud Function keeps `group_leaderboards`
+ * current with buildLeaderboard. When a group splits forfeits, a failed
+ * member's charged stake goes to the members who woke up that day
+ * (splitForfeit) instead of to a donation.
+ */
+
+import { AlarmSentOut } from "./alarm";
+import { median } from "./analytics";
+import { getTimeToDismiss } from "./history";
+
+// How far back the leaderboard looks
+export const LEADERBOARD_WINDOW_DAYS = 30;
+
+// Member alarms are looked up with one "in" query, which takes at most 30
+export const MAX_GROUP_MEMBERS = 30;
+
+export type GroupMember = {
+  name: string;
+  alarmId: string; // The member's alarm for the group
+  joinedAt: Date;
+};
+
+export type Group = {
+  id: string;
+  name: string;
+  ownerId: string;
+  hours: number;
+  minutes: number;
+  selectedDays: number[];
+  stakeAmount: number | null; // Minor units, per member alarm
+  stakeCurrency: string | null;
+  splitForfeits: boolean;
+  inviteCode: string;
+  memberIds: string[];
+  members: Record<string, GroupMember>; // Keyed by uid
+  createdAt: Date;
+};
+
+export type LeaderboardEntry = {
+  userId: string;
+  name: string;
+  rank: number; // 1-based; tied members share a rank
+  total: number; // Resolved challenges in the window
+  successes: number;
+  successRate: number | null; // null until the member has a result
+  medianTimeToDismissMs: number | null;
+};
+
+/**
+ * Order two entries: higher success rate first, then faster median wake-up,
+ * then more challenges. Members without results go last.
+ */
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+  (b.successRate ?? -1) - (a.successRate ?? -1) ||
+  (a.medianTimeToDismissMs ?? Infinity) -
+    (b.medianTimeToDismissMs ?? Infinity) ||
+  b.total - a.total;
+
+/**
+ * Rank a group's members by their challenges
+ * @param members - Names keyed by uid; every member gets an entry
+ * @param sentOuts - The members' group alarm challenges; pending ones and
+ * those of non-members are ignored
+ */
+export const buildLeaderboard = (
+  members: Record<string, { name: string }>,
+  sentOuts: AlarmSentOut[]
+): LeaderboardEntry[] => {
+  const byMember = new Map<string, AlarmSentOut[]>(
+    Object.keys(members).map((userId) => [userId, []])
+  );
+  for (const sentOut of sentOuts) {
+    if (sentOut.challengeStatus !== "pending") {
+      byMember.get(sentOut.userId)?.push(sentOut);
+    }
+  }
+
+  const entries: LeaderboardEntry[] = [...byMember].map(
+    ([userId, resolved]) => {
+      const successes = resolved.filter(
+        (sentOut) => sentOut.challengeStatus === "success"
+      );
+      return {
+        userId,
+        name: members[userId].name,
+        rank: 0,
+        total: resolved.length,
+        successes: successes.length,
+        successRate:
+          resolved.length > 0 ? successes.length / resolved.length : null,
+        medianTimeToDismissMs: median(
+          successes
+            .map(getTimeToDismiss)
+            .filter((ms): ms is number => ms !== null)
+        ),
+      };
+    }
+  );
+
+  entries.sort(compareEntries);
+  entries.forEach((entry, index) => {
+    const previous = entries[index - 1];
+    entry.rank =
+      previous && compareEntries(previous, entry) === 0
+        ? previous.rank
+        : index + 1;
+  });
+  return entries;
+};
+
+/**
+ * Split a forfeited amount evenly among recipients
+ * Minor units can't be split further, so the remainder goes one unit each to
+ * the first recipients in uid order.
+ * @returns Amount per recipient uid, in minor units
+ */
+export const splitForfeit = (
+  amount: number,
+  recipientIds: string[]
+): Record<string, number> => {
+  const sorted = [...recipientIds].sort();
+  const share = Math.floor(amount / sorted.length);
+  const remainder = amount - share * sorted.length;
+
+  const shares: Record<string, number> = {};
+  sorted.forEach((userId, index) => {
+    shares[userId] = share + (index < remainder ? 1 : 0);
+  });
+  return shares;
+};
@@ -0,0 +1,94 @@
+/**
+ * Challenge History
+ *
+ * Pure summaries of `alarms_sent_out` entries: streaks, per-day outcomes and
+ * time to dismiss. The app's History tab shows them; Cloud Functions can
+ * compute the same numbers for reports.
+ *
+ * Entries are placed at their occurrence (`scheduledFor`), falling back to
+ * `sentAt` for entries written before occurrences were recorded. Pending
+ * entries haven't been decided yet and never count.
+ */
+
+import { AlarmSentOut } from "./alarm";
+import { formatDateKey } from "./dateKeys";
+import { getZonedParts } from "./timeZones";
+
+export type Streaks = {
+  current: number; // Successes since the most recent failure
+  longest: number;
+};
+
+export type DailyOutcome = {
+  successes: number;
+  failures: number;
+};
+
+/**
+ * When an entry's occurrence was scheduled to ring
+ */
+export const getOccurrenceTime = (sentOut: AlarmSentOut): Date =>
+  sentOut.scheduledFor || sentOut.sentAt;
+
+/**
+ * How long a successful challenge took from ringing to being dismissed
+ * @returns Milliseconds, or null if the challenge wasn't a success
+ */
+export const getTimeToDismiss = (sentOut: AlarmSentOut): number | null => {
+  if (sentOut.challengeStatus !== "success" || !sentOut.completedAt) {
+    return null;
+  }
+  return Math.max(0, sentOut.completedAt.getTime() - sentOut.sentAt.getTime());
+};
+
+/**
+ * Resolved entries, oldest occurrence first
+ */
+const getResolved = (sentOuts: AlarmSentOut[]): AlarmSentOut[] =>
+  sentOuts
+    .filter((sentOut) => sentOut.challengeStatus !== "pending")
+    .sort(
+      (a, b) => getOccurrenceTime(a).getTime() - getOccurrenceTime(b).getTime()
+    );
+
+/**
+ * Runs of consecutive successful challenges
+ */
+export const getStreaks = (sentOuts: AlarmSentOut[]): Streaks => {
+  let current = 0;
+  let longest = 0;
+
+  for (const sentOut of getResolved(sentOuts)) {
+    current = sentOut.challengeStatus === "success" ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return { current, longest };
+};
+
+/**
+ * Successes and failures per calendar day in the given zone
+ * @returns Outcomes keyed by date key ("YYYY-MM-DD"); days without resolved
+ * challenges are missing
+ */
+export const getDailyOutcomes = (
+  sentOuts: AlarmSentOut[],
+  timeZone: string
+): Record<string, DailyOutcome> => {
+  const outcomes: Record<string, DailyOutcome> = {};
+
+  for (const sentOut of getResolved(sentOuts)) {
+    const parts = getZonedParts(getOccurrenceTime(sentOut), timeZone);
+    const day = formatDateKey(parts.year, parts.month, parts.day);
+    const outcome = outcomes[day] || { successes: 0, failures: 0 };
+
+    if (sentOut.challengeStatus === "success") {
+      outcome.successes++;
+    } else {
+      outcome.failures++;
+    }
+    outcomes[day] = outcome;
+  }
+
+  return outcomes;
+};
@@ -0,0 +1,11 @@
+export * from "./alarm";
+export * from "./analytics";
+export * from "./converters";
+export * from "./dateKeys";
+export * from "./groups";
+export * from "./history";
+export * from "./recurrence";
+export * from "./reports";
+export * from "./schedule";
+export * from "./timeZones";
+export * from "./validators";
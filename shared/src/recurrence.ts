@@ -0,0 +1,408 @@
+/**
+ * Recurrence Rules
+ *
+ * Evaluates an alarm's `recurrence` on calendar days. The app uses it to queue
+ * notifications (getNextAlarmDate, the rolling queue) and the server to decide
+ * whether an alarm is due (checkNotifications), so both agree on every day.
+ *
+ * SUPPORTED RRULE SUBSET (RFC 5545):
+ * - FREQ: DAILY, WEEKLY or MONTHLY
+ * - INTERVAL, COUNT, UNTIL (date part only), WKST
+ * - BYDAY: plain weekdays only ("MO,WE"), no ordinals ("1MO")
+ * - BYMONTHDAY (MONTHLY only): 1 to 31, or -1 (last day) to -31
+ *
+ * The time of day comes from the alarm's hours/minutes, so rules never carry
+ * BYHOUR/BYMINUTE. `startDate` plays the role of DTSTART and anchors
+ * INTERVAL and COUNT; unlike DTSTART it is not an occurrence unless the rule
+ * matches it. `exceptionDates` play the role of EXDATE.
+ */
+
+import {
+  addDays,
+  getDaysInMonth,
+  getWeekday,
+  isDateKey,
+  parseDateKey,
+  toDayNumber,
+  fromDayNumber,
+} from "./dateKeys";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[]; // Sunday = 0, Monday = 1, etc.
+  byMonthDay: number[]; // Negative values count back from the month's end
+  count: number | null;
+  until: string | null; // Date key, inclusive
+  weekStart: number; // Day weeks start on when counting INTERVAL (WKST)
+};
+
+/**
+ * Recurrence stored on an alarm (`alarms.recurrence`)
+ */
+export type AlarmRecurrence = {
+  rule: string; // e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+  startDate: string; // Date key; first day the rule can match
+  exceptionDates: string[]; // Date keys that never ring
+};
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Keeps every rule's gaps under a year, so a year-long search always finds
+// the next occurrence
+const MAX_INTERVAL: Record<RecurrenceFrequency, number> = {
+  DAILY: 365,
+  WEEKLY: 52,
+  MONTHLY: 12,
+};
+
+const parsePositiveInt = (name: string, value: string, max?: number) => {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || parsed < 1 || (max && parsed > max)) {
+    throw new Error(`Invalid ${name} in recurrence rule: ${value}`);
+  }
+  return parsed;
+};
+
+const parseWeekday = (value: string): number => {
+  const weekday = RRULE_WEEKDAYS.indexOf(value);
+  if (weekday === -1) {
+    throw new Error(`Unsupported weekday in recurrence rule: ${value}`);
+  }
+  return weekday;
+};
+
+const uniqueSorted = (values: number[]): number[] => {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+};
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * Throws for anything outside the supported subset
+ */
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  for (const part of text
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")) {
+    const [name, value, ...rest] = part.split("=");
+    const key = name.trim().toUpperCase();
+    if (!key || value === undefined || rest.length > 0 || parts.has(key)) {
+      throw new Error(`Malformed recurrence rule: ${text}`);
+    }
+    parts.set(key, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error(`Unsupported recurrence frequency: ${freq}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    count: null,
+    until: null,
+    weekStart: 1,
+  };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInt(name, value, MAX_INTERVAL[freq]);
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInt(name, value);
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        const until = match && `${match[1]}-${match[2]}-${match[3]}`;
+        if (!until || !isDateKey(until)) {
+          throw new Error(`Invalid UNTIL in recurrence rule: ${value}`);
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = uniqueSorted(value.split(",").map(parseWeekday));
+        break;
+      case "BYMONTHDAY":
+        if (freq !== "MONTHLY") {
+          throw new Error("BYMONTHDAY is only supported with FREQ=MONTHLY");
+        }
+        rule.byMonthDay = uniqueSorted(
+          value.split(",").map((day) => {
+            const parsed = Number(day);
+            if (!/^-?\d+$/.test(day) || !parsed || Math.abs(parsed) > 31) {
+              throw new Error(`Invalid BYMONTHDAY in recurrence rule: ${day}`);
+            }
+            return parsed;
+          })
+        );
+        break;
+      case "WKST":
+        rule.weekStart = parseWeekday(value);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${name}`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error("A recurrence rule can't have both COUNT and UNTIL");
+  }
+
+  return rule;
+};
+
+/**
+ * Format a rule as an RRULE string, leaving out default values
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => RRULE_WEEKDAYS[d]).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.weekStart !== 1) {
+    parts.push(`WKST=${RRULE_WEEKDAYS[rule.weekStart]}`);
+  }
+  return parts.join(";");
+};
+
+/**
+ * Whether a day matches the rule's pattern, ignoring COUNT and exceptions
+ */
+const matchesPattern = (
+  rule: RecurrenceRule,
+  startDate: string,
+  dateKey: string
+): boolean => {
+  const weekday = getWeekday(dateKey);
+
+  if (rule.freq === "DAILY") {
+    const daysApart = toDayNumber(dateKey) - toDayNumber(startDate);
+    return (
+      daysApart % rule.interval === 0 &&
+      (rule.byDay.length === 0 || rule.byDay.includes(weekday))
+    );
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const weekOf = (key: string) =>
+      toDayNumber(key) - ((getWeekday(key) - rule.weekStart + 7) % 7);
+    const weeksApart = (weekOf(dateKey) - weekOf(startDate)) / 7;
+    const weekdays =
+      rule.byDay.length > 0 ? rule.byDay : [getWeekday(startDate)];
+    return weeksApart % rule.interval === 0 && weekdays.includes(weekday);
+  }
+
+  const start = parseDateKey(startDate);
+  const date = parseDateKey(dateKey);
+  const monthsApart =
+    (date.year - start.year) * 12 + (date.month - start.month);
+  if (monthsApart % rule.interval !== 0) {
+    return false;
+  }
+
+  // BYDAY alone means every such weekday in the month; with BYMONTHDAY it
+  // narrows the month days down instead
+  if (rule.byMonthDay.length === 0 && rule.byDay.length > 0) {
+    return rule.byDay.includes(weekday);
+  }
+
+  const daysInMonth = getDaysInMonth(date.year, date.month);
+  const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.day];
+  return (
+    (monthDays.includes(date.day) ||
+      monthDays.includes(date.day - daysInMonth - 1)) &&
+    (rule.byDay.length === 0 || rule.byDay.includes(weekday))
+  );
+};
+
+/**
+ * Days a recurrence rings on between two date keys (both inclusive)
+ * Throws if the rule is invalid
+ * @returns Date keys in order
+ */
+export const getOccurrenceDates = (
+  recurrence: AlarmRecurrence,
+  fromDate: string,
+  toDate: string
+): string[] => {
+  const rule = parseRecurrenceRule(recurrence.rule);
+  const from = Math.max(
+    toDayNumber(fromDate),
+    toDayNumber(recurrence.startDate)
+  );
+  let to = toDayNumber(toDate);
+  if (rule.until) {
+    to = Math.min(to, toDayNumber(rule.until));
+  }
+
+  // COUNT includes occurrences before the range, so count from the start
+  const walkFrom = rule.count ? toDayNumber(recurrence.startDate) : from;
+  const dates: string[] = [];
+  let seen = 0;
+
+  for (let day = walkFrom; day <= to; day++) {
+    const dateKey = fromDayNumber(day);
+    if (!matchesPattern(rule, recurrence.startDate, dateKey)) {
+      continue;
+    }
+
+    // Excluded days still use up COUNT, as with EXDATE
+    seen++;
+    if (rule.count && seen > rule.count) {
+      break;
+    }
+
+    if (day >= from && !recurrence.exceptionDates.includes(dateKey)) {
+      dates.push(dateKey);
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Whether a recurrence rings on a given day
+ */
+export const occursOn = (
+  recurrence: AlarmRecurrence,
+  dateKey: string
+): boolean => {
+  return getOccurrenceDates(recurrence, dateKey, dateKey).length > 0;
+};
+
+/**
+ * First day on or after a date key that a recurrence rings on
+ * @returns Date key, or null if the rule has ended
+ */
+export const getNextOccurrenceDate = (
+  recurrence: AlarmRecurrence,
+  fromDate: string
+): string | null => {
+  return (
+    getOccurrenceDates(recurrence, fromDate, addDays(fromDate, 366))[0] || null
+  );
+};
+
+/**
+ * Whether a value is a well-formed recurrence with a supported rule
+ */
+export const isValidRecurrence = (value: unknown): value is AlarmRecurrence => {
+  const recurrence = value as AlarmRecurrence;
+  if (
+    !recurrence ||
+    typeof recurrence.rule !== "string" ||
+    !isDateKey(recurrence.startDate) ||
+    !Array.isArray(recurrence.exceptionDates) ||
+    !recurrence.exceptionDates.every(isDateKey)
+  ) {
+    return false;
+  }
+
+  try {
+    parseRecurrenceRule(recurrence.rule);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Recurrence for the given weekdays every `interval` weeks, counted from the
+ * week of `startDate`
+ */
+export const createWeeklyRecurrence = (
+  weekdays: number[],
+  interval: number,
+  startDate: string,
+  exceptionDates: string[] = []
+): AlarmRecurrence => ({
+  rule: formatRecurrenceRule({
+    freq: "WEEKLY",
+    interval,
+    byDay: uniqueSorted(weekdays),
+    byMonthDay: [],
+    count: null,
+    until: null,
+    weekStart: 1,
+  }),
+  startDate,
+  exceptionDates,
+});
+
+/**
+ * Week interval of a plain "every N weeks on these days" recurrence
+ * @returns The interval, or null for any other kind of rule
+ */
+export const getWeeklyInterval = (
+  recurrence: AlarmRecurrence
+): number | null => {
+  try {
+    const rule = parseRecurrenceRule(recurrence.rule);
+    const isPlainWeekly = rule.freq === "WEEKLY" && !rule.count && !rule.until;
+    return isPlainWeekly ? rule.interval : null;
+  } catch {
+    return null;
+  }
+};
+
+const ordinal = (n: number): string => {
+  if (n === -1) return "last day";
+  if (n < 0) return `${-n} days before the end`;
+  const suffix =
+    n % 10 === 1 && n !== 11
+      ? "st"
+      : n % 10 === 2 && n !== 12
+        ? "nd"
+        : n % 10 === 3 && n !== 13
+          ? "rd"
+          : "th";
+  return `${n}${suffix}`;
+};
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed"
+ */
+export const describeRecurrence = (recurrence: AlarmRecurrence): string => {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(recurrence.rule);
+  } catch {
+    return "Custom schedule";
+  }
+
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq];
+  let summary =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byMonthDay.length > 0) {
+    summary += ` on the ${rule.byMonthDay.map(ordinal).join(", ")}`;
+  }
+  if (rule.byDay.length > 0) {
+    summary += ` on ${rule.byDay.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.count) {
+    summary += `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    summary += `, until ${rule.until}`;
+  }
+  return summary;
+};
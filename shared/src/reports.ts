@@ -0,0 +1,222 @@
+/**
+ * Weekly Reports
+ *
+ * A weekly accountability summary per user: alarms fired, wake-ups, failures,
+ * money forfeited and where their streak stands. Weeks run Sunday to Saturday
+ * in the user's time zone.
+ *
+ * The generateWeeklyReports Cloud Function builds them into `reports` and
+ * pushes the summary; the app's report screen renders the same content. Both
+ * go through the pure render functions below, so the text is the same
+ * everywhere.
+ */
+
+import { AlarmSentOut } from "./alarm";
+import { addDays, formatDateKey, getWeekday, parseDateKey } from "./dateKeys";
+import { getOccurrenceTime, getStreaks } from "./history";
+import { getZonedParts, zonedTimeToUtc } from "./timeZones";
+
+export type ReportAmount = {
+  amount: number; // Minor units
+  currency: string;
+};
+
+export type WeeklyReport = {
+  userId: string;
+  weekStart: string; // Date key of the Sunday the week starts on
+  weekEnd: string; // Date key of the Saturday it ends on
+  timeZone: string;
+  alarmsFired: number;
+  successes: number;
+  failures: number;
+  forfeited: ReportAmount[]; // One per currency; empty if nothing was lost
+  streak: {
+    current: number; // At the end of the week
+    longest: number;
+    atWeekStart: number;
+  };
+};
+
+export type ReportLine = {
+  label: string;
+  value: string;
+};
+
+export type RenderedReport = {
+  title: string;
+  summary: string; // Also the push body
+  lines: ReportLine[];
+};
+
+/**
+ * Document id of a user's report for a week
+ */
+export const getReportId = (userId: string, weekStart: string): string =>
+  `${userId}_${weekStart}`;
+
+/**
+ * The last full week (Sunday to Saturday) before the day `now` falls on in
+ * the given zone
+ */
+export const getReportWeek = (
+  now: Date,
+  timeZone: string
+): { weekStart: string; weekEnd: string } => {
+  const parts = getZonedParts(now, timeZone);
+  const today = formatDateKey(parts.year, parts.month, parts.day);
+  const weekStart = addDays(today, -getWeekday(today) - 7);
+  return { weekStart, weekEnd: addDays(weekStart, 6) };
+};
+
+/**
+ * Instants a week starts and ends at in the given zone
+ * @returns `end` is exclusive: midnight after the week's Saturday
+ */
+export const getWeekBounds = (
+  weekStart: string,
+  timeZone: string
+): { start: Date; end: Date } => {
+  const toMidnight = (dateKey: string) => {
+    const { year, month, day } = parseDateKey(dateKey);
+    return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+  };
+  return {
+    start: toMidnight(weekStart),
+    end: toMidnight(addDays(weekStart, 7)),
+  };
+};
+
+/**
+ * Build a user's report for a week
+ * @param sentOuts - The user's challenges up to the end of the week, reaching
+ * back far enough for their streak
+ * @param penalties - Charged penalties keyed by their alarms_sent_out id;
+ * only the week's count
+ */
+export const buildWeeklyReport = (
+  userId: string,
+  weekStart: string,
+  timeZone: string,
+  sentOuts: AlarmSentOut[],
+  penalties: Record<string, ReportAmount>
+): WeeklyReport => {
+  const { start, end } = getWeekBounds(weekStart, timeZone);
+  const before: AlarmSentOut[] = [];
+  const week: AlarmSentOut[] = [];
+
+  for (const sentOut of sentOuts) {
+    const occurrence = getOccurrenceTime(sentOut);
+    if (occurrence < start) {
+      before.push(sentOut);
+    } else if (occurrence < end) {
+      week.push(sentOut);
+    }
+  }
+
+  const totals = new Map<string, number>();
+  for (const sentOut of week) {
+    const penalty = sentOut.id ? penalties[sentOut.id] : undefined;
+    if (penalty) {
+      totals.set(
+        penalty.currency,
+        (totals.get(penalty.currency) || 0) + penalty.amount
+      );
+    }
+  }
+
+  const streaks = getStreaks([...before, ...week]);
+  return {
+    userId,
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+    timeZone,
+    alarmsFired: week.length,
+    successes: week.filter((s) => s.challengeStatus === "success").length,
+    failures: week.filter((s) => s.challengeStatus === "failed").length,
+    forfeited: [...totals].map(([currency, amount]) => ({ amount, currency })),
+    streak: {
+      current: streaks.current,
+      longest: streaks.longest,
+      atWeekStart: getStreaks(before).current,
+    },
+  };
+};
+
+const pluralize = (count: number, noun: string): string =>
+  `${count} ${count === 1 ? noun : `${noun}s`}`;
+
+/**
+ * Format an amount in minor units, e.g. 500 USD → "$5.00"
+ */
+export const formatReportAmount = ({
+  amount,
+  currency,
+}: ReportAmount): string =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    amount / 100
+  );
+
+/**
+ * Format a report's week, e.g. "Mar 1 – Mar 7"
+ */
+export const formatReportWeek = (report: WeeklyReport): string => {
+  const format = (dateKey: string) => {
+    const { year, month, day } = parseDateKey(dateKey);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(
+      "en-US",
+      { month: "short", day: "numeric", timeZone: "UTC" }
+    );
+  };
+  return `${format(report.weekStart)} – ${format(report.weekEnd)}`;
+};
+
+/**
+ * Where the user's streak stands after the week
+ */
+export const renderStreakStatus = ({
+  streak,
+  failures,
+}: WeeklyReport): string => {
+  if (failures > 0 && streak.atWeekStart > 0) {
+    return `Streak of ${streak.atWeekStart} broken, now at ${streak.current}`;
+  }
+  if (streak.current > streak.atWeekStart) {
+    return streak.atWeekStart > 0
+      ? `Streak up from ${streak.atWeekStart} to ${streak.current}`
+      : `New streak of ${streak.current}`;
+  }
+  return streak.current > 0
+    ? `Streak holding at ${streak.current}`
+    : "No active streak";
+};
+
+/**
+ * Title, one-line summary and detail lines of a report
+ */
+export const renderWeeklyReport = (report: WeeklyReport): RenderedReport => {
+  const forfeited =
+    report.forfeited.length > 0
+      ? report.forfeited.map(formatReportAmount).join(" + ")
+      : null;
+
+  const summary =
+    report.alarmsFired === 0
+      ? "No alarms rang this week."
+      : [
+          `You woke up ${report.successes} of ${pluralize(report.alarmsFired, "time")}`,
+          forfeited ? `and forfeited ${forfeited}` : "and lost nothing",
+        ].join(" ") + `. ${renderStreakStatus(report)}.`;
+
+  return {
+    title: `Your week: ${formatReportWeek(report)}`,
+    summary,
+    lines: [
+      { label: "Alarms fired", value: String(report.alarmsFired) },
+      { label: "Woke up", value: String(report.successes) },
+      { label: "Failed", value: String(report.failures) },
+      { label: "Money forfeited", value: forfeited || "None" },
+      { label: "Current streak", value: String(report.streak.current) },
+      { label: "Longest streak", value: String(report.streak.longest) },
+    ],
+  };
+};
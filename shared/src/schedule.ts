@@ -0,0 +1,249 @@
+/**
+ * Alarm Schedule
+ *
+ * When an alarm rings. The app uses it to fill the notification queue and
+ * to log missed alarms; checkNotifications uses it to send server pushes.
+ *
+ * Occurrences are computed in the alarm's own time zone, so the device and
+ * the server always pick the same instants, even while the user travels.
+ * Resolving wall-clock times with zonedTimeToUtc handles DST: skipped times
+ * ring after the gap and repeated times ring only once.
+ */
+
+import { Alarm } from "./alarm";
+import {
+  addDays,
+  formatDateKey,
+  getWeekday,
+  isDateKey,
+  parseDateKey,
+} from "./dateKeys";
+import { getOccurrenceDates } from "./recurrence";
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./timeZones";
+
+type ScheduledAlarm = Pick<
+  Alarm,
+  | "hours"
+  | "minutes"
+  | "selectedDays"
+  | "date"
+  | "recurrence"
+  | "timeZone"
+  | "skipNextAt"
+  | "pausedUntil"
+>;
+
+// How far ahead to look for the next occurrence of a weekly alarm
+const WEEKLY_SEARCH_DAYS = 8;
+// Recurrence rules never leave more than a year between occurrences
+const RECURRENCE_SEARCH_DAYS = 366;
+// A local calendar day starts up to 14h before UTC midnight (UTC+14) and
+// ends up to 36h after it (UTC-12)
+const MS_PER_HOUR = 60 * 60 * 1000;
+const DAY_SEARCH_BEFORE_MS = 14 * MS_PER_HOUR;
+const DAY_SEARCH_AFTER_MS = 36 * MS_PER_HOUR;
+
+/**
+ * Resolve the zone an alarm is evaluated in
+ */
+export const getAlarmTimeZone = (alarm: Pick<Alarm, "timeZone">): string =>
+  isValidTimeZone(alarm.timeZone) ? alarm.timeZone : DEFAULT_TIME_ZONE;
+
+/**
+ * Calendar date key of an instant in the given zone
+ */
+const getZonedDateKey = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  return formatDateKey(parts.year, parts.month, parts.day);
+};
+
+/**
+ * Instant an alarm rings at on a calendar day in its zone
+ */
+const getOccurrenceOn = (
+  alarm: ScheduledAlarm,
+  day: string,
+  timeZone: string
+): Date => {
+  const [year, month, date] = day.split("-").map(Number);
+  return zonedTimeToUtc(
+    year,
+    month,
+    date,
+    alarm.hours,
+    alarm.minutes,
+    timeZone
+  );
+};
+
+/**
+ * Whether an occurrence is suppressed by "skip next" or a pause
+ */
+export const isOccurrenceSuppressed = (
+  alarm: ScheduledAlarm,
+  occurrence: Date
+): boolean => {
+  if (alarm.pausedUntil && occurrence < alarm.pausedUntil) {
+    return true;
+  }
+  return (
+    !!alarm.skipNextAt && occurrence.getTime() === alarm.skipNextAt.getTime()
+  );
+};
+
+/**
+ * Days between two date keys (inclusive) the alarm rings on: its date for
+ * one-off alarms, its recurrence rule, or otherwise its selected weekdays
+ */
+const getAlarmDays = (
+  alarm: ScheduledAlarm,
+  fromDate: string,
+  toDate: string
+): string[] => {
+  if (alarm.date) {
+    return alarm.date >= fromDate && alarm.date <= toDate ? [alarm.date] : [];
+  }
+  if (alarm.recurrence) {
+    return getOccurrenceDates(alarm.recurrence, fromDate, toDate);
+  }
+
+  const days: string[] = [];
+  for (let day = fromDate; day <= toDate; day = addDays(day, 1)) {
+    // selectedDays: 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+    if (alarm.selectedDays.includes(getWeekday(day))) {
+      days.push(day);
+    }
+  }
+  return days;
+};
+
+/**
+ * Calculate occurrences of an alarm in a time range
+ * Skipped and paused occurrences are left out
+ * @param start - Only occurrences after this time are returned
+ * @param end - Only occurrences up to this time are returned
+ * @returns Date objects for each occurrence in the range, soonest first
+ */
+export const getAlarmDatesBetween = (
+  alarm: ScheduledAlarm,
+  start: Date,
+  end: Date
+): Date[] => {
+  const timeZone = getAlarmTimeZone(alarm);
+  const fromDate = getZonedDateKey(start, timeZone);
+  const toDate = getZonedDateKey(end, timeZone);
+
+  return getAlarmDays(alarm, fromDate, toDate)
+    .map((day) => getOccurrenceOn(alarm, day, timeZone))
+    .filter(
+      (occurrence) =>
+        occurrence > start &&
+        occurrence <= end &&
+        !isOccurrenceSuppressed(alarm, occurrence)
+    );
+};
+
+/**
+ * Calculate the next occurrence of an alarm
+ * @returns Date object for the next alarm time, or null if there is none
+ */
+export const getNextAlarmDate = (
+  alarm: ScheduledAlarm,
+  now: Date = new Date()
+): Date | null => {
+  // One-off alarms can be any distance away
+  if (alarm.date) {
+    const occurrence = getOccurrenceOn(
+      alarm,
+      alarm.date,
+      getAlarmTimeZone(alarm)
+    );
+    return getAlarmDatesBetween(alarm, now, occurrence)[0] || null;
+  }
+
+  // A pause can push the next occurrence past the usual search window
+  const from =
+    alarm.pausedUntil && alarm.pausedUntil > now ? alarm.pausedUntil : now;
+  const searchDays = alarm.recurrence
+    ? RECURRENCE_SEARCH_DAYS
+    : WEEKLY_SEARCH_DAYS;
+  const end = new Date(from.getTime() + searchDays * 24 * 60 * 60 * 1000);
+
+  return getAlarmDatesBetween(alarm, now, end)[0] || null;
+};
+
+/**
+ * Local calendar date (in the alarm's zone) an occurrence falls on
+ */
+export const getOccurrenceDateKey = (
+  alarm: Pick<Alarm, "timeZone">,
+  occurrence: Date
+): string => getZonedDateKey(occurrence, getAlarmTimeZone(alarm));
+
+/**
+ * Key identifying one occurrence of an alarm, "<alarmId>_<YYYY-MM-DD>"
+ * An alarm rings at most once per local day, so alarm id + date is unique.
+ * It is also the occurrence's alarms_sent_out id: the device and
+ * checkNotifications both create the entry under it, so each occurrence has
+ * exactly one challenge record.
+ */
+export const getOccurrenceKey = (
+  alarm: Pick<Alarm, "id" | "timeZone">,
+  occurrence: Date
+): string => `${alarm.id}_${getOccurrenceDateKey(alarm, occurrence)}`;
+
+/**
+ * The occurrence an occurrence key names, worked out from the alarm itself
+ * @returns The scheduled time, or null if the key isn't the alarm's or the
+ * alarm doesn't ring on that day (in its zone)
+ */
+export const getKeyedOccurrence = (
+  alarm: ScheduledAlarm & Pick<Alarm, "id">,
+  occurrenceKey: string
+): Date | null => {
+  const dateKey = occurrenceKey.slice(alarm.id.length + 1);
+  if (!occurrenceKey.startsWith(`${alarm.id}_`) || !isDateKey(dateKey)) {
+    return null;
+  }
+
+  const { year, month, day } = parseDateKey(dateKey);
+  const midnight = Date.UTC(year, month - 1, day);
+  return (
+    getAlarmDatesBetween(
+      alarm,
+      new Date(midnight - DAY_SEARCH_BEFORE_MS - 1),
+      new Date(midnight + DAY_SEARCH_AFTER_MS)
+    ).find(
+      (occurrence) => getOccurrenceKey(alarm, occurrence) === occurrenceKey
+    ) || null
+  );
+};
+
+/**
+ * The occurrence of an alarm in the minute containing `now`
+ * @returns The scheduled time, or null if the alarm doesn't ring this minute
+ */
+export const getDueOccurrence = (
+  alarm: ScheduledAlarm,
+  now: Date
+): Date | null => {
+  const minuteStart = Math.floor(now.getTime() / 60000) * 60000;
+  return (
+    getAlarmDatesBetween(
+      alarm,
+      new Date(minuteStart - 1),
+      new Date(minuteStart + 59999)
+    )[0] || null
+  );
+};
+
+/**
+ * Whether an alarm rings in the minute containing `now`
+ */
+export const isAlarmDueAt = (alarm: ScheduledAlarm, now: Date): boolean =>
+  getDueOccurrence(alarm, now) !== null;
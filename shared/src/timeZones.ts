@@ -0,0 +1,111 @@
+// Time zone helpers for evaluating alarms in their own IANA zone.
+// Uses Intl only, so the runtime's tz database handles DST rules.
+
+// Alarms created before time zones were captured were scheduled in this zone
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number; // Sunday = 0, Monday = 1, etc.
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock date and time of an instant in the given zone
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute),
+    seconds: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+// UTC offset of the zone at the given instant, in milliseconds
+const getOffsetMs = (instant: number, timeZone: string): number => {
+  const p = getZonedParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hours,
+    p.minutes,
+    p.seconds
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Instant at which a wall-clock time happens in the given zone.
+ * - Repeated times (DST ends) resolve to the first occurrence, so an alarm fires once.
+ * - Skipped times (DST starts) move forward by the length of the gap,
+ *   e.g. 2:30 AM on a spring-forward night becomes 3:30 AM.
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Offsets on either side of any transition near this wall-clock time
+  const offsetBefore = getOffsetMs(wallClock - 24 * 60 * 60 * 1000, timeZone);
+  const offsetAfter = getOffsetMs(wallClock + 24 * 60 * 60 * 1000, timeZone);
+
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter((instant) => getOffsetMs(instant, timeZone) + instant === wallClock)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    return new Date(candidates[0]);
+  }
+
+  // Wall-clock time falls in a DST gap
+  return new Date(wallClock - offsetBefore);
+};
@@ -0,0 +1,247 @@
+/**
+ * Runtime Validators
+ *
+ * Check raw `alarms` / `alarms_sent_out` document data before it is written
+ * (app) or acted on (Cloud Functions). Each returns a list of problems; an
+ * empty list means the data is valid.
+ *
+ * Timestamps may be Dates, Firestore Timestamps or, on writes, server
+ * timestamp sentinels, so their values aren't checked.
+ */
+
+import { CHALLENGE_STATUSES, SNOOZE_COSTS } from "./alarm";
+import { DocumentData } from "./converters";
+import { isDateKey } from "./dateKeys";
+import { isValidRecurrence } from "./recurrence";
+import { isValidTimeZone } from "./timeZones";
+
+type ValidationOptions = {
+  // Only check the fields present, e.g. for an update
+  partial?: boolean;
+};
+
+type FieldCheck = {
+  field: string;
+  required: boolean;
+  isValid: (value: any) => boolean;
+  message: string;
+};
+
+const isIntegerBetween = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+const isNonEmptyString = (value: unknown) =>
+  typeof value === "string" && value.length > 0;
+
+// An alarm's stake, and the snapshot of it on an alarms_sent_out entry
+const STAKE_CHECKS: FieldCheck[] = [
+  {
+    field: "stakeAmount",
+    required: false,
+    isValid: (value) =>
+      value === null || (Number.isInteger(value) && value > 0),
+    message: "stakeAmount must be null or a positive integer",
+  },
+  {
+    field: "stakeCurrency",
+    required: false,
+    isValid: (value) => value === null || /^[A-Z]{3}$/.test(value),
+    message: "stakeCurrency must be null or an ISO 4217 code",
+  },
+];
+
+const ALARM_CHECKS: FieldCheck[] = [
+  {
+    field: "userId",
+    required: true,
+    isValid: isNonEmptyString,
+    message: "userId must be a non-empty string",
+  },
+  {
+    field: "hours",
+    required: true,
+    isValid: (value) => isIntegerBetween(value, 0, 23),
+    message: "hours must be an integer from 0 to 23",
+  },
+  {
+    field: "minutes",
+    required: true,
+    isValid: (value) => isIntegerBetween(value, 0, 59),
+    message: "minutes must be an integer from 0 to 59",
+  },
+  {
+    field: "selectedDays",
+    required: true,
+    isValid: (value) =>
+      Array.isArray(value) && value.every((day) => isIntegerBetween(day, 0, 6)),
+    message: "selectedDays must be a list of weekdays from 0 to 6",
+  },
+  {
+    field: "date",
+    required: false,
+    isValid: (value) => value === null || isDateKey(value),
+    message: 'date must be null or a "YYYY-MM-DD" date',
+  },
+  {
+    field: "recurrence",
+    required: false,
+    isValid: (value) => value === null || isValidRecurrence(value),
+    message: "recurrence must be null or a supported recurrence rule",
+  },
+  {
+    field: "isEnabled",
+    required: false,
+    isValid: (value) => typeof value === "boolean",
+    message: "isEnabled must be a boolean",
+  },
+  {
+    field: "timeZone",
+    required: false,
+    isValid: isValidTimeZone,
+    message: "timeZone must be an IANA time zone",
+  },
+  ...STAKE_CHECKS,
+  {
+    field: "snoozeDelayMinutes",
+    required: false,
+    isValid: (value) => isIntegerBetween(value, 1, 60),
+    message: "snoozeDelayMinutes must be an integer from 1 to 60",
+  },
+  {
+    field: "snoozeCost",
+    required: false,
+    isValid: (value) => SNOOZE_COSTS.includes(value),
+    message: `snoozeCost must be one of ${SNOOZE_COSTS.join(", ")}`,
+  },
+  {
+    field: "groupId",
+    required: false,
+    isValid: (value) => value === null || isNonEmptyString(value),
+    message: "groupId must be null or a non-empty string",
+  },
+];
+
+const ALARM_SENT_OUT_CHECKS: FieldCheck[] = [
+  {
+    field: "userId",
+    required: true,
+    isValid: isNonEmptyString,
+    message: "userId must be a non-empty string",
+  },
+  {
+    field: "alarmId",
+    required: true,
+    isValid: isNonEmptyString,
+    message: "alarmId must be a non-empty string",
+  },
+  {
+    field: "occurrenceKey",
+    required: false,
+    isValid: isNonEmptyString,
+    message: "occurrenceKey must be a non-empty string",
+  },
+  {
+    field: "scheduledFor",
+    required: false,
+    isValid: (value) => value !== null,
+    message: "scheduledFor must be a timestamp",
+  },
+  {
+    field: "sentAt",
+    required: true,
+    isValid: (value) => value !== null,
+    message: "sentAt is required",
+  },
+  {
+    field: "challengeStatus",
+    required: true,
+    isValid: (value) => CHALLENGE_STATUSES.includes(value),
+    message: `challengeStatus must be one of ${CHALLENGE_STATUSES.join(", ")}`,
+  },
+  {
+    field: "attemptsMade",
+    required: false,
+    isValid: (value) => Number.isInteger(value) && value >= 0,
+    message: "attemptsMade must be a non-negative integer",
+  },
+  ...STAKE_CHECKS,
+];
+
+const runChecks = (
+  data: unknown,
+  checks: FieldCheck[],
+  { partial = false }: ValidationOptions
+): string[] => {
+  if (!data || typeof data !== "object") {
+    return ["data must be an object"];
+  }
+
+  const fields = data as DocumentData;
+  return checks
+    .filter(({ field, required }) =>
+      fields[field] === undefined ? required && !partial : true
+    )
+    .filter(({ field, isValid }) => !isValid(fields[field]))
+    .map(({ message }) => message);
+};
+
+/**
+ * Problems with alarm document data
+ */
+export const validateAlarm = (
+  data: unknown,
+  options: ValidationOptions = {}
+): string[] => {
+  const problems = runChecks(data, ALARM_CHECKS, options);
+  const fields = (data || {}) as DocumentData;
+
+  if (fields.date && fields.recurrence) {
+    problems.push("an alarm can't have both a date and a recurrence");
+  }
+  if (
+    !options.partial &&
+    !fields.date &&
+    !fields.recurrence &&
+    Array.isArray(fields.selectedDays) &&
+    fields.selectedDays.length === 0
+  ) {
+    problems.push("an alarm needs selectedDays, a date or a recurrence");
+  }
+
+  return problems;
+};
+
+/**
+ * Problems with alarms_sent_out document data
+ */
+export const validateAlarmSentOut = (
+  data: unknown,
+  options: ValidationOptions = {}
+): string[] => {
+  const problems = runChecks(data, ALARM_SENT_OUT_CHECKS, options);
+  const fields = (data || {}) as DocumentData;
+
+  if (
+    typeof fields.occurrenceKey === "string" &&
+    typeof fields.alarmId === "string"
+  ) {
+    if (!fields.occurrenceKey.startsWith(`${fields.alarmId}_`)) {
+      problems.push("occurrenceKey must belong to alarmId");
+    } else if (
+      !isDateKey(fields.occurrenceKey.slice(fields.alarmId.length + 1))
+    ) {
+      problems.push("occurrenceKey must be <alarmId>_<YYYY-MM-DD>");
+    }
+  }
+  if (
+    !options.partial &&
+    fields.occurrenceKey !== undefined &&
+    fields.scheduledFor === undefined
+  ) {
+    problems.push("an entry with an occurrenceKey needs scheduledFor");
+  }
+
+  return problems;
+};
@@ -0,0 +1,212 @@
+import {
+  DEFAULT_CHALLENGE_TYPE,
+  DEFAULT_SNOOZE_COST,
+  DEFAULT_SNOOZE_DELAY_MINUTES,
+} from "../src/alarm";
+import {
+  alarmConverter,
+  alarmFromFirestore,
+  alarmSentOutConverter,
+  alarmSentOutFromFirestore,
+  alarmSentOutToFirestore,
+  alarmToFirestore,
+  toDate,
+} from "../src/converters";
+import { DEFAULT_TIME_ZONE } from "../src/timeZones";
+
+// Stands in for a Timestamp from either Firestore SDK
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+describe("toDate", () => {
+  it("reads Timestamps and Dates", () => {
+    const date = new Date("2025-06-16T11:00:00Z");
+    expect(toDate(date)).toBe(date);
+    expect(toDate(timestamp("2025-06-16T11:00:00Z"))).toEqual(date);
+  });
+
+  it("is undefined for anything else", () => {
+    expect(toDate(undefined)).toBeUndefined();
+    expect(toDate(null)).toBeUndefined();
+    expect(toDate("2025-06-16")).toBeUndefined();
+  });
+});
+
+describe("alarmFromFirestore", () => {
+  it("maps a full document", () => {
+    const recurrence = {
+      rule: "FREQ=WEEKLY;BYDAY=MO",
+      startDate: "2025-06-02",
+      exceptionDates: ["2025-06-09"],
+    };
+    expect(
+      alarmFromFirestore("alarm1", {
+        userId: "user1",
+        hours: 6,
+        minutes: 45,
+        selectedDays: [1],
+        date: null,
+        recurrence,
+        isEnabled: false,
+        challengeType: "phrase",
+        timeZone: "Europe/Berlin",
+        stakeAmount: 500,
+        stakeCurrency: "EUR",
+        snoozeDelayMinutes: 10,
+        snoozeCost: "add_stake",
+        skipNextAt: timestamp("2025-06-02T04:45:00Z"),
+        pausedUntil: null,
+        groupId: "group1",
+        createdAt: timestamp("2025-05-01T00:00:00Z"),
+      })
+    ).toEqual({
+      id: "alarm1",
+      userId: "user1",
+      hours: 6,
+      minutes: 45,
+      selectedDays: [1],
+      date: null,
+      recurrence,
+      isEnabled: false,
+      challengeType: "phrase",
+      timeZone: "Europe/Berlin",
+      stakeAmount: 500,
+      stakeCurrency: "EUR",
+      snoozeDelayMinutes: 10,
+      snoozeCost: "add_stake",
+      skipNextAt: new Date("2025-06-02T04:45:00Z"),
+      pausedUntil: null,
+      groupId: "group1",
+      createdAt: new Date("2025-05-01T00:00:00Z"),
+    });
+  });
+
+  it("defaults fields missing from older documents", () => {
+    const alarm = alarmFromFirestore("alarm1", {
+      userId: "user1",
+      hours: 7,
+      minutes: 0,
+    });
+    expect(alarm).toMatchObject({
+      selectedDays: [],
+      date: null,
+      recurrence: null,
+      isEnabled: true,
+      challengeType: DEFAULT_CHALLENGE_TYPE,
+      timeZone: DEFAULT_TIME_ZONE,
+      stakeAmount: null,
+      stakeCurrency: null,
+      snoozeDelayMinutes: DEFAULT_SNOOZE_DELAY_MINUTES,
+      snoozeCost: DEFAULT_SNOOZE_COST,
+      skipNextAt: null,
+      pausedUntil: null,
+      groupId: null,
+    });
+    expect(alarm.createdAt).toBeInstanceOf(Date);
+  });
+
+  it("drops unsupported recurrences and time zones", () => {
+    const alarm = alarmFromFirestore("alarm1", {
+      userId: "user1",
+      hours: 7,
+      minutes: 0,
+      selectedDays: [1],
+      recurrence: { rule: "FREQ=YEARLY", startDate: "2025-01-01" },
+      timeZone: "Nowhere/Special",
+    });
+    expect(alarm.recurrence).toBeNull();
+    expect(alarm.timeZone).toBe(DEFAULT_TIME_ZONE);
+  });
+});
+
+describe("alarmToFirestore", () => {
+  it("writes everything but the id", () => {
+    const alarm = alarmFromFirestore("alarm1", {
+      userId: "user1",
+      hours: 7,
+      minutes: 0,
+    });
+    const data = alarmToFirestore(alarm);
+    expect(data).not.toHaveProperty("id");
+    expect(alarmFromFirestore("alarm1", data)).toEqual(alarm);
+  });
+});
+
+describe("alarmSentOutFromFirestore", () => {
+  it("maps timestamps to Dates and keeps other fields", () => {
+    expect(
+      alarmSentOutFromFirestore("alarm1_2025-06-16", {
+        userId: "user1",
+        alarmId: "alarm1",
+        occurrenceKey: "alarm1_2025-06-16",
+        scheduledFor: timestamp("2025-06-16T11:00:00Z"),
+        sentAt: timestamp("2025-06-16T11:00:02Z"),
+        challengeStatus: "failed",
+        completedAt: timestamp("2025-06-16T11:15:02Z"),
+        failureReason: "timeout_server",
+        attemptsMade: 2,
+      })
+    ).toEqual({
+      id: "alarm1_2025-06-16",
+      userId: "user1",
+      alarmId: "alarm1",
+      occurrenceKey: "alarm1_2025-06-16",
+      scheduledFor: new Date("2025-06-16T11:00:00Z"),
+      sentAt: new Date("2025-06-16T11:00:02Z"),
+      challengeStatus: "failed",
+      completedAt: new Date("2025-06-16T11:15:02Z"),
+      failureReason: "timeout_server",
+      attemptsMade: 2,
+      snoozedUntil: undefined,
+      expiresAt: undefined,
+    });
+  });
+
+  it("reads a pending server timestamp as now", () => {
+    const sentOut = alarmSentOutFromFirestore("id", {
+      userId: "user1",
+      alarmId: "alarm1",
+      sentAt: null,
+      challengeStatus: "pending",
+    });
+    expect(sentOut.sentAt).toBeInstanceOf(Date);
+    expect(sentOut.scheduledFor).toBeUndefined();
+  });
+});
+
+describe("alarmSentOutToFirestore", () => {
+  it("leaves out the id and undefined fields", () => {
+    expect(
+      alarmSentOutToFirestore({
+        id: "alarm1_2025-06-16",
+        userId: "user1",
+        alarmId: "alarm1",
+        sentAt: new Date("2025-06-16T11:00:02Z"),
+        challengeStatus: "pending",
+        completedAt: undefined,
+      })
+    ).toEqual({
+      userId: "user1",
+      alarmId: "alarm1",
+      sentAt: new Date("2025-06-16T11:00:02Z"),
+      challengeStatus: "pending",
+    });
+  });
+});
+
+describe("converters", () => {
+  it("read snapshots through the mapping functions", () => {
+    const data = {
+      userId: "user1",
+      hours: 7,
+      minutes: 0,
+      createdAt: timestamp("2025-05-01T00:00:00Z"),
+    };
+    expect(
+      alarmConverter.fromFirestore({ id: "alarm1", data: () => data })
+    ).toEqual(alarmFromFirestore("alarm1", data));
+    expect(
+      alarmSentOutConverter.fromFirestore({ id: "id", data: () => undefined })
+        .id
+    ).toBe("id");
+  });
+});
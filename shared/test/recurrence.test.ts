@@ -0,0 +1,245 @@
+import {
+  AlarmRecurrence,
+  createWeeklyRecurrence,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getNextOccurrenceDate,
+  getOccurrenceDates,
+  getWeeklyInterval,
+  isValidRecurrence,
+  occursOn,
+  parseRecurrenceRule,
+} from "../src/recurrence";
+
+const recurrence = (
+  rule: string,
+  startDate: string,
+  exceptionDates: string[] = []
+): AlarmRecurrence => ({ rule, startDate, exceptionDates });
+
+describe("parseRecurrenceRule", () => {
+  it("parses the supported parts", () => {
+    expect(
+      parseRecurrenceRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;WKST=SU")
+    ).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [1, 3],
+      byMonthDay: [],
+      count: null,
+      until: null,
+      weekStart: 0,
+    });
+  });
+
+  it("reads the date part of UNTIL", () => {
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20250610T235959Z").until).toBe(
+      "2025-06-10"
+    );
+  });
+
+  it.each([
+    ["FREQ=YEARLY", "Unsupported recurrence frequency"],
+    ["FREQ=WEEKLY;BYDAY=1MO", "Unsupported weekday"],
+    ["FREQ=WEEKLY;BYMONTHDAY=1", "only supported with FREQ=MONTHLY"],
+    ["FREQ=DAILY;COUNT=3;UNTIL=20250610", "both COUNT and UNTIL"],
+    ["FREQ=WEEKLY;INTERVAL=53", "Invalid INTERVAL"],
+    ["FREQ=DAILY;BYHOUR=7", "Unsupported recurrence rule part"],
+    ["FREQ=DAILY;FREQ=WEEKLY", "Malformed recurrence rule"],
+  ])("rejects %s", (rule, message) => {
+    expect(() => parseRecurrenceRule(rule)).toThrow(message);
+  });
+});
+
+describe("formatRecurrenceRule", () => {
+  it("round-trips a rule, leaving out defaults", () => {
+    const text = "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1,15;COUNT=4";
+    expect(formatRecurrenceRule(parseRecurrenceRule(text))).toBe(
+      "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1,15;COUNT=4"
+    );
+    expect(formatRecurrenceRule(parseRecurrenceRule("FREQ=DAILY"))).toBe(
+      "FREQ=DAILY"
+    );
+  });
+});
+
+describe("getOccurrenceDates", () => {
+  it("rings every other week from the week of the start date", () => {
+    // 2025-06-04 is a Wednesday; its week starts Monday 2025-06-02
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR", "2025-06-04"),
+        "2025-06-01",
+        "2025-06-30"
+      )
+    ).toEqual(["2025-06-06", "2025-06-16", "2025-06-20", "2025-06-30"]);
+  });
+
+  it("leaves out exception dates", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=DAILY", "2025-06-02", ["2025-06-03", "2025-06-05"]),
+        "2025-06-01",
+        "2025-06-06"
+      )
+    ).toEqual(["2025-06-02", "2025-06-04", "2025-06-06"]);
+  });
+
+  it("counts exception dates towards COUNT, as EXDATE does", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=DAILY;COUNT=3", "2025-06-02", ["2025-06-03"]),
+        "2025-06-01",
+        "2025-06-30"
+      )
+    ).toEqual(["2025-06-02", "2025-06-04"]);
+  });
+
+  it("counts COUNT from the start date, not the range", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=DAILY;COUNT=3", "2025-06-02"),
+        "2025-06-04",
+        "2025-06-30"
+      )
+    ).toEqual(["2025-06-04"]);
+  });
+
+  it("stops after UNTIL", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=DAILY;INTERVAL=3;UNTIL=20250610", "2025-06-01"),
+        "2025-06-01",
+        "2025-06-30"
+      )
+    ).toEqual(["2025-06-01", "2025-06-04", "2025-06-07", "2025-06-10"]);
+  });
+
+  it("counts BYMONTHDAY back from the end of each month", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=MONTHLY;BYMONTHDAY=-1", "2024-01-01"),
+        "2024-01-01",
+        "2024-03-31"
+      )
+    ).toEqual(["2024-01-31", "2024-02-29", "2024-03-31"]);
+  });
+
+  it("skips months without the start date's day", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=MONTHLY", "2025-01-31"),
+        "2025-01-01",
+        "2025-04-30"
+      )
+    ).toEqual(["2025-01-31", "2025-03-31"]);
+  });
+
+  it("rings on every matching weekday of the month for MONTHLY with BYDAY", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=MONTHLY;INTERVAL=2;BYDAY=SU", "2025-06-10"),
+        "2025-06-01",
+        "2025-08-31"
+      )
+    ).toEqual([
+      "2025-06-15",
+      "2025-06-22",
+      "2025-06-29",
+      "2025-08-03",
+      "2025-08-10",
+      "2025-08-17",
+      "2025-08-24",
+      "2025-08-31",
+    ]);
+  });
+
+  it("never rings before the start date", () => {
+    expect(
+      getOccurrenceDates(
+        recurrence("FREQ=DAILY", "2025-06-10"),
+        "2025-06-08",
+        "2025-06-11"
+      )
+    ).toEqual(["2025-06-10", "2025-06-11"]);
+  });
+});
+
+describe("occursOn and getNextOccurrenceDate", () => {
+  const weekly = recurrence("FREQ=WEEKLY;BYDAY=MO", "2025-06-02", [
+    "2025-06-09",
+  ]);
+
+  it("checks single days", () => {
+    expect(occursOn(weekly, "2025-06-02")).toBe(true);
+    expect(occursOn(weekly, "2025-06-09")).toBe(false);
+    expect(occursOn(weekly, "2025-06-10")).toBe(false);
+  });
+
+  it("finds the next day, skipping exception dates", () => {
+    expect(getNextOccurrenceDate(weekly, "2025-06-03")).toBe("2025-06-16");
+  });
+
+  it("returns null once the rule has ended", () => {
+    expect(
+      getNextOccurrenceDate(
+        recurrence("FREQ=DAILY;UNTIL=20250610", "2025-06-01"),
+        "2025-06-11"
+      )
+    ).toBeNull();
+  });
+});
+
+describe("isValidRecurrence", () => {
+  it("accepts a supported recurrence", () => {
+    expect(isValidRecurrence(recurrence("FREQ=DAILY", "2025-06-01"))).toBe(
+      true
+    );
+  });
+
+  it("rejects unsupported rules and malformed dates", () => {
+    expect(isValidRecurrence(recurrence("FREQ=YEARLY", "2025-06-01"))).toBe(
+      false
+    );
+    expect(isValidRecurrence(recurrence("FREQ=DAILY", "2025-02-30"))).toBe(
+      false
+    );
+    expect(
+      isValidRecurrence(recurrence("FREQ=DAILY", "2025-06-01", ["tomorrow"]))
+    ).toBe(false);
+    expect(isValidRecurrence(null)).toBe(false);
+  });
+});
+
+describe("weekly helpers", () => {
+  it("builds and reads back an every-N-weeks recurrence", () => {
+    const every2Weeks = createWeeklyRecurrence([3, 1, 3], 2, "2025-06-02");
+    expect(every2Weeks).toEqual({
+      rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE",
+      startDate: "2025-06-02",
+      exceptionDates: [],
+    });
+    expect(getWeeklyInterval(every2Weeks)).toBe(2);
+  });
+
+  it("has no weekly interval for other rules", () => {
+    expect(
+      getWeeklyInterval(recurrence("FREQ=WEEKLY;COUNT=5", "2025-06-02"))
+    ).toBeNull();
+    expect(
+      getWeeklyInterval(recurrence("FREQ=DAILY", "2025-06-02"))
+    ).toBeNull();
+  });
+});
+
+describe("describeRecurrence", () => {
+  it.each([
+    ["FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", "Every 2 weeks on Mon, Wed"],
+    ["FREQ=DAILY;COUNT=10", "Every day, 10 times"],
+    ["FREQ=MONTHLY;BYMONTHDAY=1,-1", "Every month on the last day, 1st"],
+    ["FREQ=MONTHLY;UNTIL=20251231", "Every month, until 2025-12-31"],
+    ["FREQ=YEARLY", "Custom schedule"],
+  ])("describes %s", (rule, summary) => {
+    expect(describeRecurrence(recurrence(rule, "2025-06-01"))).toBe(summary);
+  });
+});
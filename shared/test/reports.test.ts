@@ -0,0 +1,188 @@
+import { AlarmSentOut, ChallengeStatus } from "../src/alarm";
+import {
+  buildWeeklyReport,
+  getReportWeek,
+  getWeekBounds,
+  renderWeeklyReport,
+} from "../src/reports";
+
+const sentOut = (
+  id: string,
+  scheduledFor: string,
+  challengeStatus: ChallengeStatus
+): AlarmSentOut => ({
+  id,
+  userId: "user1",
+  alarmId: id.split("_")[0],
+  scheduledFor: new Date(scheduledFor),
+  sentAt: new Date(scheduledFor),
+  challengeStatus,
+});
+
+describe("getReportWeek", () => {
+  it("is the last full week before today in the user's zone", () => {
+    // Saturday evening in New York, already Sunday in Tokyo
+    const now = new Date("2025-06-08T02:00:00Z");
+    expect(getReportWeek(now, "America/New_York")).toEqual({
+      weekStart: "2025-05-25",
+      weekEnd: "2025-05-31",
+    });
+    expect(getReportWeek(now, "Asia/Tokyo")).toEqual({
+      weekStart: "2025-06-01",
+      weekEnd: "2025-06-07",
+    });
+  });
+});
+
+describe("getWeekBounds", () => {
+  it("runs from midnight to midnight in the zone, across DST", () => {
+    // DST starts on Sunday 2025-03-09 at 2 AM in New York
+    expect(getWeekBounds("2025-03-09", "America/New_York")).toEqual({
+      start: new Date("2025-03-09T05:00:00Z"),
+      end: new Date("2025-03-16T04:00:00Z"),
+    });
+  });
+});
+
+describe("buildWeeklyReport", () => {
+  it("reports an empty week", () => {
+    const report = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "America/New_York",
+      [],
+      {}
+    );
+    expect(report).toEqual({
+      userId: "user1",
+      weekStart: "2025-06-01",
+      weekEnd: "2025-06-07",
+      timeZone: "America/New_York",
+      alarmsFired: 0,
+      successes: 0,
+      failures: 0,
+      forfeited: [],
+      streak: { current: 0, longest: 0, atWeekStart: 0 },
+    });
+    expect(renderWeeklyReport(report)).toEqual({
+      title: "Your week: Jun 1 – Jun 7",
+      summary: "No alarms rang this week.",
+      lines: [
+        { label: "Alarms fired", value: "0" },
+        { label: "Woke up", value: "0" },
+        { label: "Failed", value: "0" },
+        { label: "Money forfeited", value: "None" },
+        { label: "Current streak", value: "0" },
+        { label: "Longest streak", value: "0" },
+      ],
+    });
+  });
+
+  it("counts mixed outcomes and totals penalties per currency", () => {
+    const sentOuts = [
+      sentOut("alarm1_2025-05-28", "2025-05-28T11:00:00Z", "failed"),
+      sentOut("alarm1_2025-05-29", "2025-05-29T11:00:00Z", "success"),
+      sentOut("alarm1_2025-05-30", "2025-05-30T11:00:00Z", "success"),
+      sentOut("alarm1_2025-06-02", "2025-06-02T11:00:00Z", "success"),
+      sentOut("alarm1_2025-06-03", "2025-06-03T11:00:00Z", "failed"),
+      sentOut("alarm1_2025-06-04", "2025-06-04T11:00:00Z", "success"),
+      sentOut("alarm1_2025-06-05", "2025-06-05T11:00:00Z", "failed"),
+      sentOut("alarm1_2025-06-06", "2025-06-06T11:00:00Z", "failed"),
+      sentOut("alarm1_2025-06-07", "2025-06-07T11:00:00Z", "success"),
+      sentOut("alarm2_2025-06-07", "2025-06-07T12:00:00Z", "pending"),
+      sentOut("alarm1_2025-06-09", "2025-06-09T11:00:00Z", "success"),
+    ];
+    const penalties = {
+      "alarm1_2025-05-28": { amount: 1000, currency: "USD" },
+      "alarm1_2025-06-03": { amount: 500, currency: "USD" },
+      "alarm1_2025-06-05": { amount: 300, currency: "EUR" },
+      "alarm1_2025-06-06": { amount: 200, currency: "USD" },
+    };
+
+    const report = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "America/New_York",
+      sentOuts,
+      penalties
+    );
+    expect(report).toMatchObject({
+      alarmsFired: 7, // Including the pending one
+      successes: 3,
+      failures: 3,
+      forfeited: [
+        { amount: 700, currency: "USD" },
+        { amount: 300, currency: "EUR" },
+      ],
+      streak: { current: 1, longest: 3, atWeekStart: 2 },
+    });
+    expect(renderWeeklyReport(report).summary).toBe(
+      "You woke up 3 of 7 times and forfeited $7.00 + €3.00. Streak of 2 broken, now at 1."
+    );
+  });
+
+  it("reports a clean week as a growing streak", () => {
+    const report = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "America/New_York",
+      [
+        sentOut("alarm1_2025-05-30", "2025-05-30T11:00:00Z", "success"),
+        sentOut("alarm1_2025-06-02", "2025-06-02T11:00:00Z", "success"),
+      ],
+      {}
+    );
+    expect(renderWeeklyReport(report).summary).toBe(
+      "You woke up 1 of 1 time and lost nothing. Streak up from 1 to 2."
+    );
+  });
+
+  it("places challenges in the week by the user's zone", () => {
+    const sentOuts = [
+      // Saturday noon in New York, Sunday 1 AM in Tokyo
+      sentOut("alarm1_a", "2025-05-31T16:00:00Z", "success"),
+      // Saturday 11:59 PM in Tokyo
+      sentOut("alarm1_b", "2025-06-07T14:59:00Z", "failed"),
+      // Sunday midnight in Tokyo, Saturday in New York
+      sentOut("alarm1_c", "2025-06-07T15:00:00Z", "success"),
+    ];
+
+    const tokyo = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "Asia/Tokyo",
+      sentOuts,
+      {}
+    );
+    expect(tokyo).toMatchObject({ alarmsFired: 2, successes: 1, failures: 1 });
+
+    const newYork = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "America/New_York",
+      sentOuts,
+      {}
+    );
+    expect(newYork).toMatchObject({
+      alarmsFired: 2,
+      successes: 1,
+      failures: 1,
+      streak: { current: 1, longest: 1, atWeekStart: 1 },
+    });
+  });
+
+  it("places challenges by their occurrence rather than when they were sent", () => {
+    const late = {
+      ...sentOut("alarm1_2025-05-31", "2025-05-31T23:59:00Z", "failed"),
+      sentAt: new Date("2025-06-01T05:00:00Z"),
+    };
+    const report = buildWeeklyReport(
+      "user1",
+      "2025-06-01",
+      "America/New_York",
+      [late],
+      {}
+    );
+    expect(report.alarmsFired).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+import { Alarm } from "../src/alarm";
+import {
+  getAlarmDatesBetween,
+  getAlarmTimeZone,
+  getDueOccurrence,
+  getKeyedOccurrence,
+  getNextAlarmDate,
+  getOccurrenceKey,
+  isAlarmDueAt,
+  isOccurrenceSuppressed,
+} from "../src/schedule";
+import { DEFAULT_TIME_ZONE } from "../src/timeZones";
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const createAlarm = (overrides: Partial<Alarm> = {}): Alarm => ({
+  id: "alarm1",
+  userId: "user1",
+  hours: 7,
+  minutes: 0,
+  selectedDays: [1, 2, 3, 4, 5],
+  date: null,
+  recurrence: null,
+  isEnabled: true,
+  challengeType: "phrase",
+  timeZone: "America/New_York",
+  stakeAmount: null,
+  stakeCurrency: null,
+  snoozeDelayMinutes: 5,
+  snoozeCost: "shorten_window",
+  skipNextAt: null,
+  pausedUntil: null,
+  groupId: null,
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("getAlarmTimeZone", () => {
+  it("falls back to the default zone for missing or unknown zones", () => {
+    expect(getAlarmTimeZone({ timeZone: "Asia/Tokyo" })).toBe("Asia/Tokyo");
+    expect(getAlarmTimeZone({ timeZone: "Nowhere/Special" })).toBe(
+      DEFAULT_TIME_ZONE
+    );
+    expect(getAlarmTimeZone({ timeZone: "" })).toBe(DEFAULT_TIME_ZONE);
+  });
+});
+
+describe("getAlarmDatesBetween", () => {
+  it("rings on the selected weekdays at local time", () => {
+    // Friday noon UTC to Tuesday noon UTC
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          createAlarm(),
+          new Date("2025-06-13T12:00:00Z"),
+          new Date("2025-06-17T12:00:00Z")
+        )
+      )
+    ).toEqual(["2025-06-16T11:00:00.000Z", "2025-06-17T11:00:00.000Z"]);
+  });
+
+  it("uses the weekday in the alarm's zone, not in UTC", () => {
+    // Monday 07:00 in Tokyo is still Sunday in UTC
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          createAlarm({ timeZone: "Asia/Tokyo", selectedDays: [1] }),
+          new Date("2025-06-14T00:00:00Z"),
+          new Date("2025-06-17T00:00:00Z")
+        )
+      )
+    ).toEqual(["2025-06-15T22:00:00.000Z"]);
+  });
+
+  it("rings after the gap when DST starts", () => {
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          createAlarm({ hours: 2, minutes: 30, selectedDays: EVERY_DAY }),
+          new Date("2025-03-08T00:00:00Z"),
+          new Date("2025-03-11T00:00:00Z")
+        )
+      )
+    ).toEqual([
+      "2025-03-08T07:30:00.000Z", // 2:30 EST
+      "2025-03-09T07:30:00.000Z", // 3:30 EDT, 2:30 doesn't exist
+      "2025-03-10T06:30:00.000Z", // 2:30 EDT
+    ]);
+  });
+
+  it("rings once on the repeated hour when DST ends", () => {
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          createAlarm({ hours: 1, minutes: 30, selectedDays: EVERY_DAY }),
+          new Date("2025-11-01T00:00:00Z"),
+          new Date("2025-11-04T00:00:00Z")
+        )
+      )
+    ).toEqual([
+      "2025-11-01T05:30:00.000Z", // 1:30 EDT
+      "2025-11-02T05:30:00.000Z", // first 1:30, still EDT
+      "2025-11-03T06:30:00.000Z", // 1:30 EST
+    ]);
+  });
+
+  it("keeps the wall-clock time across a DST change", () => {
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          createAlarm({ selectedDays: [0] }),
+          new Date("2025-10-25T00:00:00Z"),
+          new Date("2025-11-10T00:00:00Z")
+        )
+      )
+    ).toEqual([
+      "2025-10-26T11:00:00.000Z",
+      "2025-11-02T12:00:00.000Z",
+      "2025-11-09T12:00:00.000Z",
+    ]);
+  });
+
+  it("follows the recurrence instead of selectedDays, skipping exception dates", () => {
+    const alarm = createAlarm({
+      recurrence: {
+        rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO",
+        startDate: "2025-06-02",
+        exceptionDates: ["2025-06-16"],
+      },
+    });
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          alarm,
+          new Date("2025-06-01T00:00:00Z"),
+          new Date("2025-07-10T00:00:00Z")
+        )
+      )
+    ).toEqual(["2025-06-02T11:00:00.000Z", "2025-06-30T11:00:00.000Z"]);
+  });
+
+  it("rings one-off alarms on their date only", () => {
+    const alarm = createAlarm({ date: "2025-06-18", selectedDays: [] });
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          alarm,
+          new Date("2025-06-01T00:00:00Z"),
+          new Date("2025-06-30T00:00:00Z")
+        )
+      )
+    ).toEqual(["2025-06-18T11:00:00.000Z"]);
+  });
+
+  it("leaves out skipped and paused occurrences", () => {
+    const alarm = createAlarm({
+      selectedDays: EVERY_DAY,
+      pausedUntil: new Date("2025-06-03T04:00:00Z"),
+      skipNextAt: new Date("2025-06-05T11:00:00Z"),
+    });
+    expect(
+      iso(
+        getAlarmDatesBetween(
+          alarm,
+          new Date("2025-06-01T00:00:00Z"),
+          new Date("2025-06-06T00:00:00Z")
+        )
+      )
+    ).toEqual(["2025-06-03T11:00:00.000Z", "2025-06-04T11:00:00.000Z"]);
+  });
+});
+
+describe("isOccurrenceSuppressed", () => {
+  it("suppresses only the skipped occurrence", () => {
+    const alarm = createAlarm({
+      skipNextAt: new Date("2025-06-02T11:00:00Z"),
+    });
+    expect(
+      isOccurrenceSuppressed(alarm, new Date("2025-06-02T11:00:00Z"))
+    ).toBe(true);
+    expect(
+      isOccurrenceSuppressed(alarm, new Date("2025-06-03T11:00:00Z"))
+    ).toBe(false);
+  });
+
+  it("suppresses everything before the end of a pause", () => {
+    const alarm = createAlarm({
+      pausedUntil: new Date("2025-06-05T04:00:00Z"),
+    });
+    expect(
+      isOccurrenceSuppressed(alarm, new Date("2025-06-04T11:00:00Z"))
+    ).toBe(true);
+    expect(
+      isOccurrenceSuppressed(alarm, new Date("2025-06-05T11:00:00Z"))
+    ).toBe(false);
+  });
+});
+
+describe("getNextAlarmDate", () => {
+  it("finds the next weekday occurrence", () => {
+    // Saturday
+    expect(
+      getNextAlarmDate(createAlarm(), new Date("2025-06-14T12:00:00Z"))
+    ).toEqual(new Date("2025-06-16T11:00:00Z"));
+  });
+
+  it("looks past a long pause", () => {
+    const alarm = createAlarm({
+      pausedUntil: new Date("2025-08-01T04:00:00Z"),
+    });
+    expect(getNextAlarmDate(alarm, new Date("2025-06-14T12:00:00Z"))).toEqual(
+      new Date("2025-08-01T11:00:00Z")
+    );
+  });
+
+  it("finds far-off one-off and monthly occurrences", () => {
+    expect(
+      getNextAlarmDate(
+        createAlarm({ date: "2026-01-15", selectedDays: [] }),
+        new Date("2025-06-14T12:00:00Z")
+      )
+    ).toEqual(new Date("2026-01-15T12:00:00Z"));
+    expect(
+      getNextAlarmDate(
+        createAlarm({
+          recurrence: {
+            rule: "FREQ=MONTHLY;INTERVAL=6;BYMONTHDAY=1",
+            startDate: "2025-01-01",
+            exceptionDates: [],
+          },
+        }),
+        new Date("2025-01-02T12:00:00Z")
+      )
+    ).toEqual(new Date("2025-07-01T11:00:00Z"));
+  });
+
+  it("returns null once a one-off alarm has rung", () => {
+    expect(
+      getNextAlarmDate(
+        createAlarm({ date: "2025-06-10", selectedDays: [] }),
+        new Date("2025-06-14T12:00:00Z")
+      )
+    ).toBeNull();
+  });
+});
+
+describe("getOccurrenceKey", () => {
+  it("uses the occurrence's date in the alarm's zone", () => {
+    expect(
+      getOccurrenceKey(
+        { id: "alarm1", timeZone: "Asia/Tokyo" },
+        new Date("2025-06-15T22:00:00Z")
+      )
+    ).toBe("alarm1_2025-06-16");
+    expect(
+      getOccurrenceKey(
+        { id: "alarm1", timeZone: "America/Los_Angeles" },
+        new Date("2025-06-16T03:00:00Z")
+      )
+    ).toBe("alarm1_2025-06-15");
+  });
+});
+
+describe("getKeyedOccurrence", () => {
+  it("finds the occurrence on the key's date in the alarm's zone", () => {
+    expect(
+      getKeyedOccurrence(
+        createAlarm({ timeZone: "Asia/Tokyo", selectedDays: EVERY_DAY }),
+        "alarm1_2025-06-16"
+      )
+    ).toEqual(new Date("2025-06-15T22:00:00Z"));
+    expect(
+      getKeyedOccurrence(
+        createAlarm({
+          hours: 23,
+          timeZone: "Pacific/Pago_Pago",
+          selectedDays: EVERY_DAY,
+        }),
+        "alarm1_2025-06-16"
+      )
+    ).toEqual(new Date("2025-06-17T10:00:00Z"));
+  });
+
+  it("is null on days the alarm doesn't ring", () => {
+    // 2025-06-14 is a Saturday
+    expect(getKeyedOccurrence(createAlarm(), "alarm1_2025-06-14")).toBeNull();
+    expect(
+      getKeyedOccurrence(
+        createAlarm({ skipNextAt: new Date("2025-06-16T11:00:00Z") }),
+        "alarm1_2025-06-16"
+      )
+    ).toBeNull();
+  });
+
+  it("is null for keys of other alarms or without a date", () => {
+    expect(getKeyedOccurrence(createAlarm(), "alarm2_2025-06-16")).toBeNull();
+    expect(getKeyedOccurrence(createAlarm(), "alarm1_2025-06-31")).toBeNull();
+    expect(getKeyedOccurrence(createAlarm(), "alarm1")).toBeNull();
+  });
+});
+
+describe("getDueOccurrence", () => {
+  const alarm = createAlarm();
+
+  it("finds the occurrence anywhere in the current minute", () => {
+    expect(getDueOccurrence(alarm, new Date("2025-06-16T11:00:00Z"))).toEqual(
+      new Date("2025-06-16T11:00:00Z")
+    );
+    expect(getDueOccurrence(alarm, new Date("2025-06-16T11:00:59Z"))).toEqual(
+      new Date("2025-06-16T11:00:00Z")
+    );
+  });
+
+  it("is null outside the minute", () => {
+    expect(
+      getDueOccurrence(alarm, new Date("2025-06-16T10:59:59Z"))
+    ).toBeNull();
+    expect(isAlarmDueAt(alarm, new Date("2025-06-16T11:01:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "../src/timeZones";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone(DEFAULT_TIME_ZONE)).toBe(true);
+  });
+
+  it("rejects unknown zones and non-strings", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+    expect(isValidTimeZone(null)).toBe(false);
+    expect(isValidTimeZone(5)).toBe(false);
+  });
+});
+
+describe("getZonedParts", () => {
+  it("reads the wall clock in the zone, including the previous day", () => {
+    expect(
+      getZonedParts(new Date("2025-01-01T03:00:00Z"), "America/Los_Angeles")
+    ).toEqual({
+      year: 2024,
+      month: 12,
+      day: 31,
+      hours: 19,
+      minutes: 0,
+      seconds: 0,
+      weekday: 2,
+    });
+  });
+
+  it("reads midnight as hour 0", () => {
+    expect(
+      getZonedParts(new Date("2025-06-15T22:00:00Z"), "Europe/Berlin").hours
+    ).toBe(0);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("resolves a wall-clock time outside any transition", () => {
+    expect(zonedTimeToUtc(2025, 6, 15, 7, 0, "America/New_York")).toEqual(
+      new Date("2025-06-15T11:00:00Z")
+    );
+    expect(zonedTimeToUtc(2025, 1, 15, 7, 0, "America/New_York")).toEqual(
+      new Date("2025-01-15T12:00:00Z")
+    );
+  });
+
+  it("handles zones ahead of UTC across the date line", () => {
+    expect(zonedTimeToUtc(2025, 6, 16, 5, 0, "Asia/Tokyo")).toEqual(
+      new Date("2025-06-15T20:00:00Z")
+    );
+  });
+
+  it("moves times skipped when DST starts forward by the gap", () => {
+    // 2:30 AM doesn't exist on 2025-03-09 in New York; it rings at 3:30 EDT
+    expect(zonedTimeToUtc(2025, 3, 9, 2, 30, "America/New_York")).toEqual(
+      new Date("2025-03-09T07:30:00Z")
+    );
+  });
+
+  it("resolves times repeated when DST ends to the first one", () => {
+    // 1:30 AM happens twice on 2025-11-02 in New York, first in EDT
+    expect(zonedTimeToUtc(2025, 11, 2, 1, 30, "America/New_York")).toEqual(
+      new Date("2025-11-02T05:30:00Z")
+    );
+  });
+
+  it("handles DST in the southern hemisphere", () => {
+    // Sydney moves from AEDT (+11) to AEST (+10) on 2025-04-06
+    expect(zonedTimeToUtc(2025, 4, 5, 7, 0, "Australia/Sydney")).toEqual(
+      new Date("2025-04-04T20:00:00Z")
+    );
+    expect(zonedTimeToUtc(2025, 4, 7, 7, 0, "Australia/Sydney")).toEqual(
+      new Date("2025-04-06T21:00:00Z")
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { validateAlarm, validateAlarmSentOut } from "../src/validators";
+
+const validAlarm = {
+  userId: "user1",
+  hours: 7,
+  minutes: 30,
+  selectedDays: [1, 2, 3],
+  date: null,
+  recurrence: null,
+  isEnabled: true,
+  timeZone: "America/New_York",
+  stakeAmount: 500,
+  stakeCurrency: "USD",
+  snoozeDelayMinutes: 5,
+  snoozeCost: "shorten_window",
+};
+
+const validSentOut = {
+  userId: "user1",
+  alarmId: "alarm1",
+  occurrenceKey: "alarm1_2025-06-16",
+  scheduledFor: new Date("2025-06-16T11:30:00Z"),
+  sentAt: new Date("2025-06-16T11:30:01Z"),
+  challengeStatus: "pending",
+};
+
+describe("validateAlarm", () => {
+  it("accepts valid alarms", () => {
+    expect(validateAlarm(validAlarm)).toEqual([]);
+    expect(
+      validateAlarm({ ...validAlarm, selectedDays: [], date: "2025-06-16" })
+    ).toEqual([]);
+    expect(
+      validateAlarm({
+        ...validAlarm,
+        selectedDays: [],
+        recurrence: {
+          rule: "FREQ=DAILY;INTERVAL=2",
+          startDate: "2025-06-16",
+          exceptionDates: [],
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports each invalid field", () => {
+    expect(
+      validateAlarm({
+        ...validAlarm,
+        hours: 24,
+        selectedDays: [7],
+        timeZone: "Nowhere/Special",
+        stakeAmount: 4.5,
+        stakeCurrency: "usd",
+        snoozeCost: "free",
+      })
+    ).toEqual([
+      "hours must be an integer from 0 to 23",
+      "selectedDays must be a list of weekdays from 0 to 6",
+      "timeZone must be an IANA time zone",
+      "stakeAmount must be null or a positive integer",
+      "stakeCurrency must be null or an ISO 4217 code",
+      "snoozeCost must be one of shorten_window, add_stake",
+    ]);
+  });
+
+  it("requires a schedule", () => {
+    expect(validateAlarm({ ...validAlarm, selectedDays: [] })).toEqual([
+      "an alarm needs selectedDays, a date or a recurrence",
+    ]);
+  });
+
+  it("rejects a date together with a recurrence", () => {
+    expect(
+      validateAlarm({
+        ...validAlarm,
+        date: "2025-06-16",
+        recurrence: {
+          rule: "FREQ=DAILY",
+          startDate: "2025-06-16",
+          exceptionDates: [],
+        },
+      })
+    ).toEqual(["an alarm can't have both a date and a recurrence"]);
+  });
+
+  it("rejects malformed dates and recurrences", () => {
+    expect(
+      validateAlarm({
+        ...validAlarm,
+        date: "2025-02-30",
+        recurrence: { rule: "FREQ=YEARLY" },
+      })
+    ).toEqual([
+      'date must be null or a "YYYY-MM-DD" date',
+      "recurrence must be null or a supported recurrence rule",
+      "an alarm can't have both a date and a recurrence",
+    ]);
+  });
+
+  it("only checks the fields present for partial updates", () => {
+    expect(validateAlarm({ hours: 8 }, { partial: true })).toEqual([]);
+    expect(validateAlarm({ selectedDays: [] }, { partial: true })).toEqual([]);
+    expect(validateAlarm({ minutes: 60 }, { partial: true })).toEqual([
+      "minutes must be an integer from 0 to 59",
+    ]);
+  });
+
+  it("requires the core fields otherwise", () => {
+    expect(validateAlarm({})).toEqual([
+      "userId must be a non-empty string",
+      "hours must be an integer from 0 to 23",
+      "minutes must be an integer from 0 to 59",
+      "selectedDays must be a list of weekdays from 0 to 6",
+    ]);
+    expect(validateAlarm(null)).toEqual(["data must be an object"]);
+  });
+});
+
+describe("validateAlarmSentOut", () => {
+  it("accepts a valid entry", () => {
+    expect(validateAlarmSentOut(validSentOut)).toEqual([]);
+  });
+
+  it("rejects unknown statuses and negative attempts", () => {
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        challengeStatus: "snoozed",
+        attemptsMade: -1,
+      })
+    ).toEqual([
+      "challengeStatus must be one of pending, success, failed",
+      "attemptsMade must be a non-negative integer",
+    ]);
+  });
+
+  it("rejects an occurrence key of another alarm", () => {
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        occurrenceKey: "alarm2_2025-06-16",
+      })
+    ).toEqual(["occurrenceKey must belong to alarmId"]);
+  });
+
+  it("rejects an occurrence key without a valid date", () => {
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        occurrenceKey: "alarm1_2025-06-31",
+      })
+    ).toEqual(["occurrenceKey must be <alarmId>_<YYYY-MM-DD>"]);
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        occurrenceKey: "alarm1_x2025-06-16",
+      })
+    ).toEqual(["occurrenceKey must be <alarmId>_<YYYY-MM-DD>"]);
+  });
+
+  it("requires scheduledFor with an occurrence key, except on updates", () => {
+    const { scheduledFor: _scheduledFor, ...unscheduled } = validSentOut;
+    expect(validateAlarmSentOut(unscheduled)).toEqual([
+      "an entry with an occurrenceKey needs scheduledFor",
+    ]);
+    expect(validateAlarmSentOut(unscheduled, { partial: true })).toEqual([]);
+  });
+
+  it("checks the stake snapshot like an alarm's stake", () => {
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        stakeAmount: 500,
+        stakeCurrency: "USD",
+      })
+    ).toEqual([]);
+    expect(
+      validateAlarmSentOut({
+        ...validSentOut,
+        stakeAmount: 0,
+        stakeCurrency: "usd",
+      })
+    ).toEqual([
+      "stakeAmount must be null or a positive integer",
+      "stakeCurrency must be null or an ISO 4217 code",
+    ]);
+  });
+});